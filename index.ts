@@ -1,7 +1,40 @@
 import * as axiosDefault from 'axios';
-import { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { AxiosAdapter, AxiosRequestConfig, AxiosResponse } from 'axios';
 import * as crypto from 'crypto';
 import * as qs from 'qs';
+import * as uuid from 'uuid';
+import { ICassette } from './src/cassette';
+import { getServerClock, IServerClock, IServerClockOptions } from './src/clock';
+import { serializeDecimals, Decimal, DecimalInput } from './src/decimal';
+import { toGdaxError, AuthenticationRequiredError } from './src/errors';
+import { composeMiddleware, IGdaxMiddleware, IGdaxRequest } from './src/middleware';
+import {
+    IAccount,
+    ICandle,
+    ICandleTuple,
+    ICoinbaseAccount,
+    ICurrency,
+    IFill,
+    IFunding,
+    IHold,
+    ILedgerEntry,
+    IMarginTransfer,
+    IOrder,
+    IPaymentMethod,
+    IPosition,
+    IProduct,
+    IProductOrderBook,
+    IProductStats,
+    IProductTicker,
+    IReport,
+    IServerTime,
+    ITrade,
+    ITrailingVolume,
+    ITransferReceipt,
+} from './src/models';
+import { prepareOrder, OrderRounding } from './src/orders';
+import { getRateLimiter, requestPriority, IRateLimiter, RateLimitBudget } from './src/rateLimiter';
+import { defaultRetryPolicy, submitIdempotently, withRetry, IRetryPolicy } from './src/retry';
 
 /**
  * Just an alias.
@@ -52,7 +85,7 @@ const privateAgentConfig = {
  * The post body shape.
  */
 export interface IPostBody {
-    [key: string]: string | number | boolean;
+    [key: string]: string | number | boolean | Decimal;
 }
 
 /**
@@ -64,38 +97,53 @@ export interface IQueryParams {
 
 export type IPaginationParams = { before?: string; after?: string, limit?: string };
 
+/**
+ * The HMAC-SHA256 of a prehash string under a (base64) API secret, in base64.  Every GDAX signature (REST, feed and
+ * FIX Logon) is one of these; only the prehash differs.
+ *
+ * @param {string} privateKey
+ * @param {string} prehash
+ * @returns {string}
+ */
+export const hmacDigest = (privateKey: string, prehash: string): string => {
+
+    // Decrypt the private key.
+    const key = new Buffer(privateKey, 'base64');
+
+    // Create the hmac and generate its digest in base64.
+    return crypto.createHmac('sha256', key).update(prehash).digest('base64');
+};
+
 /**
  * This function is exported so that a user can experiment with/understand how GDAX wants requests to be signed.
  * Essentially, for user edification ;).
  *
+ * The signature is stamped with the local clock unless a `time` (epoch seconds) is given, e.g. from a server clock.
+ *
  * @param {string} privateKey
  * @param {string} path
  * @param method
  * @param {{}} body
+ * @param {number} time
  * @returns {ISignature}
  */
-export const signMessage = (privateKey: string, path: string, method: string, body?: IPostBody): ISignature => {
+export const signMessage = (privateKey: string,
+                            path: string,
+                            method: string,
+                            body?: IPostBody,
+                            time?: number): ISignature => {
 
     //tslint:disable:no-magic-numbers
-    const timestamp = Date.now() / 1000;
+    const timestamp = time === undefined ? Date.now() / 1000 : time;
     //tslint:enable:no-magic-numbers
 
-    // Decrypt the private key.
-    const key = new Buffer(privateKey, 'base64');
-
-    // Create the hmac.
-    const hmac = crypto.createHmac('sha256', key);
-
     // Build a string to hash.
     const prehash = body ?
                     `${timestamp}${method.toUpperCase()}${path}${JSON.stringify(body)}` :
                     `${timestamp}${method.toUpperCase()}${path}`;
 
-    // Generate the hmac digest in base64.
-    const digest = hmac.update(prehash).digest('base64');
-
     // Return the digest and the timestamp used in the hmac hash.
-    return { digest, timestamp };
+    return { digest: hmacDigest(privateKey, prehash), timestamp };
 };
 
 /**
@@ -108,89 +156,278 @@ export type ISignature = { digest: string; timestamp: number; };
  */
 export type IApiAuth = { publicKey: string; privateKey: string; passphrase: string; };
 
+/**
+ * Raw agent options.  By default every agent gets its own rate limiter with the GDAX default budgets; pass a shared
+ * limiter to have several clients draw from the same budgets, or `false` to send requests immediately.
+ *
+ * GETs and DELETEs are retried with the default retry policy unless another policy (or `false`) is given.  POSTs are
+ * never retried by the agent; see #placeNewOrder for safe order placement.
+ *
+ * A `clock` stamps signatures with the estimated server time instead of the local time (see
+ * IGdaxClient#calibrateClock).
+ *
+ * A `cassette` records the agent's requests, or replays them offline (see #getCassette).
+ *
+ * `middleware` wraps every request the agent sends, the first one outermost (see #composeMiddleware).
+ */
+export type IRawAgentOptions = {
+    rateLimiter?: IRateLimiter | false;
+    retryPolicy?: IRetryPolicy | false;
+    clock?: IServerClock;
+    cassette?: ICassette;
+    middleware?: IGdaxMiddleware[];
+};
+
 /**
  * The shape of a raw request forwarding agent.
  */
 export interface IRawAgent {
     auth?: IApiAuth;
 
-    deleteFromPrivateEndpoint(endpoint: string,
-                              queryParams?: IQueryParams,
-                              config?: IGdaxRequestConfig): Promise<IGdaxResponse>;
+    rateLimiter?: IRateLimiter;
+
+    retryPolicy?: IRetryPolicy;
+
+    clock?: IServerClock;
+
+    cassette?: ICassette;
+
+    middleware?: IGdaxMiddleware[];
+
+    deleteFromPrivateEndpoint<T>(endpoint: string,
+                                 queryParams?: IQueryParams,
+                                 config?: IGdaxRequestConfig): Promise<IGdaxResponse<T>>;
 
     isUpgraded(): boolean;
 
-    getFromPrivateEndpoint(endpoint: string,
-                           queryParams?: IQueryParams,
-                           config?: IGdaxRequestConfig): Promise<IGdaxResponse>;
+    getFromPrivateEndpoint<T>(endpoint: string,
+                              queryParams?: IQueryParams,
+                              config?: IGdaxRequestConfig): Promise<IGdaxResponse<T>>;
 
-    getPublicEndpoint(endpoint: string,
-                      queryParams?: IQueryParams,
-                      config?: IGdaxRequestConfig): Promise<IGdaxResponse>;
+    getPublicEndpoint<T>(endpoint: string,
+                         queryParams?: IQueryParams,
+                         config?: IGdaxRequestConfig): Promise<IGdaxResponse<T>>;
 
-    postToPrivateEndpoint(endpoint: string, data?: IPostBody, config?: IGdaxRequestConfig): Promise<IGdaxResponse>;
+    postToPrivateEndpoint<T>(endpoint: string,
+                             data?: IPostBody,
+                             config?: IGdaxRequestConfig): Promise<IGdaxResponse<T>>;
 
-    signMessage(privateKey: string, path: string, method: string, body?: IPostBody): ISignature;
+    signMessage(privateKey: string, path: string, method: string, body?: IPostBody, time?: number): ISignature;
 
     upgrade(newAuth: IApiAuth): void;
+
+    use(middleware: IGdaxMiddleware): void;
 }
 
+/**
+ * The rejection for private requests made without API keys.
+ *
+ * @param {string} method
+ * @param {string} endpoint
+ * @returns {AuthenticationRequiredError}
+ */
+const missingCredentials = (method: string, endpoint: string): AuthenticationRequiredError =>
+    new AuthenticationRequiredError(`api keys are required to access private endpoints`, { endpoint, method });
+
+/**
+ * The time to stamp signatures with: the agent's server clock if it has one, otherwise the local clock.
+ *
+ * @param {IRawAgent} agent
+ * @returns {number}
+ */
+const signingTime = (agent: IRawAgent): number =>
+    //tslint:disable-next-line:no-magic-numbers
+    agent.clock === null || agent.clock === undefined ? undefined : agent.clock.now() / 1000;
+
+/**
+ * The axios adapter to send requests with: the agent's cassette if it has one, otherwise the axios default.
+ *
+ * @param {IRawAgent} agent
+ * @returns {AxiosAdapter}
+ */
+const requestAdapter = (agent: IRawAgent): AxiosAdapter =>
+    agent.cassette === null || agent.cassette === undefined ? undefined : agent.cassette.adapter;
+
+/**
+ * Waits for the agent's rate limiter (if any) to release a request.  DELETEs (cancels) jump ahead of POSTs, which
+ * jump ahead of GETs, unless the request config names its own priority.
+ *
+ * @param {IRawAgent} agent
+ * @param {RateLimitBudget} budget
+ * @param {string} method
+ * @param {IGdaxRequestConfig} config
+ * @returns {Promise<void>}
+ */
+const throttle = (agent: IRawAgent,
+                  budget: RateLimitBudget,
+                  method: string,
+                  config: IGdaxRequestConfig): Promise<void> => {
+
+    if (agent.rateLimiter === null || agent.rateLimiter === undefined) return Promise.resolve();
+    if (config !== null && config !== undefined && config.rateLimited === false) return Promise.resolve();
+
+    const defaultPriority = method === 'DELETE' ? requestPriority.cancel :
+                            method === 'POST' ? requestPriority.order :
+                            requestPriority.query;
+    const hasPriority     = config !== null && config !== undefined && config.priority !== undefined;
+    const priority        = hasPriority ? config.priority : defaultPriority;
+
+    return agent.rateLimiter.acquire(budget, priority);
+};
+
+/**
+ * Builds the request for one attempt: the agent defaults, the caller's config over them, and the caller's headers
+ * merged into the default headers.
+ *
+ * @param {IRawAgent} agent
+ * @param {boolean} authenticated
+ * @param {string} method
+ * @param {string} endpoint
+ * @param {string} uri
+ * @param {IPostBody} body
+ * @param {IGdaxRequestConfig} config
+ * @returns {IGdaxRequest}
+ */
+const buildRequest = (agent: IRawAgent,
+                      authenticated: boolean,
+                      method: string,
+                      endpoint: string,
+                      uri: string,
+                      body: IPostBody,
+                      config: IGdaxRequestConfig): IGdaxRequest => {
+
+    const overrides = config === null || config === undefined ? {} : config;
+    const baseline  = authenticated ? privateAgentConfig : publicAgentConfig;
+
+    return {
+        authenticated,
+        config  : {
+            ...baseline,
+            adapter: requestAdapter(agent),
+            data   : body,
+            method,
+            url    : uri,
+            ...overrides,
+            headers: { ...baseline.headers, ...overrides.headers },
+        },
+        endpoint,
+        method,
+    };
+};
+
+/**
+ * Adds the signature headers to a private request, stamped with the agent's clock.
+ *
+ * @param {IRawAgent} agent
+ * @param {IGdaxRequestConfig} config
+ * @returns {IGdaxRequestConfig}
+ */
+const signRequest = (agent: IRawAgent, config: IGdaxRequestConfig): IGdaxRequestConfig => {
+    const { data, method, url } = config;
+    const signatureData         = signMessage(agent.auth.privateKey, url, method, data, signingTime(agent));
+
+    return {
+        ...config,
+        headers: {
+            ...config.headers,
+            'CB-ACCESS-KEY'       : agent.auth.publicKey,
+            'CB-ACCESS-PASSPHRASE': agent.auth.passphrase,
+            'CB-ACCESS-SIGN'      : signatureData.digest,
+            'CB-ACCESS-TIMESTAMP' : signatureData.timestamp,
+        },
+    };
+};
+
+/**
+ * Sends a request through the agent's middleware and on to axios.  Private requests are signed after the last
+ * middleware, so middleware may change any part of them.
+ *
+ * @param {IRawAgent} agent
+ * @param {IGdaxRequest} request
+ * @returns {Promise<IGdaxResponse<T>>}
+ */
+const dispatch = <T>(agent: IRawAgent, request: IGdaxRequest): Promise<IGdaxResponse<T>> => {
+    const send = async ({ authenticated, config, endpoint, method }: IGdaxRequest): Promise<IGdaxResponse<{}>> => {
+        try {
+            return await axios(authenticated ? signRequest(agent, config) : config);
+        } catch (err) {
+            throw toGdaxError(err, method, endpoint);
+        }
+    };
+
+    return composeMiddleware(agent.middleware === undefined ? [] : agent.middleware, send)(request) as
+        Promise<IGdaxResponse<T>>;
+};
+
 /**
  * Factory function to get a new GDAX client.
  *
  * @param {IApiAuth} auth
+ * @param {IRawAgentOptions} options
  * @returns {IRawAgent}
  */
-const getRawAgent = (auth?: IApiAuth): IRawAgent => ({
+const getRawAgent = (auth?: IApiAuth, options: IRawAgentOptions = {}): IRawAgent => ({
 
     /**
      * This holds the user's API keys.
      */
     auth,
 
+    /**
+     * This schedules requests against the public and private budgets.
+     */
+    rateLimiter: options.rateLimiter === false ? null :
+                 options.rateLimiter === undefined ? getRateLimiter() :
+                 options.rateLimiter,
+
+    /**
+     * This decides how idempotent requests are retried.
+     */
+    retryPolicy: options.retryPolicy === false ? null :
+                 options.retryPolicy === undefined ? defaultRetryPolicy :
+                 options.retryPolicy,
+
+    /**
+     * This corrects signature timestamps for clock skew, once calibrated.
+     */
+    clock: options.clock,
+
+    /**
+     * This records or replays requests, when given.
+     */
+    cassette: options.cassette,
+
+    /**
+     * This wraps every request, outermost first.
+     */
+    middleware: options.middleware === undefined ? [] : options.middleware.slice(),
+
     /**
      * Deletes/removes/cancels from private (authenticated) endpoints.
      *
      * @param {string} endpoint
      * @param {IQueryParams} queryParams
      * @param config
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<T>>}
      */
-    async deleteFromPrivateEndpoint(endpoint: string,
-                                    queryParams?: IQueryParams,
-                                    config: IGdaxRequestConfig = null): Promise<IGdaxResponse> {
+    async deleteFromPrivateEndpoint<T>(endpoint: string,
+                                       queryParams?: IQueryParams,
+                                       config: IGdaxRequestConfig = null): Promise<IGdaxResponse<T>> {
 
         // Ensure the user has credentials
-        if (!this.isUpgraded()) return Promise.reject(`api keys are required to access private endpoints`);
+        if (!this.isUpgraded()) return Promise.reject(missingCredentials('DELETE', endpoint));
 
         // The uri is a relative path to the privateAgentConfig baseUrl
         const uri = `/${endpoint}?${qs.stringify(queryParams)}`;
 
-        const signatureData = signMessage(this.auth.privateKey, uri, 'DELETE');
+        // Idempotent, so transient failures are retried (re-signing each attempt)
+        return withRetry(this.retryPolicy, async () => {
 
-        const headersOverride = config ? config.headers : null;
+            // Wait for the rate limiter before signing, so the timestamp is fresh
+            await throttle(this, 'private', 'DELETE', config);
 
-        // Add the appropriate POST request headers (Key and Sign)
-        const headers = {
-            ...privateAgentConfig.headers,
-            'CB-ACCESS-KEY'       : this.auth.publicKey,
-            'CB-ACCESS-PASSPHRASE': this.auth.passphrase,
-            'CB-ACCESS-SIGN'      : signatureData.digest,
-            'CB-ACCESS-TIMESTAMP' : signatureData.timestamp,
-            ...headersOverride,
-        };
-
-        // Construct the actual config to be used
-        const agentConfig = { ...privateAgentConfig, headers, method: 'DELETE', url: uri, ...config };
-
-        try {
-            const response = await axios(agentConfig);
-
-            // Finally, send the request and return the response
-            return Promise.resolve(response);
-        } catch (err) {
-            return Promise.reject(err);
-        }
+            return dispatch<T>(this, buildRequest(this, true, 'DELETE', endpoint, uri, undefined, config));
+        });
     },
 
     /**
@@ -199,43 +436,26 @@ const getRawAgent = (auth?: IApiAuth): IRawAgent => ({
      * @param {string} endpoint
      * @param queryParams
      * @param config
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<T>>}
      */
-    async getFromPrivateEndpoint(endpoint: string,
-                                 queryParams?: IQueryParams,
-                                 config: IGdaxRequestConfig = null): Promise<IGdaxResponse> {
+    async getFromPrivateEndpoint<T>(endpoint: string,
+                                    queryParams?: IQueryParams,
+                                    config: IGdaxRequestConfig = null): Promise<IGdaxResponse<T>> {
 
         // Ensure the user has credentials
-        if (!this.isUpgraded()) return Promise.reject(`api keys are required to access private endpoints`);
+        if (!this.isUpgraded()) return Promise.reject(missingCredentials('GET', endpoint));
 
         // The uri is a relative path to the privateAgentConfig baseUrl
         const uri = `/${endpoint}?${qs.stringify(queryParams)}`;
 
-        const signatureData = signMessage(this.auth.privateKey, uri, 'GET');
-
-        const headersOverride = config ? config.headers : null;
-
-        // Add the appropriate POST request headers (Key and Sign)
-        const headers = {
-            ...privateAgentConfig.headers,
-            'CB-ACCESS-KEY'       : this.auth.publicKey,
-            'CB-ACCESS-PASSPHRASE': this.auth.passphrase,
-            'CB-ACCESS-SIGN'      : signatureData.digest,
-            'CB-ACCESS-TIMESTAMP' : signatureData.timestamp,
-            ...headersOverride,
-        };
-
-        // Construct the actual config to be used
-        const agentConfig = { ...privateAgentConfig, headers, method: 'GET', url: uri, ...config };
+        // Idempotent, so transient failures are retried (re-signing each attempt)
+        return withRetry(this.retryPolicy, async () => {
 
-        try {
-            const response = await axios(agentConfig);
+            // Wait for the rate limiter before signing, so the timestamp is fresh
+            await throttle(this, 'private', 'GET', config);
 
-            // Finally, send the request and return the response
-            return Promise.resolve(response);
-        } catch (err) {
-            return Promise.reject(err);
-        }
+            return dispatch<T>(this, buildRequest(this, true, 'GET', endpoint, uri, undefined, config));
+        });
     },
 
     /**
@@ -244,27 +464,23 @@ const getRawAgent = (auth?: IApiAuth): IRawAgent => ({
      * @param {string} endpoint
      * @param {{}} queryParams
      * @param config
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<T>>}
      */
-    async getPublicEndpoint(endpoint: string,
-                            queryParams?: IQueryParams,
-                            config: IGdaxRequestConfig = null): Promise<IGdaxResponse> {
+    async getPublicEndpoint<T>(endpoint: string,
+                               queryParams?: IQueryParams,
+                               config: IGdaxRequestConfig = null): Promise<IGdaxResponse<T>> {
 
         // The uri is a relative path to the publicAgentConfig baseUrl
         const uri = `/${endpoint}?${qs.stringify(queryParams)}`;
 
-        // Construct the actual config to be used
-        const agentConfig = { ...publicAgentConfig, url: uri, ...config };
+        // Idempotent, so transient failures are retried
+        return withRetry(this.retryPolicy, async () => {
 
-        try {
-            // Send the request.
-            const response = await axios(agentConfig);
+            // Wait for the rate limiter
+            await throttle(this, 'public', 'GET', config);
 
-            // Finally, return the response
-            return Promise.resolve(response);
-        } catch (err) {
-            return Promise.reject(err);
-        }
+            return dispatch<T>(this, buildRequest(this, false, 'GET', endpoint, uri, undefined, config));
+        });
     },
 
     /**
@@ -273,43 +489,22 @@ const getRawAgent = (auth?: IApiAuth): IRawAgent => ({
      * @param {string} endpoint
      * @param {IPostBody} data
      * @param config
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<T>>}
      */
-    async postToPrivateEndpoint(endpoint: string,
-                                data?: IPostBody,
-                                config: IGdaxRequestConfig = null): Promise<IGdaxResponse> {
+    async postToPrivateEndpoint<T>(endpoint: string,
+                                   data?: IPostBody,
+                                   config: IGdaxRequestConfig = null): Promise<IGdaxResponse<T>> {
 
         // Ensure the user has credentials
-        if (!this.isUpgraded()) return Promise.reject(`api keys are required to access private endpoints`);
+        if (!this.isUpgraded()) return Promise.reject(missingCredentials('POST', endpoint));
 
-        // The uri is a relative path to the privateAgentConfig baseUrl
-        const uri = `/${endpoint}`;
-
-        const signatureData = signMessage(this.auth.privateKey, uri, 'POST', data);
-
-        const headersOverride = config ? config.headers : null;
+        // Wait for the rate limiter before signing, so the timestamp is fresh
+        await throttle(this, 'private', 'POST', config);
 
-        // Add the appropriate POST request headers (Key and Sign)
-        const headers = {
-            ...privateAgentConfig.headers,
-            'CB-ACCESS-KEY'       : this.auth.publicKey,
-            'CB-ACCESS-PASSPHRASE': this.auth.passphrase,
-            'CB-ACCESS-SIGN'      : signatureData.digest,
-            'CB-ACCESS-TIMESTAMP' : signatureData.timestamp,
-            ...headersOverride,
-        };
+        // Decimals go out as exact strings; the body signed must be the body sent
+        const body = data ? serializeDecimals(data) : data;
 
-        // Construct the actual config to be used
-        const agentConfig = { ...privateAgentConfig, headers, url: uri, data, ...config };
-
-        try {
-            const response = await axios(agentConfig);
-
-            // Finally, send the request and return the response
-            return Promise.resolve(response);
-        } catch (err) {
-            return Promise.reject(err);
-        }
+        return dispatch<T>(this, buildRequest(this, true, 'POST', endpoint, `/${endpoint}`, body, config));
     },
 
     /**
@@ -322,7 +517,7 @@ const getRawAgent = (auth?: IApiAuth): IRawAgent => ({
      *
      * @returns {boolean}
      */
-    isUpgraded(): boolean { return this.auth; },
+    isUpgraded(): boolean { return this.auth !== undefined && this.auth !== null; },
 
     /**
      * Upgrades a client with new credentials.
@@ -330,36 +525,78 @@ const getRawAgent = (auth?: IApiAuth): IRawAgent => ({
      * @param {IApiAuth} newAuth
      */
     upgrade(newAuth: IApiAuth): void { this.auth = newAuth; },
+
+    /**
+     * Adds a middleware, innermost of those so far.
+     *
+     * @param {IGdaxMiddleware} middleware
+     */
+    use(middleware: IGdaxMiddleware): void { this.middleware.push(middleware); },
 });
 
-export type INewOrderParams = {
+export type OrderSide = 'buy' | 'sell';
+export type SelfTradePrevention = 'dc' | 'co' | 'cn' | 'cb';
+export type OrderCancelAfter = 'min' | 'hour' | 'day';
+
+/**
+ * Fields shared by all order types.
+ */
+export type IOrderParamsBase = {
     client_oid?: string,
-    type?: string,
-    side: string,
+    side: OrderSide,
     product_id: string,
-    stp?: string,
-    price?: number,
-    size?: number,
-    time_in_force?: string,
-    cancel_after?: string,
-    post_only?: boolean,
-    funds?: number,
+    stp?: SelfTradePrevention,
     overdraft_enabled?: boolean,
-    funding_amount?: number,
+    funding_amount?: DecimalInput,
 };
 
+/**
+ * Limit orders.  `post_only` is only allowed with GTC and GTT, and `cancel_after` is required with (and only allowed
+ * with) GTT.
+ */
+export type ILimitOrderParams = IOrderParamsBase & { type?: 'limit', price: DecimalInput, size: DecimalInput } & (
+    { time_in_force?: 'GTC', post_only?: boolean, cancel_after?: never } |
+    { time_in_force: 'GTT', cancel_after: OrderCancelAfter, post_only?: boolean } |
+    { time_in_force: 'IOC' | 'FOK', post_only?: never, cancel_after?: never });
+
+/**
+ * Market and stop orders specify either the `size` to trade or the `funds` to spend, never both.
+ */
+export type IOrderAmount = { size: DecimalInput, funds?: never } | { funds: DecimalInput, size?: never };
+
+export type IMarketOrderParams = IOrderParamsBase & { type: 'market' } & IOrderAmount;
+
+/**
+ * Stop orders become market orders once the last trade price reaches `price`.
+ */
+export type IStopOrderParams = IOrderParamsBase & { type: 'stop', price: DecimalInput } & IOrderAmount;
+
+export type INewOrderParams = ILimitOrderParams | IMarketOrderParams | IStopOrderParams;
+
+/**
+ * With `idempotent`, order placement is made safe to retry (see #placeNewOrder).  With `validate`, the order is checked
+ * against the product's metadata before it is sent, and either rejected or rounded when it does not conform (see
+ * #validateOrder).
+ */
+export type IPlaceOrderOptions = { idempotent?: boolean, validate?: OrderRounding };
+
 export type ICancelOrderParams = { product_id?: string };
 export type IListOrdersParams = { status?: string[], product_id?: string };
 export type IListFillsParams = { order_id?: string, product_id?: string };
 export type IListFundingParams = { status?: string[] };
-export type IRepayParams = { amount: number, currency: string };
-export type ITransferMarginFundsParams = { margin_profile_id: string, type: string, currency: string, amount: number };
+export type IRepayParams = { amount: DecimalInput, currency: string };
+export type ITransferMarginFundsParams = {
+    margin_profile_id: string,
+    type: string,
+    currency: string,
+    amount: DecimalInput,
+};
 export type IClosePositionParams = { repay_only: boolean };
-export type IDepositFromPaymentMethodParams = { amount: number, currency: string, payment_method_id: string };
-export type IDepositFromCoinbaseAccountParams = { amount: number, currency: string, coinbase_account_id: string };
-export type IWithdrawToPaymentMethodParams = { amount: number, currency: string, payment_method_id: string };
-export type IWithdrawToCoinbaseAccountParams = { amount: number, currency: string, coinbase_account_id: string };
-export type IWithdrawToCryptoAddressParams = { amount: number, currency: string, crypto_address: string };
+export type IDepositFromPaymentMethodParams = { amount: DecimalInput, currency: string, payment_method_id: string };
+export type IDepositFromCoinbaseAccountParams = { amount: DecimalInput, currency: string, coinbase_account_id: string };
+export type IWithdrawToPaymentMethodParams = { amount: DecimalInput, currency: string, payment_method_id: string };
+export type IWithdrawToCoinbaseAccountParams = { amount: DecimalInput, currency: string, coinbase_account_id: string };
+export type IWithdrawToCryptoAddressParams = { amount: DecimalInput, currency: string, crypto_address: string };
 export type ICreateReportParams = {
     type: string,
     start_date: string,
@@ -373,6 +610,15 @@ export type ICreateReportParams = {
 export type IGetProductOrderBookParams = { level?: number };
 export type IGetHistoricRatesParams = { start: string, end: string, granularity: number };
 
+/**
+ * Candle buckets come back as [time, low, high, open, close, volume] tuples.  This maps them onto named fields.
+ *
+ * @param {ICandleTuple} bucket
+ * @returns {ICandle}
+ */
+const toCandle = ([time, low, high, open, close, volume]: ICandleTuple): ICandle =>
+    ({ close, high, low, open, time, volume });
+
 export interface IGdaxClient {
     rawAgent: IRawAgent;
 
@@ -380,90 +626,119 @@ export interface IGdaxClient {
 
     upgrade(auth: IApiAuth): void;
 
-    getProducts(): Promise<IGdaxResponse>;
+    calibrateClock(options?: IServerClockOptions): Promise<IServerClock>;
+
+    getProducts(): Promise<IGdaxResponse<IProduct[]>>;
 
-    getProductOrderBook(productId: string, bookParams?: IGetProductOrderBookParams): Promise<IGdaxResponse>;
+    getProductOrderBook(productId: string,
+                        bookParams?: IGetProductOrderBookParams): Promise<IGdaxResponse<IProductOrderBook>>;
 
-    getProductTicker(productId: string): Promise<IGdaxResponse>;
+    getProductTicker(productId: string): Promise<IGdaxResponse<IProductTicker>>;
 
-    getTrades(productId: string, paginationParams?: IPaginationParams): Promise<IGdaxResponse>;
+    getTrades(productId: string, paginationParams?: IPaginationParams): Promise<IGdaxResponse<ITrade[]>>;
 
-    getHistoricRates(productId: string, params: IGetHistoricRatesParams): Promise<IGdaxResponse>;
+    getHistoricRates(productId: string, params: IGetHistoricRatesParams): Promise<IGdaxResponse<ICandle[]>>;
 
-    get24HrStats(productId: string): Promise<IGdaxResponse>;
+    get24HrStats(productId: string): Promise<IGdaxResponse<IProductStats>>;
 
-    getCurrencies(): Promise<IGdaxResponse>;
+    getCurrencies(): Promise<IGdaxResponse<ICurrency[]>>;
 
-    getServerTime(): Promise<IGdaxResponse>;
+    getServerTime(): Promise<IGdaxResponse<IServerTime>>;
 
-    listAccounts(): Promise<IGdaxResponse>;
+    listAccounts(): Promise<IGdaxResponse<IAccount[]>>;
 
-    getAccount(accountId: string): Promise<IGdaxResponse>;
+    getAccount(accountId: string): Promise<IGdaxResponse<IAccount>>;
 
-    getAccountHistory(accountId: string, paginationParams?: IPaginationParams): Promise<IGdaxResponse>;
+    getAccountHistory(accountId: string, paginationParams?: IPaginationParams): Promise<IGdaxResponse<ILedgerEntry[]>>;
 
-    getHolds(accountId: string, paginationParams?: IPaginationParams): Promise<IGdaxResponse>;
+    getHolds(accountId: string, paginationParams?: IPaginationParams): Promise<IGdaxResponse<IHold[]>>;
 
-    placeNewOrder(params: INewOrderParams): Promise<IGdaxResponse>;
+    placeNewOrder(params: INewOrderParams, options?: IPlaceOrderOptions): Promise<IGdaxResponse<IOrder>>;
 
-    cancelOrder(orderId: string): Promise<IGdaxResponse>;
+    cancelOrder(orderId: string): Promise<IGdaxResponse<string[]>>;
 
-    cancelAll(params?: ICancelOrderParams): Promise<IGdaxResponse>;
+    cancelAll(params?: ICancelOrderParams): Promise<IGdaxResponse<string[]>>;
 
-    listOrders(params?: IListOrdersParams, paginationParams?: IPaginationParams): Promise<IGdaxResponse>;
+    listOrders(params?: IListOrdersParams, paginationParams?: IPaginationParams): Promise<IGdaxResponse<IOrder[]>>;
 
-    getOrder(orderId: string): Promise<IGdaxResponse>;
+    getOrder(orderId: string): Promise<IGdaxResponse<IOrder>>;
 
-    listFills(listFillsParams?: IListFillsParams, paginationParams?: IPaginationParams): Promise<IGdaxResponse>;
+    listFills(listFillsParams?: IListFillsParams,
+              paginationParams?: IPaginationParams): Promise<IGdaxResponse<IFill[]>>;
 
-    listFunding(params?: IListFundingParams, paginationParams?: IPaginationParams): Promise<IGdaxResponse>;
+    listFunding(params?: IListFundingParams, paginationParams?: IPaginationParams): Promise<IGdaxResponse<IFunding[]>>;
 
-    repay(params: IRepayParams): Promise<IGdaxResponse>;
+    repay(params: IRepayParams): Promise<IGdaxResponse<{}>>;
 
-    transferMarginFunds(params: ITransferMarginFundsParams): Promise<IGdaxResponse>;
+    transferMarginFunds(params: ITransferMarginFundsParams): Promise<IGdaxResponse<IMarginTransfer>>;
 
-    getPosition(): Promise<IGdaxResponse>;
+    getPosition(): Promise<IGdaxResponse<IPosition>>;
 
-    closePosition(closePositionParams?: IClosePositionParams): Promise<IGdaxResponse>;
+    closePosition(closePositionParams?: IClosePositionParams): Promise<IGdaxResponse<IPosition>>;
 
-    depositFromPaymentMethod(params: IDepositFromPaymentMethodParams): Promise<IGdaxResponse>;
+    depositFromPaymentMethod(params: IDepositFromPaymentMethodParams): Promise<IGdaxResponse<ITransferReceipt>>;
 
-    depositFromCoinbaseAccount(params: IDepositFromCoinbaseAccountParams): Promise<IGdaxResponse>;
+    depositFromCoinbaseAccount(params: IDepositFromCoinbaseAccountParams): Promise<IGdaxResponse<ITransferReceipt>>;
 
-    withdrawToPaymentMethod(params: IWithdrawToPaymentMethodParams): Promise<IGdaxResponse>;
+    withdrawToPaymentMethod(params: IWithdrawToPaymentMethodParams): Promise<IGdaxResponse<ITransferReceipt>>;
 
-    withdrawToCoinbaseAccount(params: IWithdrawToCoinbaseAccountParams): Promise<IGdaxResponse>;
+    withdrawToCoinbaseAccount(params: IWithdrawToCoinbaseAccountParams): Promise<IGdaxResponse<ITransferReceipt>>;
 
-    withdrawToCryptoAddress(params: IWithdrawToCryptoAddressParams): Promise<IGdaxResponse>;
+    withdrawToCryptoAddress(params: IWithdrawToCryptoAddressParams): Promise<IGdaxResponse<ITransferReceipt>>;
 
-    listPaymentMethods(): Promise<IGdaxResponse>;
+    listPaymentMethods(): Promise<IGdaxResponse<IPaymentMethod[]>>;
 
-    listCoinbaseAccounts(): Promise<IGdaxResponse>;
+    listCoinbaseAccounts(): Promise<IGdaxResponse<ICoinbaseAccount[]>>;
 
-    createReport(params: ICreateReportParams): Promise<IGdaxResponse>;
+    createReport(params: ICreateReportParams): Promise<IGdaxResponse<IReport>>;
 
-    getReportStatus(reportId: string): Promise<IGdaxResponse>;
+    getReportStatus(reportId: string): Promise<IGdaxResponse<IReport>>;
 
-    getTrailingVolume(): Promise<IGdaxResponse>;
+    getTrailingVolume(): Promise<IGdaxResponse<ITrailingVolume[]>>;
 }
 
-export const getClient = (auth?: IApiAuth, configOverride: IGdaxRequestConfig = null): IGdaxClient => ({
+export const getClient = (auth?: IApiAuth,
+                          configOverride: IGdaxRequestConfig = null,
+                          agentOptions?: IRawAgentOptions): IGdaxClient => ({
 
-    rawAgent: getRawAgent(auth),
+    rawAgent: getRawAgent(auth, agentOptions),
 
     isUpgraded(): boolean { return this.rawAgent.isUpgraded(); },
 
     upgrade(newAuth: IApiAuth): void { this.rawAgent.upgrade(newAuth); },
 
+    /**
+     * Measures the offset between the local clock and the server clock (via #getServerTime) and uses it to stamp
+     * every signed request from then on.  The clock keeps re-syncing in the background; call #stop() on it to end
+     * that.  The returned clock reports the current skew via #getSkew().
+     *
+     * @param {IServerClockOptions} options
+     * @returns {Promise<IServerClock>}
+     */
+    async calibrateClock(options?: IServerClockOptions): Promise<IServerClock> {
+        if (this.rawAgent.clock !== undefined && this.rawAgent.clock !== null) this.rawAgent.clock.stop();
+
+        // The clock waits for the rate limiter itself, so that the wait is not mistaken for network latency
+        const unthrottled = { ...configOverride, rateLimited: false };
+        const fetchTime   = () => this.rawAgent.getPublicEndpoint<IServerTime>('time', null, unthrottled);
+        const clock       = getServerClock(fetchTime, options,
+                                           () => throttle(this.rawAgent, 'public', 'GET', configOverride));
+        await clock.start();
+
+        this.rawAgent.clock = clock;
+
+        return clock;
+    },
+
     // Unauthenticated
 
     /**
      * Get a list of available currency pairs for trading.
      *
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<IProduct[]>>}
      */
-    async getProducts(): Promise<IGdaxResponse> {
-        return this.rawAgent.getPublicEndpoint('products');
+    async getProducts(): Promise<IGdaxResponse<IProduct[]>> {
+        return this.rawAgent.getPublicEndpoint<IProduct[]>('products', null, configOverride);
     },
 
     /**
@@ -471,22 +746,23 @@ export const getClient = (auth?: IApiAuth, configOverride: IGdaxRequestConfig =
      *
      * @param {string} productId
      * @param {IGetProductOrderBookParams} bookParams
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<IProductOrderBook>>}
      */
-    async getProductOrderBook(productId: string, bookParams?: IGetProductOrderBookParams): Promise<IGdaxResponse> {
+    async getProductOrderBook(productId: string,
+                              bookParams?: IGetProductOrderBookParams): Promise<IGdaxResponse<IProductOrderBook>> {
         const params = bookParams || { level: 1 };
 
-        return this.rawAgent.getPublicEndpoint(`products/${productId}/book`, params, configOverride);
+        return this.rawAgent.getPublicEndpoint<IProductOrderBook>(`products/${productId}/book`, params, configOverride);
     },
 
     /**
      * Snapshot information about the last trade (tick), best bid/ask and 24h volume.
      *
      * @param {string} productId
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<IProductTicker>>}
      */
-    async getProductTicker(productId: string): Promise<IGdaxResponse> {
-        return this.rawAgent.getPublicEndpoint(`products/${productId}/ticker`, null, configOverride);
+    async getProductTicker(productId: string): Promise<IGdaxResponse<IProductTicker>> {
+        return this.rawAgent.getPublicEndpoint<IProductTicker>(`products/${productId}/ticker`, null, configOverride);
     },
 
     /**
@@ -494,10 +770,12 @@ export const getClient = (auth?: IApiAuth, configOverride: IGdaxRequestConfig =
      *
      * @param {string} productId
      * @param {IPaginationParams} paginationParams
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<ITrade[]>>}
      */
-    async getTrades(productId: string, paginationParams?: IPaginationParams): Promise<IGdaxResponse> {
-        return this.rawAgent.getPublicEndpoint(`products/${productId}/trades`, paginationParams, configOverride);
+    async getTrades(productId: string, paginationParams?: IPaginationParams): Promise<IGdaxResponse<ITrade[]>> {
+        const endpoint = `products/${productId}/trades`;
+
+        return this.rawAgent.getPublicEndpoint<ITrade[]>(endpoint, paginationParams, configOverride);
     },
 
     /**
@@ -505,38 +783,41 @@ export const getClient = (auth?: IApiAuth, configOverride: IGdaxRequestConfig =
      *
      * @param {string} productId
      * @param {IGetHistoricRatesParams} params
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<ICandle[]>>}
      */
-    async getHistoricRates(productId: string, params: IGetHistoricRatesParams): Promise<IGdaxResponse> {
-        return this.rawAgent.getPublicEndpoint(`products/${productId}/candles`, params, configOverride);
+    async getHistoricRates(productId: string, params: IGetHistoricRatesParams): Promise<IGdaxResponse<ICandle[]>> {
+        const endpoint = `products/${productId}/candles`;
+        const response = await this.rawAgent.getPublicEndpoint<ICandleTuple[]>(endpoint, params, configOverride);
+
+        return { ...response, data: response.data.map(toCandle) };
     },
 
     /**
      * Get 24 hr stats for the product. volume is in base currency units. open, high, low are in quote currency units.
      *
      * @param {string} productId
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<IProductStats>>}
      */
-    async get24HrStats(productId: string): Promise<IGdaxResponse> {
-        return this.rawAgent.getPublicEndpoint(`products/${productId}/stats`, null, configOverride);
+    async get24HrStats(productId: string): Promise<IGdaxResponse<IProductStats>> {
+        return this.rawAgent.getPublicEndpoint<IProductStats>(`products/${productId}/stats`, null, configOverride);
     },
 
     /**
      * List known currencies.
      *
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<ICurrency[]>>}
      */
-    async getCurrencies(): Promise<IGdaxResponse> {
-        return this.rawAgent.getPublicEndpoint('currencies', null, configOverride);
+    async getCurrencies(): Promise<IGdaxResponse<ICurrency[]>> {
+        return this.rawAgent.getPublicEndpoint<ICurrency[]>('currencies', null, configOverride);
     },
 
     /**
      * Get the API server time.
      *
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<IServerTime>>}
      */
-    async getServerTime(): Promise<IGdaxResponse> {
-        return this.rawAgent.getPublicEndpoint('time', null, configOverride);
+    async getServerTime(): Promise<IGdaxResponse<IServerTime>> {
+        return this.rawAgent.getPublicEndpoint<IServerTime>('time', null, configOverride);
     },
 
     // Authenticated
@@ -544,20 +825,20 @@ export const getClient = (auth?: IApiAuth, configOverride: IGdaxRequestConfig =
     /**
      * Get a list of trading accounts.
      *
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<IAccount[]>>}
      */
-    async listAccounts(): Promise<IGdaxResponse> {
-        return this.rawAgent.getFromPrivateEndpoint('accounts', null, configOverride);
+    async listAccounts(): Promise<IGdaxResponse<IAccount[]>> {
+        return this.rawAgent.getFromPrivateEndpoint<IAccount[]>('accounts', null, configOverride);
     },
 
     /**
      * Information for a single account. Use this endpoint when you know the account id.
      *
      * @param {string} accountId
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<IAccount>>}
      */
-    async getAccount(accountId: string): Promise<IGdaxResponse> {
-        return this.rawAgent.getFromPrivateEndpoint(`accounts/${accountId}`, null, configOverride);
+    async getAccount(accountId: string): Promise<IGdaxResponse<IAccount>> {
+        return this.rawAgent.getFromPrivateEndpoint<IAccount>(`accounts/${accountId}`, null, configOverride);
     },
 
     /**
@@ -567,10 +848,13 @@ export const getClient = (auth?: IApiAuth, configOverride: IGdaxRequestConfig =
      *
      * @param {string} accountId
      * @param paginationParams
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<ILedgerEntry[]>>}
      */
-    async getAccountHistory(accountId: string, paginationParams?: IPaginationParams): Promise<IGdaxResponse> {
-        return this.rawAgent.getFromPrivateEndpoint(`accounts/${accountId}/ledger`, paginationParams, configOverride);
+    async getAccountHistory(accountId: string,
+                            paginationParams?: IPaginationParams): Promise<IGdaxResponse<ILedgerEntry[]>> {
+        const endpoint = `accounts/${accountId}/ledger`;
+
+        return this.rawAgent.getFromPrivateEndpoint<ILedgerEntry[]>(endpoint, paginationParams, configOverride);
     },
 
     /**
@@ -580,10 +864,12 @@ export const getClient = (auth?: IApiAuth, configOverride: IGdaxRequestConfig =
      *
      * @param {string} accountId
      * @param {IPaginationParams} paginationParams
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<IHold[]>>}
      */
-    async getHolds(accountId: string, paginationParams?: IPaginationParams): Promise<IGdaxResponse> {
-        return this.rawAgent.getFromPrivateEndpoint(`accounts/${accountId}/holds`, paginationParams, configOverride);
+    async getHolds(accountId: string, paginationParams?: IPaginationParams): Promise<IGdaxResponse<IHold[]>> {
+        const endpoint = `accounts/${accountId}/holds`;
+
+        return this.rawAgent.getFromPrivateEndpoint<IHold[]>(endpoint, paginationParams, configOverride);
     },
 
     /**
@@ -592,13 +878,32 @@ export const getClient = (auth?: IApiAuth, configOverride: IGdaxRequestConfig =
      * the  order. How much and which funds are put on hold depends on the order type and parameters specified. See
      * the  Holds details below.
      *
-     * See https://docs.gdax.com/?#place-a-new-order for parameter details.  This library makes no attempt to verify
-     * correct parameter usage.
+     * See https://docs.gdax.com/?#place-a-new-order for parameter details.  The parameter types only admit legal
+     * field combinations; with `validate`, prices, sizes and funds are also checked against the product's metadata.
+     *
+     * Order placement is never retried unless `idempotent` is set.  In that case a client_oid is generated (if none
+     * was given), rate-limited attempts are retried, and when an attempt fails without a clear outcome (timeout,
+     * dropped connection, 5xx) the order is looked up by its client_oid before anything is resubmitted.
      *
      * @param {INewOrderParams} params
+     * @param {IPlaceOrderOptions} options
+     * @returns {Promise<IGdaxResponse<IOrder>>}
      */
-    async placeNewOrder(params: INewOrderParams): Promise<IGdaxResponse> {
-        return this.rawAgent.postToPrivateEndpoint('orders', params, configOverride);
+    async placeNewOrder(params: INewOrderParams, options: IPlaceOrderOptions = {}): Promise<IGdaxResponse<IOrder>> {
+        const validated = options.validate === undefined ? params : await prepareOrder(this, params, options.validate);
+
+        if (options.idempotent !== true) {
+            return this.rawAgent.postToPrivateEndpoint<IOrder>('orders', validated, configOverride);
+        }
+
+        const clientOid   = validated.client_oid === undefined ? uuid.v4() : validated.client_oid;
+        const orderParams = Object.assign({}, validated, { client_oid: clientOid });
+        const policy      = this.rawAgent.retryPolicy === null ? defaultRetryPolicy : this.rawAgent.retryPolicy;
+
+        const submit      = () => this.rawAgent.postToPrivateEndpoint<IOrder>('orders', orderParams, configOverride);
+        const lookup      = () => this.getOrder(`client:${clientOid}`);
+
+        return submitIdempotently<IGdaxResponse<IOrder>>(policy, submit, lookup);
     },
 
     /**
@@ -608,20 +913,20 @@ export const getClient = (auth?: IApiAuth, configOverride: IGdaxRequestConfig =
      * be  available with GET /orders/<order-id>.
      *
      * @param {string} orderId
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<string[]>>}
      */
-    async cancelOrder(orderId: string): Promise<IGdaxResponse> {
-        return this.rawAgent.deleteFromPrivateEndpoint(`orders/${orderId}`, null, configOverride);
+    async cancelOrder(orderId: string): Promise<IGdaxResponse<string[]>> {
+        return this.rawAgent.deleteFromPrivateEndpoint<string[]>(`orders/${orderId}`, null, configOverride);
     },
 
     /**
      * With best effort, cancel all open orders. The response is a list of ids of the canceled orders.
      *
      * @param {ICancelOrderParams} params
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<string[]>>}
      */
-    async cancelAll(params?: ICancelOrderParams): Promise<IGdaxResponse> {
-        return this.rawAgent.deleteFromPrivateEndpoint('orders', params, configOverride);
+    async cancelAll(params?: ICancelOrderParams): Promise<IGdaxResponse<string[]>> {
+        return this.rawAgent.deleteFromPrivateEndpoint<string[]>('orders', params, configOverride);
     },
 
     /**
@@ -630,9 +935,10 @@ export const getClient = (auth?: IApiAuth, configOverride: IGdaxRequestConfig =
      *
      * @param {IListOrdersParams} params
      * @param paginationParams
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<IOrder[]>>}
      */
-    async listOrders(params?: IListOrdersParams, paginationParams?: IPaginationParams): Promise<IGdaxResponse> {
+    async listOrders(params?: IListOrdersParams,
+                     paginationParams?: IPaginationParams): Promise<IGdaxResponse<IOrder[]>> {
 
         // This endpoint allows multiple 'status' keys to be passed in the query string.  Since this is not
         // standard, we don't rely on the standard qs#stringify() from #getFromPrivateEndpoint.  Instead, we
@@ -652,17 +958,17 @@ export const getClient = (auth?: IApiAuth, configOverride: IGdaxRequestConfig =
         const pageParams  = qs.stringify(paginationParams);
         const queryString = [orderParams, pageParams].join('&');
 
-        return this.rawAgent.getFromPrivateEndpoint(`orders?${queryString}`, null, configOverride);
+        return this.rawAgent.getFromPrivateEndpoint<IOrder[]>(`orders?${queryString}`, null, configOverride);
     },
 
     /**
      * Get a single order by order id.
      *
      * @param {string} orderId
-     * @returns {Promise<void>}
+     * @returns {Promise<IGdaxResponse<IOrder>>}
      */
-    async getOrder(orderId: string): Promise<IGdaxResponse> {
-        return this.rawAgent.getFromPrivateEndpoint(`orders/${orderId}`, null, configOverride);
+    async getOrder(orderId: string): Promise<IGdaxResponse<IOrder>> {
+        return this.rawAgent.getFromPrivateEndpoint<IOrder>(`orders/${orderId}`, null, configOverride);
     },
 
     /**
@@ -670,20 +976,22 @@ export const getClient = (auth?: IApiAuth, configOverride: IGdaxRequestConfig =
      *
      * @param {IListFillsParams} listFillsParams
      * @param paginationParams
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<IFill[]>>}
      */
-    async listFills(listFillsParams?: IListFillsParams, paginationParams?: IPaginationParams): Promise<IGdaxResponse> {
+    async listFills(listFillsParams?: IListFillsParams,
+                    paginationParams?: IPaginationParams): Promise<IGdaxResponse<IFill[]>> {
         const params = { ...listFillsParams, ...paginationParams };
 
-        return this.rawAgent.getFromPrivateEndpoint('fills', params, configOverride);
+        return this.rawAgent.getFromPrivateEndpoint<IFill[]>('fills', params, configOverride);
     },
 
     /**
      * @param {IListFundingParams} params
      * @param {IPaginationParams} paginationParams
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<IFunding[]>>}
      */
-    async listFunding(params?: IListFundingParams, paginationParams?: IPaginationParams): Promise<IGdaxResponse> {
+    async listFunding(params?: IListFundingParams,
+                      paginationParams?: IPaginationParams): Promise<IGdaxResponse<IFunding[]>> {
 
         // This endpoint allows multiple 'status' keys to be passed in the query string.  Since this is not
         // standard, we don't rely on the standard qs#stringify() from #getFromPrivateEndpoint.  Instead, we
@@ -701,17 +1009,17 @@ export const getClient = (auth?: IApiAuth, configOverride: IGdaxRequestConfig =
         const pageParams    = qs.stringify(paginationParams);
         const queryString   = [fundingParams, pageParams].join('&');
 
-        return this.rawAgent.getFromPrivateEndpoint(`funding?${queryString}`, null, configOverride);
+        return this.rawAgent.getFromPrivateEndpoint<IFunding[]>(`funding?${queryString}`, null, configOverride);
     },
 
     /**
      * Repay funding. Repays the older funding records first.
      *
      * @param {IRepayParams} params
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<{}>>}
      */
-    async repay(params: IRepayParams): Promise<IGdaxResponse> {
-        return this.rawAgent.postToPrivateEndpoint('funding/repay', params, configOverride);
+    async repay(params: IRepayParams): Promise<IGdaxResponse<{}>> {
+        return this.rawAgent.postToPrivateEndpoint<{}>('funding/repay', params, configOverride);
     },
 
     /**
@@ -723,39 +1031,39 @@ export const getClient = (auth?: IApiAuth, configOverride: IGdaxRequestConfig =
      * To get your margin profile id you can query GET /position with your margin profile’s API key.
      *
      * @param {ITransferMarginFundsParams} params
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<IMarginTransfer>>}
      */
-    async transferMarginFunds(params: ITransferMarginFundsParams): Promise<IGdaxResponse> {
-        return this.rawAgent.postToPrivateEndpoint('profiles/margin-transfer', params, configOverride);
+    async transferMarginFunds(params: ITransferMarginFundsParams): Promise<IGdaxResponse<IMarginTransfer>> {
+        return this.rawAgent.postToPrivateEndpoint<IMarginTransfer>('profiles/margin-transfer', params, configOverride);
     },
 
     /**
      * An overview of your profile.
      *
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<IPosition>>}
      */
-    async getPosition(): Promise<IGdaxResponse> {
-        return this.rawAgent.getFromPrivateEndpoint('position', null, configOverride);
+    async getPosition(): Promise<IGdaxResponse<IPosition>> {
+        return this.rawAgent.getFromPrivateEndpoint<IPosition>('position', null, configOverride);
     },
 
     /**
      * @param {IClosePositionParams} closePositionParams
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<IPosition>>}
      */
-    async closePosition(closePositionParams?: IClosePositionParams): Promise<IGdaxResponse> {
+    async closePosition(closePositionParams?: IClosePositionParams): Promise<IGdaxResponse<IPosition>> {
         const params = closePositionParams || { repay_only: false };
 
-        return this.rawAgent.postToPrivateEndpoint('position/close', params, configOverride);
+        return this.rawAgent.postToPrivateEndpoint<IPosition>('position/close', params, configOverride);
     },
 
     /**
      * Deposit funds from a payment method. See the Payment Methods section for retrieving your payment methods.
      *
      * @param {IDepositFromPaymentMethodParams} params
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<ITransferReceipt>>}
      */
-    async depositFromPaymentMethod(params: IDepositFromPaymentMethodParams): Promise<IGdaxResponse> {
-        return this.rawAgent.postToPrivateEndpoint('deposits/payment-method', params, configOverride);
+    async depositFromPaymentMethod(params: IDepositFromPaymentMethodParams): Promise<IGdaxResponse<ITransferReceipt>> {
+        return this.rawAgent.postToPrivateEndpoint<ITransferReceipt>('deposits/payment-method', params, configOverride);
     },
 
     /**
@@ -764,20 +1072,23 @@ export const getClient = (auth?: IApiAuth, configOverride: IGdaxRequestConfig =
      * the Coinbase Accounts section for retrieving your Coinbase accounts.
      *
      * @param {IDepositFromCoinbaseAccountParams} params
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<ITransferReceipt>>}
      */
-    async depositFromCoinbaseAccount(params: IDepositFromCoinbaseAccountParams): Promise<IGdaxResponse> {
-        return this.rawAgent.postToPrivateEndpoint('deposits/coinbase-account', params, configOverride);
+    async depositFromCoinbaseAccount(
+        params: IDepositFromCoinbaseAccountParams): Promise<IGdaxResponse<ITransferReceipt>> {
+        return this.rawAgent.postToPrivateEndpoint<ITransferReceipt>('deposits/coinbase-account', params,
+                                                                     configOverride);
     },
 
     /**
      * Withdraw funds to a payment method. See the Payment Methods section for retrieving your payment methods.
      *
      * @param {IWithdrawToPaymentMethodParams} params
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<ITransferReceipt>>}
      */
-    async withdrawToPaymentMethod(params: IWithdrawToPaymentMethodParams): Promise<IGdaxResponse> {
-        return this.rawAgent.postToPrivateEndpoint('withdrawals/coinbase-account', params, configOverride);
+    async withdrawToPaymentMethod(params: IWithdrawToPaymentMethodParams): Promise<IGdaxResponse<ITransferReceipt>> {
+        return this.rawAgent.postToPrivateEndpoint<ITransferReceipt>('withdrawals/payment-method', params,
+                                                                     configOverride);
     },
 
     /**
@@ -786,29 +1097,31 @@ export const getClient = (auth?: IApiAuth, configOverride: IGdaxRequestConfig =
      * Accounts section for retrieving your Coinbase accounts.
      *
      * @param {IWithdrawToCoinbaseAccountParams} params
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<ITransferReceipt>>}
      */
-    async withdrawToCoinbaseAccount(params: IWithdrawToCoinbaseAccountParams): Promise<IGdaxResponse> {
-        return this.rawAgent.postToPrivateEndpoint('withdrawals/coinbase-account', params, configOverride);
+    async withdrawToCoinbaseAccount(
+        params: IWithdrawToCoinbaseAccountParams): Promise<IGdaxResponse<ITransferReceipt>> {
+        return this.rawAgent.postToPrivateEndpoint<ITransferReceipt>('withdrawals/coinbase-account', params,
+                                                                     configOverride);
     },
 
     /**
      * Withdraws funds to a crypto address.
      *
      * @param {IWithdrawToCryptoAddressParams} params
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<ITransferReceipt>>}
      */
-    async withdrawToCryptoAddress(params: IWithdrawToCryptoAddressParams): Promise<IGdaxResponse> {
-        return this.rawAgent.postToPrivateEndpoint('withdrawals/crypto', params, configOverride);
+    async withdrawToCryptoAddress(params: IWithdrawToCryptoAddressParams): Promise<IGdaxResponse<ITransferReceipt>> {
+        return this.rawAgent.postToPrivateEndpoint<ITransferReceipt>('withdrawals/crypto', params, configOverride);
     },
 
     /**
      * Get a list of your payment methods.
      *
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<IPaymentMethod[]>>}
      */
-    async listPaymentMethods(): Promise<IGdaxResponse> {
-        return this.rawAgent.getFromPrivateEndpoint('payment-methods', null, configOverride);
+    async listPaymentMethods(): Promise<IGdaxResponse<IPaymentMethod[]>> {
+        return this.rawAgent.getFromPrivateEndpoint<IPaymentMethod[]>('payment-methods', null, configOverride);
     },
 
     /**
@@ -816,47 +1129,78 @@ export const getClient = (auth?: IApiAuth, configOverride: IGdaxRequestConfig =
      *
      * Visit the Coinbase accounts API for more information.
      *
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<ICoinbaseAccount[]>>}
      */
-    async listCoinbaseAccounts(): Promise<IGdaxResponse> {
-        return this.rawAgent.getFromPrivateEndpoint('coinbase-accounts', null, configOverride);
+    async listCoinbaseAccounts(): Promise<IGdaxResponse<ICoinbaseAccount[]>> {
+        return this.rawAgent.getFromPrivateEndpoint<ICoinbaseAccount[]>('coinbase-accounts', null, configOverride);
     },
 
     /**
      * Reports provide batches of historic information about your account in various human and machine readable forms.
      *
      * @param {ICreateReportParams} params
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<IReport>>}
      */
-    async createReport(params: ICreateReportParams): Promise<IGdaxResponse> {
-        return this.rawAgent.postToPrivateEndpoint('reports', params, configOverride);
+    async createReport(params: ICreateReportParams): Promise<IGdaxResponse<IReport>> {
+        return this.rawAgent.postToPrivateEndpoint<IReport>('reports', params, configOverride);
     },
 
     /**
      * @param {string} reportId
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<IReport>>}
      */
-    async getReportStatus(reportId: string): Promise<IGdaxResponse> {
-        return this.rawAgent.getFromPrivateEndpoint(`reports/${reportId}`, null, configOverride);
+    async getReportStatus(reportId: string): Promise<IGdaxResponse<IReport>> {
+        return this.rawAgent.getFromPrivateEndpoint<IReport>(`reports/${reportId}`, null, configOverride);
     },
 
     /**
      * This request will return your 30-day trailing volume for all products. This is a cached value that’s
      * calculated every day at midnight UTC.
      *
-     * @returns {Promise<IGdaxResponse>}
+     * @returns {Promise<IGdaxResponse<ITrailingVolume[]>>}
      */
-    async getTrailingVolume(): Promise<IGdaxResponse> {
-        return this.rawAgent.getFromPrivateEndpoint('users/self/trailing-volume', null, configOverride);
+    async getTrailingVolume(): Promise<IGdaxResponse<ITrailingVolume[]>> {
+        return this.rawAgent.getFromPrivateEndpoint<ITrailingVolume[]>('users/self/trailing-volume', null,
+                                                                       configOverride);
     },
 });
 
 /**
- * Alias for Axios request options.
+ * Alias for Axios request options.  `priority` overrides the rate limiter priority of a request; `rateLimited: false`
+ * sends it without waiting for the rate limiter, for callers that already did.
  */
-export interface IGdaxRequestConfig extends AxiosRequestConfig {}
+export interface IGdaxRequestConfig extends AxiosRequestConfig {
+    priority?: number;
+    rateLimited?: boolean;
+}
 
 /**
- * Alias for Axios response.
+ * Alias for Axios response, typed by the shape of `data`.
  */
-export interface IGdaxResponse extends AxiosResponse {}
+export interface IGdaxResponse<T> extends AxiosResponse<T> {}
+
+export * from './src/candles';
+export * from './src/cassette';
+export * from './src/clock';
+export * from './src/conditionalOrders';
+export * from './src/decimal';
+export * from './src/errors';
+export * from './src/execution';
+export * from './src/fix';
+export * from './src/models';
+export * from './src/feed';
+export * from './src/margin';
+export * from './src/matchingEngine';
+export * from './src/middleware';
+export * from './src/mockExchange';
+export * from './src/orderBook';
+export * from './src/orderManager';
+export * from './src/orders';
+export * from './src/pagination';
+export * from './src/portfolio';
+export * from './src/paperTrading';
+export * from './src/rateLimiter';
+export * from './src/reconciliation';
+export * from './src/reports';
+export * from './src/retry';
+export * from './src/withdrawals';
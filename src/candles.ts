@@ -0,0 +1,232 @@
+import { IGdaxClient } from '../index';
+import { ValidationError } from './errors';
+import { ICandle } from './models';
+
+/**
+ * Bucket sizes (seconds) the candles endpoint accepts, and the most buckets one request may span.
+ */
+//tslint:disable-next-line:no-magic-numbers
+export const supportedGranularities = [60, 300, 900, 3600, 21600, 86400];
+export const maxCandlesPerRequest   = 300;
+
+/**
+ * How missing buckets are treated.  'none' leaves them out; 'previous' synthesizes flat, zero-volume candles at the
+ * previous close.  Either way they are reported as gaps.
+ */
+export type CandleFill = 'none' | 'previous';
+
+/**
+ * Download options.  `granularity` may be any multiple of a supported granularity (e.g. 7200, 14400, 604800); other
+ * sizes are built by resampling.  Resampled buckets start at `origin` (epoch seconds) plus a multiple of the
+ * granularity; by default weekly buckets start on Mondays and everything else on the epoch.
+ */
+export type ICandleDownloadOptions = {
+    start: Date | string;
+    end: Date | string;
+    granularity: number;
+    fill?: CandleFill;
+    origin?: number;
+    onProgress?(fetched: number, total: number): void;
+};
+
+/**
+ * A candle; `synthetic` ones were filled in for buckets without trades.
+ */
+export type IHistoricCandle = ICandle & { synthetic?: boolean };
+
+/**
+ * A run of missing base buckets, [start, end) in epoch seconds.
+ */
+export type ICandleGap = { start: number; end: number };
+
+/**
+ * Candles oldest first.  `sourceGranularity` is the granularity that was fetched; gaps are measured in it.
+ */
+export type ICandleSeries = {
+    productId: string;
+    granularity: number;
+    sourceGranularity: number;
+    candles: IHistoricCandle[];
+    gaps: ICandleGap[];
+};
+
+/**
+ * A time span to request, in epoch seconds.
+ */
+export type ICandleChunk = { start: number; end: number };
+
+const week   = 604800;
+// 1970-01-05, the first Monday after the epoch.
+const monday = 345600;
+
+//tslint:disable-next-line:no-magic-numbers
+const toSeconds = (time: Date | string): number => Math.floor(new Date(time as string).getTime() / 1000);
+
+/**
+ * The largest supported granularity that `granularity` is a multiple of.
+ *
+ * @param {number} granularity
+ * @returns {number}
+ */
+export const getSourceGranularity = (granularity: number): number => {
+    if (!(Number.isInteger(granularity) && granularity > 0)) {
+        throw new ValidationError(`granularity ${granularity} is not a positive number of seconds`);
+    }
+
+    const source = supportedGranularities.filter((candidate) => granularity % candidate === 0).pop();
+    if (source === undefined) {
+        const supported = supportedGranularities.join(', ');
+        throw new ValidationError(`granularity ${granularity} is not a multiple of ${supported}`);
+    }
+
+    return source;
+};
+
+/**
+ * Splits [start, end) into request-sized chunks aligned to the granularity.  Consecutive chunks share their boundary
+ * bucket, so nothing is lost whether the endpoint treats `end` as inclusive or not.
+ *
+ * @param {number} start epoch seconds
+ * @param {number} end epoch seconds
+ * @param {number} granularity
+ * @returns {ICandleChunk[]}
+ */
+export const splitCandleRange = (start: number, end: number, granularity: number): ICandleChunk[] => {
+    const span   = granularity * maxCandlesPerRequest;
+    const chunks = [];
+
+    for (let from = Math.floor(start / granularity) * granularity; from < end; from += span) {
+        chunks.push({ end: Math.min(from + span, end), start: from });
+    }
+
+    return chunks;
+};
+
+/**
+ * Finds the missing buckets of an ordered series within [start, end).
+ *
+ * @param {ICandle[]} candles
+ * @param {number} start
+ * @param {number} end
+ * @param {number} granularity
+ * @returns {ICandleGap[]}
+ */
+export const findCandleGaps = (candles: ICandle[], start: number, end: number, granularity: number): ICandleGap[] => {
+    const gaps: ICandleGap[] = [];
+    let expected             = Math.ceil(start / granularity) * granularity;
+
+    for (const time of candles.map((candle) => candle.time).concat(end)) {
+        if (time > expected) gaps.push({ end: Math.min(time, end), start: expected });
+        expected = Math.max(expected, time + granularity);
+    }
+
+    return gaps.filter((gap) => gap.start < gap.end);
+};
+
+/**
+ * Fills the gaps of an ordered series with flat, zero-volume candles at the previous close.  Gaps before the first
+ * candle stay open.
+ *
+ * @param {IHistoricCandle[]} candles
+ * @param {ICandleGap[]} gaps
+ * @param {number} granularity
+ * @returns {IHistoricCandle[]}
+ */
+export const fillCandleGaps = (candles: IHistoricCandle[], gaps: ICandleGap[], granularity: number):
+    IHistoricCandle[] => {
+
+    const filled = candles.slice();
+
+    for (const gap of gaps) {
+        const previous = candles.filter((candle) => candle.time < gap.start).pop();
+        if (previous === undefined) continue;
+
+        for (let time = gap.start; time < gap.end; time += granularity) {
+            const price = previous.close;
+            filled.push({ close: price, high: price, low: price, open: price, synthetic: true, time, volume: 0 });
+        }
+    }
+
+    return filled.sort((a, b) => a.time - b.time);
+};
+
+/**
+ * Merges an ordered series into larger buckets.  A bucket is synthetic only if all its candles are.
+ *
+ * @param {IHistoricCandle[]} candles
+ * @param {number} granularity
+ * @param {number} origin epoch seconds of any bucket boundary
+ * @returns {IHistoricCandle[]}
+ */
+export const resampleCandles = (candles: IHistoricCandle[], granularity: number, origin: number = 0):
+    IHistoricCandle[] => {
+
+    const buckets: IHistoricCandle[] = [];
+
+    for (const candle of candles) {
+        const time = origin + Math.floor((candle.time - origin) / granularity) * granularity;
+        const last = buckets[buckets.length - 1];
+
+        if (last === undefined || last.time !== time) {
+            buckets.push({ ...candle, time });
+            continue;
+        }
+
+        last.high    = Math.max(last.high, candle.high);
+        last.low     = Math.min(last.low, candle.low);
+        last.close   = candle.close;
+        last.volume += candle.volume;
+
+        if (candle.synthetic !== true) delete last.synthetic;
+    }
+
+    return buckets;
+};
+
+/**
+ * Downloads the candles of an arbitrary range.  The range is fetched chunk by chunk through the client, so requests
+ * go through its rate limiter and retry policy; buckets are de-duplicated, ordered, checked for gaps (optionally
+ * filled) and resampled when the granularity is not one GDAX offers.
+ *
+ * @param {IGdaxClient} client
+ * @param {string} productId
+ * @param {ICandleDownloadOptions} options
+ * @returns {Promise<ICandleSeries>}
+ */
+export const downloadCandles = async (client: IGdaxClient,
+                                      productId: string,
+                                      options: ICandleDownloadOptions): Promise<ICandleSeries> => {
+
+    const granularity = options.granularity;
+    const source      = getSourceGranularity(granularity);
+    const start       = toSeconds(options.start);
+    const end         = toSeconds(options.end);
+
+    if (!(start < end)) throw new ValidationError('start must be before end');
+
+    const chunks  = splitCandleRange(start, end, source);
+    const buckets = new Map<number, IHistoricCandle>();
+
+    for (const [index, chunk] of chunks.entries()) {
+        const { data } = await client.getHistoricRates(productId, {
+            //tslint:disable:no-magic-numbers
+            end        : new Date(chunk.end * 1000).toISOString(),
+            granularity: source,
+            start      : new Date(chunk.start * 1000).toISOString(),
+            //tslint:enable:no-magic-numbers
+        });
+
+        data.filter((candle) => candle.time >= start && candle.time < end)
+            .forEach((candle) => buckets.set(candle.time, candle));
+
+        if (options.onProgress !== undefined) options.onProgress(index + 1, chunks.length);
+    }
+
+    const fetched = Array.from(buckets.values()).sort((a, b) => a.time - b.time);
+    const gaps    = findCandleGaps(fetched, start, end, source);
+    const filled  = options.fill === 'previous' ? fillCandleGaps(fetched, gaps, source) : fetched;
+    const origin  = options.origin !== undefined ? options.origin : granularity % week === 0 ? monday : 0;
+    const candles = granularity === source ? filled : resampleCandles(filled, granularity, origin);
+
+    return { candles, gaps, granularity, productId, sourceGranularity: source };
+};
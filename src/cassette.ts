@@ -0,0 +1,279 @@
+import * as axiosDefault from 'axios';
+import { AxiosAdapter, AxiosRequestConfig, AxiosResponse } from 'axios';
+import * as fs from 'fs';
+import * as qs from 'qs';
+import * as url from 'url';
+import { CassetteMismatchError } from './errors';
+import { credentialHeaders } from './middleware';
+
+/**
+ * 'record' sends requests and captures them; 'replay' answers them from the cassette without touching the network.
+ */
+export type CassetteMode = 'record' | 'replay';
+
+/**
+ * How replayed requests are matched to recorded interactions.  Both match on method, path and query.  'strict'
+ * expects the requests in the recorded order and each interaction once; 'lenient' takes the first unused matching
+ * interaction in any order and, once they are all used, answers with the last one again.
+ */
+export type CassetteMatching = 'strict' | 'lenient';
+
+export type ICassetteRequest = {
+    method: string;
+    path: string;
+    query: { [key: string]: string | string[] };
+    headers: { [name: string]: string };
+    body?: string;
+};
+
+export type ICassetteResponse = {
+    status: number;
+    statusText: string;
+    headers: { [name: string]: string };
+    body: string;
+};
+
+export type ICassetteInteraction = { request: ICassetteRequest; response: ICassetteResponse };
+
+/**
+ * The contents of a cassette file.
+ */
+export type ICassetteData = { recorded_at: string; interactions: ICassetteInteraction[] };
+
+/**
+ * Requests that matched nothing, and recorded interactions that were never replayed.
+ */
+export type ICassetteReport = { unmatched: ICassetteRequest[]; unused: ICassetteInteraction[] };
+
+export type ICassetteOptions = {
+    mode: CassetteMode;
+    matching?: CassetteMatching;
+    interactions?: ICassetteInteraction[];
+};
+
+/**
+ * A cassette.  Hand it to an agent with `getClient(auth, config, { cassette })`; every request of that client then
+ * goes through #adapter.
+ */
+export interface ICassette {
+    mode: CassetteMode;
+
+    matching: CassetteMatching;
+
+    adapter: AxiosAdapter;
+
+    getInteractions(): ICassetteInteraction[];
+
+    getReport(): ICassetteReport;
+
+    save(path: string): Promise<void>;
+}
+
+const redacted = '[REDACTED]';
+
+/**
+ * Captures a request as it left axios (url resolved, body serialized), with credentials redacted: they are never
+ * written to a cassette.
+ */
+const toCassetteRequest = (config: AxiosRequestConfig): ICassetteRequest => {
+    const { pathname, query } = url.parse(config.url);
+    const headers: { [name: string]: string } = {};
+
+    for (const name of Object.keys(config.headers === undefined ? {} : config.headers)) {
+        headers[name] = credentialHeaders.indexOf(name.toLowerCase()) >= 0 ? redacted : `${config.headers[name]}`;
+    }
+
+    const request: ICassetteRequest = {
+        headers,
+        method: (config.method === undefined ? 'get' : config.method).toUpperCase(),
+        path  : pathname,
+        query : qs.parse(query === null ? '' : query),
+    };
+    if (typeof config.data === 'string' && config.data !== '') request.body = config.data;
+
+    return request;
+};
+
+/**
+ * The matching key of a request: method, path and query (in any key order).
+ */
+const requestKey = (request: ICassetteRequest): string => {
+    const query = qs.stringify(request.query, { sort: (a: string, b: string) => a.localeCompare(b) });
+
+    return `${request.method} ${request.path}?${query}`;
+};
+
+/**
+ * Answers a request with a recorded response.  Statuses the request does not accept reject the way axios does.
+ */
+const toAxiosResponse = (config: AxiosRequestConfig, recorded: ICassetteResponse): Promise<AxiosResponse> => {
+    const response: AxiosResponse = {
+        config,
+        data      : recorded.body,
+        headers   : { ...recorded.headers },
+        status    : recorded.status,
+        statusText: recorded.statusText,
+    };
+
+    if (config.validateStatus === undefined || config.validateStatus(recorded.status)) return Promise.resolve(response);
+
+    const err = Object.assign(new Error(`Request failed with status code ${recorded.status}`), { config, response });
+
+    return Promise.reject(err);
+};
+
+class Cassette implements ICassette {
+
+    public mode: CassetteMode;
+    public matching: CassetteMatching;
+    public adapter: AxiosAdapter;
+    private interactions: ICassetteInteraction[];
+    private used: Set<ICassetteInteraction> = new Set();
+    private unmatched: ICassetteRequest[] = [];
+
+    constructor(options: ICassetteOptions) {
+        this.mode         = options.mode;
+        this.matching     = options.matching === undefined ? 'strict' : options.matching;
+        this.interactions = options.interactions === undefined ? [] : options.interactions.slice();
+        this.adapter      = options.mode === 'record' ?
+                            (config: AxiosRequestConfig) => this.record(config) :
+                            (config: AxiosRequestConfig) => this.replay(config);
+    }
+
+    public getInteractions(): ICassetteInteraction[] {
+        return this.interactions.slice();
+    }
+
+    /**
+     * In record mode nothing is unmatched or unused.
+     *
+     * @returns {ICassetteReport}
+     */
+    public getReport(): ICassetteReport {
+        return {
+            unmatched: this.unmatched.slice(),
+            unused   : this.interactions.filter((interaction) => !this.used.has(interaction)),
+        };
+    }
+
+    /**
+     * Writes the interactions to a JSON cassette file.
+     *
+     * @param {string} path
+     * @returns {Promise<void>}
+     */
+    public save(path: string): Promise<void> {
+        const data: ICassetteData = { interactions: this.interactions, recorded_at: new Date().toISOString() };
+
+        return new Promise<void>((resolve, reject) => {
+            //tslint:disable-next-line:no-magic-numbers
+            fs.writeFile(path, JSON.stringify(data, null, 2), (err) => {
+                if (err !== null) {
+                    reject(err);
+                } else {
+                    resolve();
+                }
+            });
+        });
+    }
+
+    /**
+     * Sends the request with the default adapter and keeps it with its response, error responses included.  Requests
+     * that got no response are not recorded.
+     */
+    private async record(config: AxiosRequestConfig): Promise<AxiosResponse> {
+        const request = toCassetteRequest(config);
+        const keep    = (response: AxiosResponse) => {
+            const headers: { [name: string]: string } = { ...response.headers };
+            const body                                = typeof response.data === 'string' ?
+                                                        response.data :
+                                                        JSON.stringify(response.data);
+
+            this.interactions.push({
+                request,
+                response: { body, headers, status: response.status, statusText: response.statusText },
+            });
+            this.used.add(this.interactions[this.interactions.length - 1]);
+        };
+
+        try {
+            const response = await axiosDefault.default.defaults.adapter(config);
+            keep(response);
+
+            return response;
+        } catch (err) {
+            if (err !== null && typeof err === 'object' && err.response !== undefined) keep(err.response);
+            throw err;
+        }
+    }
+
+    private replay(config: AxiosRequestConfig): Promise<AxiosResponse> {
+        const request     = toCassetteRequest(config);
+        const key         = requestKey(request);
+        const interaction = this.matching === 'strict' ? this.nextInOrder(key) : this.firstMatching(key);
+
+        if (interaction === undefined) {
+            this.unmatched.push(request);
+            const expected = this.matching === 'strict' ? this.interactions.find((i) => !this.used.has(i)) : undefined;
+            const message  = expected === undefined ?
+                             `no recorded interaction matches ${key}` :
+                             `expected ${requestKey(expected.request)} but got ${key}`;
+
+            const details = { endpoint: request.path, method: request.method };
+
+            return Promise.reject(new CassetteMismatchError(message, details));
+        }
+
+        this.used.add(interaction);
+
+        return toAxiosResponse(config, interaction.response);
+    }
+
+    private nextInOrder(key: string): ICassetteInteraction {
+        const next = this.interactions.find((interaction) => !this.used.has(interaction));
+
+        return next !== undefined && requestKey(next.request) === key ? next : undefined;
+    }
+
+    private firstMatching(key: string): ICassetteInteraction {
+        const matches = this.interactions.filter((interaction) => requestKey(interaction.request) === key);
+
+        const unused = matches.find((interaction) => !this.used.has(interaction));
+
+        return unused !== undefined ? unused : matches[matches.length - 1];
+    }
+}
+
+/**
+ * Factory function to get a cassette.  In record mode it starts empty (or with `interactions`) and captures every
+ * request sent through it; in replay mode it answers from `interactions`.
+ *
+ * @param {ICassetteOptions} options
+ * @returns {ICassette}
+ */
+export const getCassette = (options: ICassetteOptions): ICassette => new Cassette(options);
+
+/**
+ * Reads a cassette file for replay.
+ *
+ * @param {string} path
+ * @param {CassetteMatching} matching
+ * @returns {Promise<ICassette>}
+ */
+export const loadCassette = (path: string, matching?: CassetteMatching): Promise<ICassette> =>
+    new Promise<ICassette>((resolve, reject) => {
+        fs.readFile(path, 'utf8', (err, contents) => {
+            if (err !== null) {
+                reject(err);
+
+                return;
+            }
+
+            try {
+                const data: ICassetteData = JSON.parse(contents);
+                resolve(getCassette({ interactions: data.interactions, matching, mode: 'replay' }));
+            } catch (parseErr) {
+                reject(parseErr);
+            }
+        });
+    });
@@ -0,0 +1,437 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as readline from 'readline';
+import { getClient, IApiAuth, IGdaxClient, INewOrderParams } from '../index';
+import { downloadCandles } from './candles';
+import { ValidationError } from './errors';
+import { formatCsv, generateReport } from './reports';
+
+export type CliOutputFormat = 'table' | 'json' | 'csv';
+
+/**
+ * Parsed command-line arguments: the positional ones in order, and the `--name value`, `--name=value` and `--flag`
+ * options by name.
+ */
+export type ICliArgs = { positional: string[]; options: { [name: string]: string | boolean } };
+
+/**
+ * The contents of the config file.  Environment variables take precedence over it.
+ */
+export type ICliConfig = { publicKey?: string; privateKey?: string; passphrase?: string; baseURL?: string };
+
+/**
+ * Where the CLI reads and writes; the process's environment and standard streams by default.
+ */
+export type ICliIo = {
+    env: { [name: string]: string };
+    input: NodeJS.ReadableStream;
+    output: NodeJS.WritableStream;
+    errors: NodeJS.WritableStream;
+};
+
+/**
+ * A row of output, any record.  Nested values are written as JSON.
+ */
+type ICliRow = {};
+
+type ICliValue = string | number | boolean | object;
+
+/**
+ * What a command runs with.  Its `args` start after the command name.
+ */
+type ICliContext = { args: ICliArgs; client: IGdaxClient; io: ICliIo };
+
+/**
+ * A command returns the rows to print, or undefined when the user declined to go ahead.
+ */
+type ICliCommand = { usage: string; run(context: ICliContext): Promise<ICliRow[]> };
+
+/**
+ * Options that never take a value.
+ */
+const booleanOptions = ['help', 'post-only', 'yes'];
+
+const defaultConfigPath = path.join(os.homedir(), '.gdax.json');
+
+const exitCodes = { failure: 1, success: 0, usage: 2 };
+
+/**
+ * Splits arguments into positional ones and options.  An option takes the next argument as its value unless it is a
+ * boolean option or the next argument is another option.
+ *
+ * @param {string[]} argv
+ * @returns {ICliArgs}
+ */
+export const parseCliArgs = (argv: string[]): ICliArgs => {
+    const args: ICliArgs = { options: {}, positional: [] };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+
+        if (!arg.startsWith('--')) {
+            args.positional.push(arg);
+            continue;
+        }
+
+        const [name, ...value] = arg.replace(/^--/, '').split('=');
+        const next             = argv[i + 1];
+
+        if (value.length > 0) {
+            args.options[name] = value.join('=');
+        } else if (booleanOptions.indexOf(name) >= 0 || next === undefined || next.startsWith('--')) {
+            args.options[name] = true;
+        } else {
+            args.options[name] = next;
+            i++;
+        }
+    }
+
+    return args;
+};
+
+/**
+ * Reads the credentials and API URL from GDAX_API_KEY, GDAX_API_SECRET, GDAX_API_PASSPHRASE and GDAX_API_URL, falling
+ * back on the JSON config file at `--config`, GDAX_CONFIG or ~/.gdax.json.  A missing default config file is not an
+ * error; public commands need no credentials.
+ *
+ * @param {ICliArgs} args
+ * @param {{[name: string]: string}} env
+ * @returns {ICliConfig}
+ */
+export const loadCliConfig = (args: ICliArgs, env: { [name: string]: string }): ICliConfig => {
+    const given = option(args, 'config') === undefined ? env.GDAX_CONFIG : option(args, 'config');
+    let file: ICliConfig = {};
+
+    if (given !== undefined || fs.existsSync(defaultConfigPath)) {
+        file = JSON.parse(fs.readFileSync(given === undefined ? defaultConfigPath : given, 'utf8'));
+    }
+
+    const pick = (variable: string, value: string) => env[variable] === undefined ? value : env[variable];
+
+    return {
+        baseURL   : pick('GDAX_API_URL', file.baseURL),
+        passphrase: pick('GDAX_API_PASSPHRASE', file.passphrase),
+        privateKey: pick('GDAX_API_SECRET', file.privateKey),
+        publicKey : pick('GDAX_API_KEY', file.publicKey),
+    };
+};
+
+/**
+ * Writes a cell: nested values as JSON, missing ones as nothing.
+ */
+const cell = (value: ICliValue): string =>
+    value === undefined || value === null ? '' : typeof value === 'object' ? JSON.stringify(value) : `${value}`;
+
+/**
+ * The columns of a set of rows, in the order they first appear.
+ */
+const columnsOf = (rows: ICliRow[]): string[] =>
+    rows.reduce<string[]>((columns, row) => columns.concat(Object.keys(row).filter((key) => columns.indexOf(key) < 0)),
+                          []);
+
+const fieldOf = (row: ICliRow, column: string): ICliValue => (row as { [column: string]: ICliValue })[column];
+
+/**
+ * Renders rows as an aligned table, as JSON or as CSV.
+ *
+ * @param {ICliRow[]} rows
+ * @param {CliOutputFormat} format
+ * @returns {string}
+ */
+export const formatCliOutput = (rows: ICliRow[], format: CliOutputFormat): string => {
+    const columns = columnsOf(rows);
+
+    switch (format) {
+        case 'json':
+            //tslint:disable-next-line:no-magic-numbers
+            return JSON.stringify(rows, null, 2);
+        case 'csv':
+            return formatCsv(columns, rows.map((row) => {
+                const flat: { [column: string]: string } = {};
+                columns.forEach((column) => flat[column] = cell(fieldOf(row, column)));
+
+                return flat;
+            }));
+        default:
+            if (columns.length === 0) return '(none)';
+
+            const lines  = [columns].concat(rows.map((row) => columns.map((column) => cell(fieldOf(row, column)))));
+            const widths = columns.map((column, index) => Math.max(...lines.map((line) => line[index].length)));
+            const render = (line: string[]) => line.map((text, index) => text + ' '.repeat(widths[index] - text.length))
+                                                   .join('  ')
+                                                   .trim();
+
+            return [render(lines[0]), render(widths.map((width) => '-'.repeat(width)))]
+                .concat(lines.slice(1).map(render))
+                .join('\n');
+    }
+};
+
+/**
+ * The string value of an option, or undefined when it is not given.
+ */
+const option = (args: ICliArgs, name: string): string => {
+    const value = args.options[name];
+    if (value === true) throw new ValidationError(`--${name} needs a value`);
+
+    return value === undefined || value === false ? undefined : value;
+};
+
+const requiredOption = (args: ICliArgs, name: string): string => {
+    const value = option(args, name);
+    if (value === undefined) throw new ValidationError(`--${name} is required`);
+
+    return value;
+};
+
+const argument = (args: ICliArgs, index: number, name: string): string => {
+    const value = args.positional[index];
+    if (value === undefined) throw new ValidationError(`<${name}> is required`);
+
+    return value;
+};
+
+/**
+ * The page size of a list, from `--limit`.
+ */
+const page = (args: ICliArgs) => {
+    const limit = option(args, 'limit');
+
+    return limit === undefined ? undefined : { limit };
+};
+
+/**
+ * Asks a yes/no question, defaulting to no, also when the input ends unanswered.  `--yes` answers it.
+ */
+const confirm = ({ args, io }: ICliContext, question: string): Promise<boolean> => {
+    if (args.options.yes === true) return Promise.resolve(true);
+
+    const prompt = readline.createInterface({ input: io.input, output: io.errors });
+
+    return new Promise<boolean>((resolve) => {
+        prompt.on('close', () => resolve(false));
+        prompt.question(`${question} [y/N] `, (answer) => {
+            resolve(/^y(es)?$/i.test(answer.trim()));
+            prompt.close();
+        });
+    });
+};
+
+/**
+ * Builds an order from the options, leaving out the ones not given so that the order checks can tell what is missing.
+ */
+const orderFromOptions = (args: ICliArgs): INewOrderParams => {
+    const fields: { [field: string]: string | boolean } = {
+        product_id: requiredOption(args, 'product'),
+        side      : requiredOption(args, 'side'),
+        type      : option(args, 'type') === undefined ? 'limit' : option(args, 'type'),
+    };
+    const names = ['price', 'size', 'funds', 'time-in-force', 'cancel-after', 'client-oid', 'stp'];
+
+    names.filter((name) => option(args, name) !== undefined)
+         .forEach((name) => fields[name.replace(/-/g, '_')] = option(args, name));
+    if (args.options['post-only'] === true) fields.post_only = true;
+
+    return fields as {} as INewOrderParams;
+};
+
+const describeOrder = (order: INewOrderParams): string => {
+    const fields = order as { [field: string]: string };
+    const amount = fields.size !== undefined ? `${fields.size}` : `${fields.funds} of quote currency`;
+    const price  = fields.price === undefined ? '' : ` at ${fields.price}`;
+
+    return `${fields.side} ${amount} ${fields.product_id}${price} (${fields.type} order)`;
+};
+
+const ordersCommand = async (context: ICliContext): Promise<ICliRow[]> => {
+    const { args, client } = context;
+    const action           = args.positional[0] === undefined ? 'list' : args.positional[0];
+
+    switch (action) {
+        case 'list':
+            const status   = option(args, 'status');
+            const criteria = {
+                product_id: option(args, 'product'),
+                status    : status === undefined ? undefined : status.split(','),
+            };
+
+            return (await client.listOrders(criteria, page(args))).data;
+        case 'place':
+            const order = orderFromOptions(args);
+            if (!await confirm(context, `Place order: ${describeOrder(order)}?`)) return undefined;
+
+            return [(await client.placeNewOrder(order, { idempotent: true, validate: 'reject' })).data];
+        case 'cancel':
+            const orderId = argument(args, 1, 'order id');
+
+            return (await client.cancelOrder(orderId)).data.map((id) => ({ id }));
+        case 'cancel-all':
+            const productId = option(args, 'product');
+            const scope     = productId === undefined ? 'all open orders' : `all open ${productId} orders`;
+            if (!await confirm(context, `Cancel ${scope}?`)) return undefined;
+
+            return (await client.cancelAll({ product_id: productId })).data.map((id) => ({ id }));
+        default:
+            throw new ValidationError(`unknown orders action: ${action}`);
+    }
+};
+
+const reportsCommand = async ({ args, client }: ICliContext): Promise<ICliRow[]> => {
+    const type    = argument(args, 0, 'fills|account');
+    const options = { destination: option(args, 'output') };
+    const params  = {
+        account_id: option(args, 'account'),
+        end_date  : requiredOption(args, 'end'),
+        format    : option(args, 'file-format') === undefined ? 'csv' : option(args, 'file-format'),
+        product_id: option(args, 'product'),
+        start_date: requiredOption(args, 'start'),
+    };
+
+    const result = type === 'fills' ? await generateReport(client, { ...params, type: 'fills' }, options) :
+                   type === 'account' ? await generateReport(client, { ...params, type: 'account' }, options) :
+                   undefined;
+
+    if (result === undefined) throw new ValidationError(`unknown report type: ${type}`);
+
+    if (result.rows !== undefined) return result.rows;
+
+    return [{ file: result.file, id: result.report.id, pdf: result.pdf, size: result.size }];
+};
+
+/**
+ * The commands, by name.
+ */
+const commands: { [name: string]: ICliCommand } = {
+    accounts: {
+        run  : async ({ client }) => (await client.listAccounts()).data,
+        usage: 'accounts',
+    },
+    book    : {
+        run  : async ({ args, client }) => {
+            const level    = Number(option(args, 'level') === undefined ? '2' : option(args, 'level'));
+            const { data } = await client.getProductOrderBook(argument(args, 0, 'product'), { level });
+            const rows     = (side: string, entries: typeof data.bids) =>
+                entries.map(([price, size, orders]) => ({ orders, price, side, size }));
+
+            return rows('ask', data.asks.slice().reverse()).concat(rows('bid', data.bids));
+        },
+        usage: 'book <product> [--level 1|2|3]',
+    },
+    candles : {
+        run  : async ({ args, client }) => {
+            const given       = option(args, 'granularity');
+            const granularity = Number(given === undefined ? '3600' : given);
+            const end         = option(args, 'end') === undefined ? new Date() : option(args, 'end');
+            //tslint:disable-next-line:no-magic-numbers
+            const dayBefore   = new Date(Date.now() - 86400000);
+            const start       = option(args, 'start') === undefined ? dayBefore : option(args, 'start');
+
+            return (await downloadCandles(client, argument(args, 0, 'product'), { end, granularity, start })).candles;
+        },
+        usage: 'candles <product> [--granularity seconds] [--start time] [--end time]',
+    },
+    fills   : {
+        run  : async ({ args, client }) => {
+            const criteria = { order_id: option(args, 'order'), product_id: option(args, 'product') };
+
+            return (await client.listFills(criteria, page(args))).data;
+        },
+        usage: 'fills [--product id] [--order id] [--limit n]',
+    },
+    orders  : {
+        run  : ordersCommand,
+        usage: 'orders [list] [--product id] [--status open,pending,...] [--limit n]\n' +
+               'orders place --product id --side buy|sell [--type limit|market|stop] [--price p] [--size s] ' +
+               '[--funds f]\n' +
+               '             [--time-in-force GTC|GTT|IOC|FOK] [--cancel-after min|hour|day] [--post-only]\n' +
+               '             [--client-oid id] [--stp dc|co|cn|cb]\n' +
+               'orders cancel <order id>\n' +
+               'orders cancel-all [--product id]',
+    },
+    products: {
+        run  : async ({ client }) => (await client.getProducts()).data,
+        usage: 'products',
+    },
+    reports : {
+        run  : reportsCommand,
+        usage: 'reports fills|account --start time --end time [--product id] [--account id] [--file-format csv|pdf] ' +
+               '[--output path]',
+    },
+    ticker  : {
+        run  : async ({ args, client }) => [(await client.getProductTicker(argument(args, 0, 'product'))).data],
+        usage: 'ticker <product>',
+    },
+    trades  : {
+        run  : async ({ args, client }) => (await client.getTrades(argument(args, 0, 'product'), page(args))).data,
+        usage: 'trades <product> [--limit n]',
+    },
+};
+
+const usage = (): string => [
+    'usage: gdax <command> [arguments] [--format table|json|csv] [--config path] [--yes]',
+    '',
+    ...Object.keys(commands).map((name) => commands[name].usage.split('\n').map((line) => `  ${line}`).join('\n')),
+    '',
+    'Credentials and the API URL are read from GDAX_API_KEY, GDAX_API_SECRET, GDAX_API_PASSPHRASE and GDAX_API_URL,',
+    'or from a JSON config file ({ "publicKey", "privateKey", "passphrase", "baseURL" }) at --config, GDAX_CONFIG or',
+    '~/.gdax.json.',
+    'Placing orders and canceling all orders ask for confirmation unless --yes is given.',
+].join('\n');
+
+const defaultIo: ICliIo = { env: process.env, errors: process.stderr, input: process.stdin, output: process.stdout };
+
+/**
+ * Runs the `gdax` command line.  Returns the exit code: 0 on success, 1 on errors and declined confirmations, 2 on
+ * usage errors.
+ *
+ * @param {string[]} argv the arguments after the program name
+ * @param {ICliIo} io
+ * @returns {Promise<number>}
+ */
+export const runCli = async (argv: string[], io: ICliIo = defaultIo): Promise<number> => {
+    const args    = parseCliArgs(argv);
+    const name    = args.positional[0];
+    const command = commands[name];
+    const format  = args.options.format === undefined ? 'table' : args.options.format;
+
+    if (args.options.help === true || name === undefined) {
+        io.output.write(`${usage()}\n`);
+
+        return name === undefined && args.options.help !== true ? exitCodes.usage : exitCodes.success;
+    }
+
+    if (command === undefined || ['table', 'json', 'csv'].indexOf(`${format}`) < 0) {
+        const problem = command === undefined ? `unknown command: ${name}` : `unknown format: ${format}`;
+        io.errors.write(`gdax: ${problem}\n${usage()}\n`);
+
+        return exitCodes.usage;
+    }
+
+    try {
+        const config = loadCliConfig(args, io.env);
+        const auth   = config.publicKey === undefined ? undefined : config as IApiAuth;
+        const client = getClient(auth, config.baseURL === undefined ? null : { baseURL: config.baseURL });
+        const rows   = await command.run({ args: { ...args, positional: args.positional.slice(1) }, client, io });
+
+        if (rows === undefined) {
+            io.errors.write('gdax: aborted\n');
+
+            return exitCodes.failure;
+        }
+
+        io.output.write(`${formatCliOutput(rows, format as CliOutputFormat)}\n`);
+
+        return exitCodes.success;
+    } catch (err) {
+        io.errors.write(`gdax: ${err instanceof Error ? err.message : err}\n`);
+
+        return err instanceof ValidationError && err.status === undefined ? exitCodes.usage : exitCodes.failure;
+    }
+};
+
+if (require.main === module) {
+    //tslint:disable-next-line:no-magic-numbers
+    runCli(process.argv.slice(2)).then((code) => process.exitCode = code, () => process.exitCode = exitCodes.failure);
+}
@@ -0,0 +1,165 @@
+import { EventEmitter } from 'events';
+import { IGdaxResponse } from '../index';
+import { ValidationError } from './errors';
+import { IServerTime } from './models';
+
+/**
+ * Clock options.  `samples` server time requests are made per sync and the one with the shortest round trip wins.
+ * With a `syncInterval` (ms), #start() keeps re-syncing in the background.
+ */
+export type IServerClockOptions = { samples?: number; syncInterval?: number };
+
+/**
+ * The measured difference between the server clock and the local clock.  `offset` is server minus local time in
+ * milliseconds; `roundTrip` is the round trip of the sample it was measured with.
+ */
+export type IClockSkew = { offset: number; roundTrip: number; syncedAt: number };
+
+/**
+ * Default clock options.
+ */
+const defaultClockConfig = {
+    samples     : 3,
+    syncInterval: 300000,
+};
+
+/**
+ * A local clock corrected by the measured offset from the GDAX server clock.
+ *
+ * Events: 'sync' (IClockSkew) after every successful sync and 'error' (only when someone is listening for it).
+ */
+export interface IServerClock {
+    now(): number;
+
+    getOffset(): number;
+
+    getSkew(): IClockSkew;
+
+    sync(): Promise<IClockSkew>;
+
+    start(): Promise<IClockSkew>;
+
+    stop(): void;
+
+    on(event: 'sync', listener: (skew: IClockSkew) => void): this;
+    on(event: 'error', listener: (err: Error) => void): this;
+}
+
+/**
+ * Fetches the server time.
+ */
+export type IServerTimeFetcher = () => Promise<IGdaxResponse<IServerTime>>;
+
+/**
+ * Resolves once a server time request may be sent, e.g. when the rate limiter allows it.  The wait is not part of the
+ * measured round trip.
+ */
+export type IServerTimeGate = () => Promise<void>;
+
+class ServerClock extends EventEmitter implements IServerClock {
+
+    private fetchTime: IServerTimeFetcher;
+    private waitForTurn: IServerTimeGate;
+    private options: IServerClockOptions;
+    private skew: IClockSkew = { offset: 0, roundTrip: 0, syncedAt: 0 };
+    private timer: NodeJS.Timer = null;
+
+    constructor(fetchTime: IServerTimeFetcher, options?: IServerClockOptions, waitForTurn?: IServerTimeGate) {
+        super();
+        this.fetchTime   = fetchTime;
+        this.waitForTurn = waitForTurn === undefined ? () => Promise.resolve() : waitForTurn;
+        this.options     = { ...defaultClockConfig, ...options };
+    }
+
+    /**
+     * The current server time estimate, in epoch milliseconds.
+     *
+     * @returns {number}
+     */
+    public now(): number {
+        return Date.now() + this.skew.offset;
+    }
+
+    public getOffset(): number {
+        return this.skew.offset;
+    }
+
+    public getSkew(): IClockSkew {
+        return { ...this.skew };
+    }
+
+    /**
+     * Measures the offset.  Each sample assumes the server read its clock halfway through the round trip.
+     *
+     * @returns {Promise<IClockSkew>}
+     */
+    public async sync(): Promise<IClockSkew> {
+        let best: IClockSkew = null;
+
+        for (let sample = 0; sample < this.options.samples; sample++) {
+            await this.waitForTurn();
+
+            const sentAt       = Date.now();
+            const { data }     = await this.fetchTime();
+            const receivedAt   = Date.now();
+            const roundTrip    = receivedAt - sentAt;
+            //tslint:disable-next-line:no-magic-numbers
+            const offset       = data.epoch * 1000 - (sentAt + roundTrip / 2);
+
+            if (best === null || roundTrip < best.roundTrip) best = { offset, roundTrip, syncedAt: receivedAt };
+        }
+
+        this.skew = best;
+        this.emit('sync', this.getSkew());
+
+        return this.getSkew();
+    }
+
+    /**
+     * Syncs now and then every `syncInterval` milliseconds.  Background sync failures keep the last offset.
+     *
+     * @returns {Promise<IClockSkew>}
+     */
+    public async start(): Promise<IClockSkew> {
+        this.stop();
+
+        const skew = await this.sync();
+
+        this.timer = setInterval(() => {
+            this.sync().catch((err: Error) => {
+                if (this.listenerCount('error') > 0) this.emit('error', err);
+            });
+        }, this.options.syncInterval);
+
+        // Re-syncing alone should not keep the process alive.
+        this.timer.unref();
+
+        return skew;
+    }
+
+    public stop(): void {
+        if (this.timer === null) return;
+
+        clearInterval(this.timer);
+        this.timer = null;
+    }
+}
+
+/**
+ * Factory function to get a server clock.  Usually obtained through IGdaxClient#calibrateClock().
+ *
+ * @param {IServerTimeFetcher} fetchTime
+ * @param {IServerClockOptions} options
+ * @param {IServerTimeGate} waitForTurn awaited before each sample
+ * @returns {IServerClock}
+ */
+export const getServerClock = (fetchTime: IServerTimeFetcher,
+                               options?: IServerClockOptions,
+                               waitForTurn?: IServerTimeGate): IServerClock => {
+
+    if (options !== undefined && options.samples !== undefined && !(options.samples >= 1)) {
+        throw new ValidationError('samples must be 1 or more');
+    }
+
+    return new ServerClock(fetchTime, options, waitForTurn);
+};
@@ -0,0 +1,533 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as uuid from 'uuid';
+import { IGdaxClient, INewOrderParams, IPlaceOrderOptions } from '../index';
+import { toDecimal, Decimal, DecimalInput } from './decimal';
+import { toGdaxError, NotFoundError, ValidationError } from './errors';
+import { IFeedClient, ITickerMessage } from './feed';
+import { IOrder } from './models';
+
+/**
+ * Stop-loss and take-profit conditions trigger at a fixed price; a trailing stop follows the best price seen since it
+ * was added, at a fixed `distance`.  Whether a condition triggers on a rise or a fall follows from the order's side: a
+ * sell stop-loss triggers at or below its price, a buy stop-loss at or above, and take-profits the other way round.
+ */
+export type ConditionKind = 'stopLoss' | 'takeProfit' | 'trailingStop';
+
+/**
+ * 'triggering' conditions have hit and their order is being placed.
+ */
+export type ConditionStatus = 'pending' | 'triggering' | 'triggered' | 'cancelled' | 'failed';
+
+/**
+ * A condition to add.  `order` (market or limit) is placed as given once the condition triggers.
+ */
+export type IConditionParams = {
+    kind: ConditionKind;
+    order: INewOrderParams;
+    triggerPrice?: DecimalInput;
+    distance?: DecimalInput;
+};
+
+/**
+ * A condition as it is kept and stored.  `order.client_oid` is fixed when the condition is added, so an order placed
+ * just before a restart is found again rather than placed twice.  `extreme` is the best price a trailing stop has
+ * seen and `triggerPrice` follows it.  `ocoId` links the two sides of a one-cancels-other pair.
+ */
+export type IConditionalOrder = {
+    id: string;
+    kind: ConditionKind;
+    productId: string;
+    order: INewOrderParams;
+    status: ConditionStatus;
+    createdAt: string;
+    triggerPrice?: string;
+    distance?: string;
+    extreme?: string;
+    ocoId?: string;
+    triggeredAt?: string;
+    orderId?: string;
+    error?: string;
+};
+
+/**
+ * Where pending conditions are kept between runs.  Only pending and triggering conditions are saved.
+ */
+export interface IConditionStore {
+    load(): Promise<IConditionalOrder[]>;
+
+    save(conditions: IConditionalOrder[]): Promise<void>;
+}
+
+/**
+ * Conditional order options.  With a `feed`, prices come from its ticker channel and are polled with
+ * #getProductTicker only while the feed is disconnected; without one they are polled every `pollInterval` ms.
+ * Triggered orders are placed idempotently, with `placeOptions` on top.
+ */
+export type IConditionalOrderOptions = {
+    feed?: IFeedClient;
+    pollInterval?: number;
+    store?: IConditionStore;
+    placeOptions?: IPlaceOrderOptions;
+};
+
+/**
+ * Watches prices and places orders when conditions hit.
+ *
+ * Events: 'triggered' (IConditionalOrder, IOrder) once a condition's order is placed, 'updated' (IConditionalOrder)
+ * when a trailing stop moves, 'cancelled' and 'failed' (IConditionalOrder), and 'error' (only when someone is
+ * listening for it) for price lookups and saves that failed while watching prices.
+ */
+export interface IConditionalOrders {
+    start(): Promise<void>;
+
+    stop(): void;
+
+    add(params: IConditionParams): Promise<IConditionalOrder>;
+
+    addOco(first: IConditionParams, second: IConditionParams): Promise<IConditionalOrder[]>;
+
+    cancel(id: string): Promise<void>;
+
+    get(id: string): IConditionalOrder;
+
+    list(status?: ConditionStatus): IConditionalOrder[];
+
+    observePrice(productId: string, price: DecimalInput): Promise<void>;
+
+    on(event: 'triggered', listener: (condition: IConditionalOrder, order: IOrder) => void): this;
+    on(event: 'updated' | 'cancelled' | 'failed', listener: (condition: IConditionalOrder) => void): this;
+    on(event: 'error', listener: (err: Error) => void): this;
+}
+
+/**
+ * Default conditional order options.
+ */
+const defaultConditionalConfig = {
+    pollInterval: 5000,
+};
+
+const watchedStatuses = ['pending', 'triggering'];
+
+/**
+ * Keeps conditions in memory only.
+ *
+ * @returns {IConditionStore}
+ */
+export const getMemoryConditionStore = (): IConditionStore => {
+    let stored: IConditionalOrder[] = [];
+
+    return {
+        load: () => Promise.resolve(stored.map((condition) => ({ ...condition }))),
+        save: (conditions) => {
+            stored = conditions.map((condition) => ({ ...condition }));
+
+            return Promise.resolve();
+        },
+    };
+};
+
+/**
+ * Keeps conditions in a JSON file.  A missing file holds no conditions; writes go to a temporary file that then
+ * replaces it, so a crash never leaves it half written.
+ *
+ * @param {string} path
+ * @returns {IConditionStore}
+ */
+export const getFileConditionStore = (path: string): IConditionStore => ({
+    load: () => new Promise<IConditionalOrder[]>((resolve, reject) => {
+        fs.readFile(path, 'utf8', (err, contents) => {
+            if (err !== null) {
+                if (err.code === 'ENOENT') resolve([]);
+                else reject(err);
+
+                return;
+            }
+
+            try {
+                resolve(JSON.parse(contents).conditions);
+            } catch (parseErr) {
+                reject(parseErr);
+            }
+        });
+    }),
+    save: (conditions) => new Promise<void>((resolve, reject) => {
+        const temporary = `${path}.tmp`;
+
+        //tslint:disable-next-line:no-magic-numbers
+        fs.writeFile(temporary, JSON.stringify({ conditions, saved_at: new Date().toISOString() }, null, 2), (err) => {
+            if (err !== null) {
+                reject(err);
+
+                return;
+            }
+
+            fs.rename(temporary, path, (renameErr) => {
+                if (renameErr !== null) {
+                    reject(renameErr);
+                } else {
+                    resolve();
+                }
+            });
+        });
+    }),
+});
+
+/**
+ * Checks a condition's parameters and turns them into a pending condition.
+ */
+const toCondition = (params: IConditionParams): IConditionalOrder => {
+    const { kind, order } = params;
+    const id              = uuid.v4();
+    const clientOid       = order.client_oid === undefined ? id : order.client_oid;
+
+    const condition: IConditionalOrder = {
+        createdAt: new Date().toISOString(),
+        id,
+        kind,
+        order    : Object.assign({}, order, { client_oid: clientOid }),
+        productId: order.product_id,
+        status   : 'pending',
+    };
+
+    if (kind === 'trailingStop') {
+        if (params.distance === undefined || !toDecimal(params.distance).greaterThan(0)) {
+            throw new ValidationError('trailing stops need a positive distance');
+        }
+        condition.distance = toDecimal(params.distance).toFixed();
+    } else {
+        if (params.triggerPrice === undefined || !toDecimal(params.triggerPrice).greaterThan(0)) {
+            throw new ValidationError(`${kind} conditions need a positive triggerPrice`);
+        }
+        condition.triggerPrice = toDecimal(params.triggerPrice).toFixed();
+    }
+
+    return condition;
+};
+
+/**
+ * True when the price should trigger the condition: sells trigger at or below a stop, buys at or above.
+ */
+const hits = (condition: IConditionalOrder, price: Decimal): boolean => {
+    const stop    = condition.kind !== 'takeProfit';
+    const falling = (condition.order.side === 'sell') === stop;
+
+    return falling ?
+           price.lessThanOrEqualTo(condition.triggerPrice) :
+           price.greaterThanOrEqualTo(condition.triggerPrice);
+};
+
+/**
+ * Moves a trailing stop along with the best price: the high for sells, the low for buys.  Returns true when it moved.
+ */
+const trail = (condition: IConditionalOrder, price: Decimal): boolean => {
+    const sell = condition.order.side === 'sell';
+
+    if (condition.extreme !== undefined && (sell ? price.lessThanOrEqualTo(condition.extreme) :
+                                                   price.greaterThanOrEqualTo(condition.extreme))) {
+        return false;
+    }
+
+    condition.extreme      = price.toFixed();
+    condition.triggerPrice = (sell ? price.minus(condition.distance) : price.plus(condition.distance)).toFixed();
+
+    return true;
+};
+
+class ConditionalOrders extends EventEmitter implements IConditionalOrders {
+
+    private client: IGdaxClient;
+    private options: IConditionalOrderOptions;
+    private store: IConditionStore;
+    private conditions: Map<string, IConditionalOrder> = new Map();
+    private subscribed: Set<string> = new Set();
+    private saving: Promise<void> = Promise.resolve();
+    private timer: NodeJS.Timer = null;
+    private running: boolean = false;
+    private tickerListener: (message: ITickerMessage) => void;
+
+    constructor(client: IGdaxClient, options?: IConditionalOrderOptions) {
+        super();
+        this.client  = client;
+        this.options = { ...defaultConditionalConfig, ...options };
+        this.store   = this.options.store === undefined ? getMemoryConditionStore() : this.options.store;
+
+        this.tickerListener = (message: ITickerMessage) => {
+            this.observePrice(message.product_id, message.price).catch((err: Error) => this.emitError(err));
+        };
+    }
+
+    /**
+     * Loads the stored conditions and starts watching prices.  Conditions that were triggering when the last run
+     * stopped are looked up by their client_oid: found, they are triggered; not found, they are pending again.  If
+     * the store or a lookup fails, nothing is watched and #start can be called again.
+     *
+     * @returns {Promise<void>}
+     */
+    public async start(): Promise<void> {
+        if (this.running) return;
+        this.running = true;
+
+        try {
+            for (const condition of await this.store.load()) {
+                if (!this.conditions.has(condition.id)) this.conditions.set(condition.id, condition);
+            }
+
+            for (const condition of Array.from(this.conditions.values())) {
+                if (condition.status === 'triggering') await this.resume(condition);
+            }
+        } catch (err) {
+            this.running = false;
+            throw err;
+        }
+
+        const feed = this.options.feed;
+
+        if (feed !== undefined) {
+            feed.on('ticker', this.tickerListener);
+            this.watchProducts();
+        }
+
+        this.timer = setInterval(() => {
+            if (feed !== undefined && feed.isConnected()) return;
+
+            this.poll().catch((err: Error) => this.emitError(err));
+        }, this.options.pollInterval);
+    }
+
+    public stop(): void {
+        if (!this.running) return;
+        this.running = false;
+
+        clearInterval(this.timer);
+        this.timer = null;
+
+        const feed = this.options.feed;
+
+        if (feed !== undefined) {
+            feed.removeListener('ticker', this.tickerListener);
+            if (this.subscribed.size > 0) feed.unsubscribe(['ticker'], Array.from(this.subscribed));
+            this.subscribed.clear();
+        }
+    }
+
+    /**
+     * Adds a condition and saves it.  Rejects, without adding it, when the store fails.
+     *
+     * @param {IConditionParams} params
+     * @returns {Promise<IConditionalOrder>}
+     */
+    public async add(params: IConditionParams): Promise<IConditionalOrder> {
+        const condition = toCondition(params);
+
+        this.conditions.set(condition.id, condition);
+        await this.saveAdded([condition]);
+        this.watchProducts();
+
+        return { ...condition };
+    }
+
+    /**
+     * Adds two conditions of which only one may trigger: once either has placed its order, the other is cancelled.
+     * While one is triggering the other waits, and takes over again if the placement fails.  Rejects, without adding
+     * them, when the store fails.
+     *
+     * @param {IConditionParams} first
+     * @param {IConditionParams} second
+     * @returns {Promise<IConditionalOrder[]>}
+     */
+    public async addOco(first: IConditionParams, second: IConditionParams): Promise<IConditionalOrder[]> {
+        const pair = [toCondition(first), toCondition(second)];
+
+        pair[0].ocoId = pair[1].id;
+        pair[1].ocoId = pair[0].id;
+        pair.forEach((condition) => this.conditions.set(condition.id, condition));
+        await this.saveAdded(pair);
+        this.watchProducts();
+
+        return pair.map((condition) => ({ ...condition }));
+    }
+
+    /**
+     * Cancels a pending condition (and its OCO pair).  The cancellation holds even when saving it fails, which rejects.
+     *
+     * @param {string} id
+     * @returns {Promise<void>}
+     */
+    public async cancel(id: string): Promise<void> {
+        const condition = this.conditions.get(id);
+
+        if (condition === undefined) throw new NotFoundError(`no condition ${id}`);
+        if (condition.status !== 'pending') throw new ValidationError(`condition ${id} is ${condition.status}`);
+
+        this.cancelled(condition);
+        if (condition.ocoId !== undefined) this.cancelled(this.conditions.get(condition.ocoId));
+        await this.save();
+    }
+
+    public get(id: string): IConditionalOrder {
+        const condition = this.conditions.get(id);
+
+        return condition === undefined ? undefined : { ...condition };
+    }
+
+    public list(status?: ConditionStatus): IConditionalOrder[] {
+        return Array.from(this.conditions.values())
+                    .filter((condition) => status === undefined || condition.status === status)
+                    .map((condition) => ({ ...condition }));
+    }
+
+    /**
+     * Checks the product's pending conditions against a price, oldest first.  Prices from the feed and from polling
+     * come through here; prices from elsewhere can be passed in too.
+     *
+     * @param {string} productId
+     * @param {DecimalInput} price
+     * @returns {Promise<void>}
+     */
+    public async observePrice(productId: string, price: DecimalInput): Promise<void> {
+        const value                          = toDecimal(price);
+        const triggered: IConditionalOrder[] = [];
+        let moved                            = false;
+
+        for (const condition of Array.from(this.conditions.values())) {
+            if (condition.productId !== productId || condition.status !== 'pending') continue;
+
+            if (condition.kind === 'trailingStop' && trail(condition, value)) {
+                moved = true;
+                this.emit('updated', { ...condition });
+            }
+
+            const pair = condition.ocoId === undefined ? undefined : this.conditions.get(condition.ocoId);
+            if (pair !== undefined && pair.status === 'triggering') continue;
+
+            if (hits(condition, value)) {
+                condition.status      = 'triggering';
+                condition.triggeredAt = new Date().toISOString();
+                triggered.push(condition);
+            }
+        }
+
+        if (moved || triggered.length > 0) await this.save().catch((err: Error) => this.emitError(err));
+
+        for (const condition of triggered) await this.place(condition);
+    }
+
+    /**
+     * Places a triggered condition's order.  Its OCO pair is cancelled once the order is placed.
+     */
+    private async place(condition: IConditionalOrder): Promise<void> {
+        const options = { ...this.options.placeOptions, idempotent: true };
+
+        try {
+            this.triggered(condition, (await this.client.placeNewOrder(condition.order, options)).data);
+        } catch (err) {
+            condition.status = 'failed';
+            condition.error  = toGdaxError(err).message;
+            this.emit('failed', { ...condition });
+        }
+
+        await this.save().catch((err: Error) => this.emitError(err));
+    }
+
+    /**
+     * Picks up a condition that was triggering when the last run stopped.
+     */
+    private async resume(condition: IConditionalOrder): Promise<void> {
+        try {
+            this.triggered(condition, (await this.client.getOrder(`client:${condition.order.client_oid}`)).data);
+        } catch (err) {
+            if (!(toGdaxError(err) instanceof NotFoundError)) throw err;
+
+            condition.status = 'pending';
+            delete condition.triggeredAt;
+        }
+
+        await this.save();
+    }
+
+    private triggered(condition: IConditionalOrder, order: IOrder): void {
+        condition.status  = 'triggered';
+        condition.orderId = order.id;
+        this.emit('triggered', { ...condition }, order);
+
+        const pair = condition.ocoId === undefined ? undefined : this.conditions.get(condition.ocoId);
+        if (pair !== undefined && pair.status === 'pending') this.cancelled(pair);
+    }
+
+    private cancelled(condition: IConditionalOrder): void {
+        if (condition === undefined || condition.status !== 'pending') return;
+
+        condition.status = 'cancelled';
+        this.emit('cancelled', { ...condition });
+    }
+
+    /**
+     * Polls the ticker of every product with pending conditions.
+     */
+    private async poll(): Promise<void> {
+        for (const productId of this.watchedProducts()) {
+            const { data } = await this.client.getProductTicker(productId);
+            await this.observePrice(productId, data.price);
+        }
+    }
+
+    private watchedProducts(): string[] {
+        const products = this.list('pending').map((condition) => condition.productId);
+
+        return products.filter((productId, index) => products.indexOf(productId) === index);
+    }
+
+    /**
+     * Subscribes the feed to the ticker of products with new conditions.
+     */
+    private watchProducts(): void {
+        const feed = this.options.feed;
+        if (!this.running || feed === undefined) return;
+
+        const added = this.watchedProducts().filter((productId) => !this.subscribed.has(productId));
+        if (added.length === 0) return;
+
+        added.forEach((productId) => this.subscribed.add(productId));
+        feed.subscribe(['ticker'], added);
+    }
+
+    /**
+     * Saves the conditions still to watch.  Saves are made one at a time, in order; a failed one rejects but does not
+     * hold up the next.
+     */
+    private save(): Promise<void> {
+        const watched = this.list().filter((condition) => watchedStatuses.indexOf(condition.status) >= 0);
+        const saved   = this.saving.then(() => this.store.save(watched));
+
+        this.saving = saved.catch(() => undefined);
+
+        return saved;
+    }
+
+    /**
+     * Saves newly added conditions, dropping them again if the save fails.
+     */
+    private async saveAdded(added: IConditionalOrder[]): Promise<void> {
+        try {
+            await this.save();
+        } catch (err) {
+            added.forEach((condition) => this.conditions.delete(condition.id));
+            throw err;
+        }
+    }
+
+    private emitError(err: Error): void {
+        if (this.listenerCount('error') > 0) this.emit('error', err);
+    }
+}
+
+/**
+ * Factory function to get a conditional order engine.  Call #start() to load stored conditions and watch prices.
+ *
+ * @param {IGdaxClient} client
+ * @param {IConditionalOrderOptions} options
+ * @returns {IConditionalOrders}
+ */
+export const getConditionalOrders = (client: IGdaxClient, options?: IConditionalOrderOptions): IConditionalOrders =>
+    new ConditionalOrders(client, options);
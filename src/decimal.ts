@@ -0,0 +1,66 @@
+import { Decimal } from 'decimal.js';
+import { IPostBody } from '../index';
+
+export { Decimal };
+
+/**
+ * A monetary value in a request: a Decimal or an exact decimal string such as '0.01'.  Numbers are deliberately not
+ * accepted, so binary floating point never reaches the exchange.  Responses carry monetary values as exact strings;
+ * #toDecimal() turns them into Decimals for arithmetic.
+ */
+export type DecimalInput = Decimal | string;
+
+export type RoundingDirection = 'down' | 'up' | 'nearest';
+
+const roundingModes = {
+    down   : Decimal.ROUND_FLOOR,
+    nearest: Decimal.ROUND_HALF_UP,
+    up     : Decimal.ROUND_CEIL,
+};
+
+/**
+ * @param {DecimalInput} value
+ * @returns {Decimal}
+ */
+export const toDecimal = (value: DecimalInput): Decimal => new Decimal(value);
+
+/**
+ * Rounds a value to a multiple of `increment`, e.g. a product's quote increment.
+ *
+ * @param {DecimalInput} value
+ * @param {DecimalInput} increment
+ * @param {RoundingDirection} direction
+ * @returns {Decimal}
+ */
+export const roundToIncrement = (value: DecimalInput,
+                                 increment: DecimalInput,
+                                 direction: RoundingDirection = 'nearest'): Decimal =>
+    new Decimal(value).toNearest(increment, roundingModes[direction]);
+
+/**
+ * True when `value` is a multiple of `increment`.
+ *
+ * @param {DecimalInput} value
+ * @param {DecimalInput} increment
+ * @returns {boolean}
+ */
+export const isMultipleOf = (value: DecimalInput, increment: DecimalInput): boolean =>
+    new Decimal(value).mod(increment).isZero();
+
+/**
+ * Replaces the Decimals of a request body with exact strings (never exponent notation), so the body that is signed
+ * is the body that is sent.
+ *
+ * @param {IPostBody} body
+ * @returns {IPostBody}
+ */
+export const serializeDecimals = (body: IPostBody): IPostBody => {
+    const serialized: IPostBody = {};
+
+    for (const key of Object.keys(body)) {
+        const value     = body[key];
+        serialized[key] = Decimal.isDecimal(value) ? (value as Decimal).toFixed() : value;
+    }
+
+    return serialized;
+};
@@ -0,0 +1,196 @@
+import { AxiosError, AxiosResponse } from 'axios';
+import * as HttpStatus from 'http-status-codes';
+
+/**
+ * Details attached to every error raised by the library.  `apiMessage` is the `message` field of the GDAX error body.
+ */
+export type IGdaxErrorDetails = {
+    status?: number;
+    apiMessage?: string;
+    endpoint?: string;
+    method?: string;
+    requestId?: string;
+    cause?: Error;
+};
+
+/**
+ * Base class of all library errors.  Branch on the subclasses with `instanceof`.
+ */
+export class GdaxError extends Error {
+
+    public status?: number;
+    public apiMessage?: string;
+    public endpoint?: string;
+    public method?: string;
+    public requestId?: string;
+    public cause?: Error;
+
+    constructor(message: string, details: IGdaxErrorDetails = {}) {
+        super(message);
+        this.name       = this.constructor.name;
+        this.status     = details.status;
+        this.apiMessage = details.apiMessage;
+        this.endpoint   = details.endpoint;
+        this.method     = details.method;
+        this.requestId  = details.requestId;
+        this.cause      = details.cause;
+    }
+}
+
+/**
+ * A private endpoint was called on a client without API keys.  Nothing was sent.
+ */
+export class AuthenticationRequiredError extends GdaxError {}
+
+/**
+ * The exchange rejected the credentials (401/403): bad key, passphrase, permissions or timestamp.
+ */
+export class AuthenticationError extends GdaxError {}
+
+/**
+ * The exchange rejected the request signature.
+ */
+export class InvalidSignatureError extends AuthenticationError {}
+
+/**
+ * The request exceeded the rate limit (429).  `retryAfter` is in milliseconds, when the exchange said.
+ */
+export class RateLimitError extends GdaxError {
+    public retryAfter?: number;
+}
+
+/**
+ * The account does not hold enough funds for the order or transfer.
+ */
+export class InsufficientFundsError extends GdaxError {}
+
+/**
+ * The requested resource (order, account, report...) does not exist (404).
+ */
+export class NotFoundError extends GdaxError {}
+
+/**
+ * The exchange rejected the request parameters (400), or the library did before sending.
+ */
+export class ValidationError extends GdaxError {}
+
+/**
+ * The exchange failed to process the request (5xx).  It may or may not have acted on it.
+ */
+export class ServerError extends GdaxError {}
+
+/**
+ * No response was received.  The exchange may or may not have acted on the request.
+ */
+export class NetworkError extends GdaxError {}
+
+/**
+ * The request timed out.
+ */
+export class TimeoutError extends NetworkError {}
+
+/**
+ * A request replayed from a cassette matched no recorded interaction.  Nothing was sent.
+ */
+export class CassetteMismatchError extends GdaxError {}
+
+/**
+ * The websocket feed reported an error, e.g. a rejected subscription.  `apiMessage` is the feed's message and `reason`
+ * the feed's explanation, when it gave one.
+ */
+export class FeedError extends GdaxError {
+    public reason?: string;
+}
+
+/**
+ * A FIX session broke down: the connection closed, the acceptor rejected a message, or sequence numbers could not be
+ * reconciled.  Orders in flight may or may not have reached the exchange.
+ */
+export class FixSessionError extends GdaxError {}
+
+/**
+ * A guarded withdrawal broke a rule: its destination is not allowed, its address is malformed, or it would exceed a
+ * limit.  Nothing was sent.
+ */
+export class WithdrawalBlockedError extends GdaxError {}
+
+/**
+ * Response headers that may carry a request id.
+ */
+const requestIdHeaders = ['cb-request-id', 'x-request-id'];
+
+/**
+ * Classifies a response with an error status.
+ *
+ * @param {AxiosResponse} response
+ * @param {IGdaxErrorDetails} details
+ * @returns {GdaxError}
+ */
+const fromResponse = (response: AxiosResponse, details: IGdaxErrorDetails): GdaxError => {
+    const { status, headers, data } = response;
+    const header                    = requestIdHeaders.find((name) => headers !== undefined && name in headers);
+
+    details.status     = status;
+    details.apiMessage = data !== null && typeof data === 'object' ? data.message : undefined;
+    details.requestId  = header === undefined ? undefined : headers[header];
+
+    const apiMessage = details.apiMessage === undefined ? '' : details.apiMessage;
+    const request    = `${details.method} ${details.endpoint}`;
+    const message    = `${request} failed with ${status}${apiMessage === '' ? '' : `: ${apiMessage}`}`;
+
+    if (status === HttpStatus.TOO_MANY_REQUESTS) {
+        const rateLimitError = new RateLimitError(message, details);
+        const retryAfter     = parseFloat(headers === undefined ? undefined : headers['retry-after']);
+        //tslint:disable-next-line:no-magic-numbers
+        if (!isNaN(retryAfter)) rateLimitError.retryAfter = retryAfter * 1000;
+
+        return rateLimitError;
+    }
+
+    if (/insufficient funds/i.test(apiMessage)) return new InsufficientFundsError(message, details);
+
+    if (status === HttpStatus.UNAUTHORIZED || status === HttpStatus.FORBIDDEN) {
+        if (/signature/i.test(apiMessage)) return new InvalidSignatureError(message, details);
+
+        return new AuthenticationError(message, details);
+    }
+
+    if (status === HttpStatus.NOT_FOUND) return new NotFoundError(message, details);
+
+    if (status >= HttpStatus.INTERNAL_SERVER_ERROR) return new ServerError(message, details);
+
+    if (status >= HttpStatus.BAD_REQUEST) return new ValidationError(message, details);
+
+    return new GdaxError(message, details);
+};
+
+/**
+ * Converts whatever the HTTP layer rejected with into the matching GdaxError.  GdaxErrors pass through untouched;
+ * errors that did not come from a request (e.g. a bug in a middleware) are wrapped in a plain GdaxError, which is not
+ * retried.
+ *
+ * @param {Error} error
+ * @param {string} method
+ * @param {string} endpoint
+ * @returns {GdaxError}
+ */
+export const toGdaxError = (error: Error, method?: string, endpoint?: string): GdaxError => {
+    if (error instanceof GdaxError) return error;
+
+    const err                        = error as AxiosError;
+    const cause                      = err instanceof Error ? err : new Error(`${err}`);
+    const details: IGdaxErrorDetails = { cause, endpoint, method };
+    const isObject                   = err !== null && typeof err === 'object';
+
+    if (isObject && err.response !== undefined) return fromResponse(err.response, details);
+
+    if (!isObject || (err.config === undefined && err.request === undefined)) {
+        return new GdaxError(`${method} ${endpoint} failed: ${cause.message}`, details);
+    }
+
+    if (isObject && err.code === 'ECONNABORTED') {
+        return new TimeoutError(`request timed out: ${method} ${endpoint}`, details);
+    }
+
+    return new NetworkError(`no response received: ${method} ${endpoint} (${cause.message})`, details);
+};
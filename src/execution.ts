@@ -0,0 +1,478 @@
+import { EventEmitter } from 'events';
+import { IGdaxClient, INewOrderParams, IPlaceOrderOptions, OrderSide } from '../index';
+import { roundToIncrement, toDecimal, Decimal, DecimalInput } from './decimal';
+import { toGdaxError, InsufficientFundsError, NotFoundError, ValidationError } from './errors';
+import { IOrder } from './models';
+import { getOrderManager, IOrderFill, IOrderManager } from './orderManager';
+
+export type ExecutionStatus = 'idle' | 'running' | 'paused' | 'completed' | 'cancelled' | 'failed';
+
+/**
+ * The order to work.  `limitPrice` guards every child: with it, children are limit orders at that price (IOC, or
+ * resting for iceberg) and never fill beyond it; without it, they are market orders.
+ */
+export type IParentOrder = { product_id: string; side: OrderSide; size: DecimalInput; limitPrice?: DecimalInput };
+
+/**
+ * Time-weighted: the size is split into `slices` (default 10) equal children, one every `duration / slices` ms.  A
+ * slice that does not fill (at the limit price) is carried over to the next.
+ */
+export type ITwapStrategy = { strategy: 'twap'; duration: number; slices?: number };
+
+/**
+ * Volume participation: every `interval` ms (default 10 s), recent trades are read with #getTrades and children are
+ * sized to keep the filled size at `rate` (0-1) of the volume traded since the start.
+ */
+export type IParticipationStrategy = { strategy: 'participation'; rate: number; interval?: number };
+
+/**
+ * Iceberg: one child of `displaySize` rests at the limit price at a time, and the next is placed when it is done.
+ * Placements that fail for transient reasons are retried every `interval` ms (default 10 s).
+ */
+export type IIcebergStrategy = { strategy: 'iceberg'; displaySize: DecimalInput; interval?: number };
+
+export type IExecutionStrategy = ITwapStrategy | IParticipationStrategy | IIcebergStrategy;
+
+/**
+ * Children are followed with `manager`, which must be started; without one, the execution runs its own, polling every
+ * `pollInterval` ms.  `placeOptions` are passed with every child.
+ */
+export type IExecutionOptions = { manager?: IOrderManager; pollInterval?: number; placeOptions?: IPlaceOrderOptions };
+
+/**
+ * Where an execution stands.  `averagePrice` is zero until something fills; `openOrders` counts live children.
+ */
+export type IExecutionProgress = {
+    strategy: string;
+    status: ExecutionStatus;
+    productId: string;
+    side: OrderSide;
+    size: Decimal;
+    filledSize: Decimal;
+    remainingSize: Decimal;
+    executedValue: Decimal;
+    averagePrice: Decimal;
+    fees: Decimal;
+    childOrders: number;
+    openOrders: number;
+    error?: Error;
+};
+
+/**
+ * Works a parent order as child orders.
+ *
+ * Events: 'child' (IOrder) for every child placed, 'progress' (IExecutionProgress) whenever a child is placed, fills
+ * or ends, 'done' (IExecutionProgress) once the execution is completed, cancelled or failed, and 'error' (only when
+ * someone is listening for it) for placements that are retried.
+ */
+export interface IExecution {
+    start(): Promise<void>;
+
+    pause(): Promise<void>;
+
+    resume(): void;
+
+    cancel(): Promise<IExecutionProgress>;
+
+    getProgress(): IExecutionProgress;
+
+    getChildOrders(): IOrder[];
+
+    finished(): Promise<IExecutionProgress>;
+
+    on(event: 'child', listener: (order: IOrder) => void): this;
+    on(event: 'progress' | 'done', listener: (progress: IExecutionProgress) => void): this;
+    on(event: 'error', listener: (err: Error) => void): this;
+}
+
+/**
+ * Default strategy settings.
+ */
+const defaultExecutionConfig = {
+    interval    : 10000,
+    pollInterval: 5000,
+    slices      : 10,
+};
+
+/**
+ * Sizes are rounded down to satoshis.
+ */
+const sizeIncrement = '0.00000001';
+
+const liveStatuses = ['received', 'pending', 'open', 'active'];
+
+const zero = toDecimal('0');
+
+const sum = (values: Decimal[]): Decimal => values.reduce((total, value) => total.plus(value), zero);
+
+class Execution extends EventEmitter implements IExecution {
+
+    private client: IGdaxClient;
+    private parent: IParentOrder;
+    private size: Decimal;
+    private strategy: IExecutionStrategy;
+    private options: IExecutionOptions;
+    private manager: IOrderManager;
+    private minSize: Decimal = zero;
+    private status: ExecutionStatus = 'idle';
+    private children: Map<string, IOrder> = new Map();
+    private timer: NodeJS.Timer = null;
+    private busy: boolean = false;
+    private inFlight: Promise<void> = Promise.resolve();
+    private startedAt: number = 0;
+    private pausedAt: number = 0;
+    private pausedFor: number = 0;
+    private slicesDue: number = 0;
+    private lastTradeId: number = undefined;
+    private volume: Decimal = zero;
+    private error: Error;
+    private completion: Promise<IExecutionProgress>;
+    private settle: { resolve(progress: IExecutionProgress): void; reject(err: Error): void };
+    private fillListener: (fill: IOrderFill) => void;
+    private doneListener: (order: IOrder) => void;
+
+    constructor(client: IGdaxClient, parent: IParentOrder, strategy: IExecutionStrategy, options?: IExecutionOptions) {
+        super();
+        this.client   = client;
+        this.parent   = parent;
+        this.size     = toDecimal(parent.size);
+        this.strategy = strategy;
+        this.options  = { pollInterval: defaultExecutionConfig.pollInterval, ...options };
+        this.manager  = this.options.manager === undefined ?
+                        getOrderManager(client, { pollInterval: this.options.pollInterval }) :
+                        this.options.manager;
+
+        this.completion = new Promise<IExecutionProgress>((resolve, reject) => this.settle = { reject, resolve });
+        this.completion.catch(() => undefined);
+
+        this.fillListener = (fill: IOrderFill) => this.update(fill.order);
+        this.doneListener = (order: IOrder) => this.update(order);
+    }
+
+    /**
+     * Looks up the product's minimum size, starts following children and places the first one.
+     *
+     * @returns {Promise<void>}
+     */
+    public async start(): Promise<void> {
+        if (this.status !== 'idle') return;
+
+        const products = (await this.client.getProducts()).data;
+        const product  = products.find(({ id }) => id === this.parent.product_id);
+
+        if (product === undefined) throw new ValidationError(`unknown product: ${this.parent.product_id}`);
+
+        this.minSize = toDecimal(product.base_min_size);
+        if (this.options.manager === undefined) await this.manager.start();
+
+        this.manager.on('partialFill', this.fillListener);
+        this.manager.on('done', this.doneListener);
+
+        this.status    = 'running';
+        this.startedAt = Date.now();
+        this.timer     = setInterval(() => this.tick().then(() => undefined, () => undefined), this.interval());
+        await this.tick();
+    }
+
+    /**
+     * Stops placing children and cancels the live ones, so nothing trades until #resume.
+     *
+     * @returns {Promise<void>}
+     */
+    public async pause(): Promise<void> {
+        if (this.status !== 'running') return;
+
+        this.status   = 'paused';
+        this.pausedAt = Date.now();
+        await this.inFlight;
+        await this.cancelChildren();
+        this.emit('progress', this.getProgress());
+    }
+
+    /**
+     * Picks up where #pause left off.  Time spent paused does not count towards a TWAP's duration, and volume traded
+     * while paused does not count towards participation.
+     */
+    public resume(): void {
+        if (this.status !== 'paused') return;
+
+        this.status       = 'running';
+        this.pausedFor   += Date.now() - this.pausedAt;
+        this.lastTradeId  = undefined;
+        this.tick().then(() => undefined, () => undefined);
+    }
+
+    /**
+     * Stops the execution and cancels the live children.  Resolves with the final progress.
+     *
+     * @returns {Promise<IExecutionProgress>}
+     */
+    public async cancel(): Promise<IExecutionProgress> {
+        if (['idle', 'running', 'paused'].indexOf(this.status) >= 0) {
+            this.status = 'cancelled';
+            await this.inFlight;
+            await this.cancelChildren();
+            this.finish();
+        }
+
+        return this.getProgress();
+    }
+
+    public getProgress(): IExecutionProgress {
+        const children      = Array.from(this.children.values());
+        const filledSize    = sum(children.map((order) => toDecimal(order.filled_size)));
+        const executedValue = sum(children.map((order) => toDecimal(order.executed_value)));
+
+        const progress: IExecutionProgress = {
+            averagePrice : filledSize.isZero() ? zero : executedValue.dividedBy(filledSize),
+            childOrders  : children.length,
+            executedValue,
+            fees         : sum(children.map((order) => toDecimal(order.fill_fees))),
+            filledSize,
+            openOrders   : children.filter((order) => liveStatuses.indexOf(order.status) >= 0).length,
+            productId    : this.parent.product_id,
+            remainingSize: Decimal.max(this.size.minus(filledSize), zero),
+            side         : this.parent.side,
+            size         : this.size,
+            status       : this.status,
+            strategy     : this.strategy.strategy,
+        };
+
+        if (this.error !== undefined) progress.error = this.error;
+
+        return progress;
+    }
+
+    public getChildOrders(): IOrder[] {
+        return Array.from(this.children.values()).map((order) => ({ ...order }));
+    }
+
+    /**
+     * Resolves with the final progress once the execution is completed or cancelled; rejects if it failed.
+     *
+     * @returns {Promise<IExecutionProgress>}
+     */
+    public finished(): Promise<IExecutionProgress> {
+        return this.completion;
+    }
+
+    private interval(): number {
+        const strategy = this.strategy;
+        const interval = strategy.strategy === 'twap' ? strategy.duration / this.slices() : strategy.interval;
+
+        return interval === undefined ? defaultExecutionConfig.interval : interval;
+    }
+
+    private slices(): number {
+        const strategy = this.strategy as ITwapStrategy;
+
+        return strategy.slices === undefined ? defaultExecutionConfig.slices : strategy.slices;
+    }
+
+    /**
+     * Places the next child, if one is due.  Ticks do not overlap, and #pause and #cancel wait for the one in flight,
+     * so a child placed while they run is cancelled with the others.
+     */
+    private async tick(): Promise<void> {
+        if (this.status !== 'running' || this.busy) return;
+        this.busy = true;
+
+        this.inFlight = this.placeDue();
+        await this.inFlight;
+
+        this.checkCompletion();
+    }
+
+    private async placeDue(): Promise<void> {
+        try {
+            const target = Decimal.min(await this.target(), this.size);
+            const size   = roundToIncrement(target.minus(this.committed()), sizeIncrement, 'down');
+
+            if (size.greaterThanOrEqualTo(this.minSize) && size.greaterThan(0)) await this.placeChild(size);
+        } catch (err) {
+            if (this.status !== 'cancelled') this.failed(toGdaxError(err));
+        } finally {
+            this.busy = false;
+        }
+    }
+
+    /**
+     * How much should have been committed by now.  An iceberg shows its next child only once the last one is done.
+     */
+    private async target(): Promise<Decimal> {
+        const strategy = this.strategy;
+
+        switch (strategy.strategy) {
+            case 'twap': {
+                const elapsed  = Date.now() - this.startedAt - this.pausedFor;
+                const slices   = this.slices();
+                this.slicesDue = Math.min(slices, Math.floor(elapsed / (strategy.duration / slices)) + 1);
+
+                return this.size.times(this.slicesDue).dividedBy(slices);
+            }
+            case 'participation':
+                this.volume = this.volume.plus(await this.recentVolume());
+
+                return this.volume.times(strategy.rate);
+            default:
+                return this.getProgress().openOrders > 0 ? zero : this.committed().plus(strategy.displaySize);
+        }
+    }
+
+    /**
+     * The volume traded since the last call.  The first call after starting or resuming only sets the baseline.
+     */
+    private async recentVolume(): Promise<Decimal> {
+        const trades   = (await this.client.getTrades(this.parent.product_id)).data;
+        const baseline = this.lastTradeId;
+
+        if (trades.length > 0) this.lastTradeId = Math.max(...trades.map((trade) => trade.trade_id));
+        if (baseline === undefined) return zero;
+
+        return sum(trades.filter((trade) => trade.trade_id > baseline).map((trade) => toDecimal(trade.size)));
+    }
+
+    /**
+     * What is filled, plus what live children may still fill.
+     */
+    private committed(): Decimal {
+        return sum(Array.from(this.children.values()).map((order) => {
+            const filled = toDecimal(order.filled_size);
+            const live   = liveStatuses.indexOf(order.status) >= 0 && order.size !== undefined;
+
+            return live ? Decimal.max(toDecimal(order.size), filled) : filled;
+        }));
+    }
+
+    private async placeChild(size: Decimal): Promise<void> {
+        const { product_id, side, limitPrice } = this.parent;
+        const resting                          = this.strategy.strategy === 'iceberg';
+        const params: INewOrderParams          = limitPrice === undefined ?
+                                                 { product_id, side, size, type: 'market' } :
+                                                 resting ?
+                                                 { price: limitPrice, product_id, side, size, type: 'limit' } :
+                                                 { price: limitPrice, product_id, side, size, time_in_force: 'IOC',
+                                                   type: 'limit' };
+
+        try {
+            const order = await this.manager.placeOrder(params, this.options.placeOptions);
+
+            this.children.set(order.id, order);
+            this.emit('child', { ...order });
+            this.emit('progress', this.getProgress());
+        } catch (err) {
+            const error = toGdaxError(err);
+
+            if (error instanceof ValidationError || error instanceof InsufficientFundsError) throw error;
+            this.emitError(error);
+        }
+    }
+
+    /**
+     * Takes in a child's latest state.  When an iceberg child is done, the next one is placed right away.
+     */
+    private update(order: IOrder): void {
+        if (!this.children.has(order.id)) return;
+
+        this.children.set(order.id, order);
+        this.emit('progress', this.getProgress());
+
+        if (liveStatuses.indexOf(order.status) >= 0) return;
+
+        if (this.strategy.strategy === 'iceberg') this.tick().then(() => undefined, () => undefined);
+        else this.checkCompletion();
+    }
+
+    /**
+     * An execution is complete when the parent is filled, when what is left is below the minimum size, or when a TWAP
+     * has placed its last slice, with no child still live.
+     */
+    private checkCompletion(): void {
+        if (this.status !== 'running' || this.busy) return;
+
+        const progress  = this.getProgress();
+        const lastSlice = this.strategy.strategy === 'twap' && this.slicesDue >= this.slices();
+
+        if (progress.openOrders > 0) return;
+        if (progress.remainingSize.lessThan(this.minSize) || progress.remainingSize.isZero() || lastSlice) {
+            this.status = 'completed';
+            this.finish();
+        }
+    }
+
+    private async cancelChildren(): Promise<void> {
+        const live = Array.from(this.children.values()).filter((order) => liveStatuses.indexOf(order.status) >= 0);
+
+        for (const order of live) {
+            try {
+                await this.manager.cancelOrder(order.id);
+            } catch (err) {
+                if (!(toGdaxError(err) instanceof NotFoundError)) this.emitError(toGdaxError(err));
+            }
+        }
+    }
+
+    /**
+     * A child was rejected outright: the execution fails, and its other children are cancelled.
+     */
+    private failed(err: Error): void {
+        this.status = 'failed';
+        this.error  = err;
+        this.cancelChildren().then(() => this.finish(), () => this.finish());
+    }
+
+    private finish(): void {
+        clearInterval(this.timer);
+        this.timer = null;
+
+        this.manager.removeListener('partialFill', this.fillListener);
+        this.manager.removeListener('done', this.doneListener);
+        if (this.options.manager === undefined) this.manager.stop();
+
+        const progress = this.getProgress();
+
+        this.emit('done', progress);
+        if (this.status === 'failed') this.settle.reject(this.error);
+        else this.settle.resolve(progress);
+    }
+
+    private emitError(err: Error): void {
+        if (this.listenerCount('error') > 0) this.emit('error', err);
+    }
+}
+
+/**
+ * Factory function to get an execution of a parent order.  Call #start() to begin placing children.
+ *
+ * @param {IGdaxClient} client
+ * @param {IParentOrder} parent
+ * @param {IExecutionStrategy} strategy
+ * @param {IExecutionOptions} options
+ * @returns {IExecution}
+ */
+export const getExecution = (client: IGdaxClient,
+                             parent: IParentOrder,
+                             strategy: IExecutionStrategy,
+                             options?: IExecutionOptions): IExecution => {
+
+    if (!toDecimal(parent.size).greaterThan(0)) throw new ValidationError('size must be positive');
+
+    switch (strategy.strategy) {
+        case 'twap':
+            if (!(strategy.duration > 0)) throw new ValidationError('duration must be positive');
+            if (strategy.slices !== undefined && !(strategy.slices >= 1)) {
+                throw new ValidationError('slices must be 1 or more');
+            }
+            break;
+        case 'participation':
+            if (!(strategy.rate > 0 && strategy.rate <= 1)) throw new ValidationError('rate must be between 0 and 1');
+            break;
+        default:
+            if (parent.limitPrice === undefined) throw new ValidationError('iceberg orders need a limit price');
+            if (!toDecimal(strategy.displaySize).greaterThan(0)) {
+                throw new ValidationError('displaySize must be positive');
+            }
+    }
+
+    return new Execution(client, parent, strategy, options);
+};
@@ -0,0 +1,501 @@
+import { EventEmitter } from 'events';
+import * as WebSocket from 'ws';
+import { signMessage, IApiAuth } from '../index';
+import { IServerClock } from './clock';
+import { AuthenticationRequiredError, FeedError } from './errors';
+
+/**
+ * Default feed configuration.
+ */
+const defaultFeedConfig = {
+    maxReconnectDelay: 30000,
+    reconnect        : true,
+    reconnectDelay   : 1000,
+    url              : `wss://ws-feed.gdax.com`,
+};
+
+/**
+ * The path GDAX expects to be signed when authenticating a feed subscription.
+ */
+const feedAuthPath = '/users/self/verify';
+
+/**
+ * Channels offered by the websocket feed.
+ */
+export type FeedChannelName = 'heartbeat' | 'ticker' | 'level2' | 'matches' | 'full' | 'user';
+
+/**
+ * A channel along with the products it is (or should be) subscribed for.
+ */
+export type IFeedChannel = { name: FeedChannelName; product_ids: string[] };
+
+/**
+ * Feed client options.  Pointing `url` at a local websocket server makes the client testable offline.  A `clock`
+ * stamps subscription signatures with the estimated server time.
+ */
+export type IFeedClientOptions = {
+    url?: string;
+    clock?: IServerClock;
+    reconnect?: boolean;
+    reconnectDelay?: number;
+    maxReconnectDelay?: number;
+};
+
+/**
+ * The shape of the subscribe/unsubscribe request sent to the feed.  The signature fields are only present for
+ * authenticated clients.
+ */
+export type IFeedSubscriptionRequest = {
+    type: 'subscribe' | 'unsubscribe';
+    channels: IFeedChannel[];
+    key?: string;
+    passphrase?: string;
+    signature?: string;
+    timestamp?: string;
+};
+
+export interface IHeartbeatMessage {
+    type: 'heartbeat';
+    sequence: number;
+    last_trade_id: number;
+    product_id: string;
+    time: string;
+}
+
+export interface ITickerMessage {
+    type: 'ticker';
+    trade_id?: number;
+    sequence: number;
+    time?: string;
+    product_id: string;
+    price: string;
+    side?: string;
+    last_size?: string;
+    best_bid: string;
+    best_ask: string;
+    open_24h?: string;
+    volume_24h?: string;
+    low_24h?: string;
+    high_24h?: string;
+    volume_30d?: string;
+}
+
+export interface ISnapshotMessage {
+    type: 'snapshot';
+    product_id: string;
+    bids: Array<[string, string]>;
+    asks: Array<[string, string]>;
+}
+
+export interface IL2UpdateMessage {
+    type: 'l2update';
+    product_id: string;
+    time?: string;
+    changes: Array<[string, string, string]>;
+}
+
+export interface IReceivedMessage {
+    type: 'received';
+    time: string;
+    product_id: string;
+    sequence: number;
+    order_id: string;
+    side: string;
+    order_type: string;
+    size?: string;
+    price?: string;
+    funds?: string;
+    client_oid?: string;
+    user_id?: string;
+    profile_id?: string;
+}
+
+export interface IOpenMessage {
+    type: 'open';
+    time: string;
+    product_id: string;
+    sequence: number;
+    order_id: string;
+    price: string;
+    remaining_size: string;
+    side: string;
+    user_id?: string;
+    profile_id?: string;
+}
+
+export interface IDoneMessage {
+    type: 'done';
+    time: string;
+    product_id: string;
+    sequence: number;
+    order_id: string;
+    reason: string;
+    side: string;
+    price?: string;
+    remaining_size?: string;
+    user_id?: string;
+    profile_id?: string;
+}
+
+export interface IMatchMessage {
+    type: 'match' | 'last_match';
+    trade_id: number;
+    sequence: number;
+    maker_order_id: string;
+    taker_order_id: string;
+    time: string;
+    product_id: string;
+    size: string;
+    price: string;
+    side: string;
+    user_id?: string;
+    profile_id?: string;
+    taker_user_id?: string;
+    taker_profile_id?: string;
+    maker_user_id?: string;
+    maker_profile_id?: string;
+}
+
+export interface IChangeMessage {
+    type: 'change';
+    time: string;
+    sequence: number;
+    order_id: string;
+    product_id: string;
+    side: string;
+    price?: string;
+    new_size?: string;
+    old_size?: string;
+    new_funds?: string;
+    old_funds?: string;
+}
+
+export interface IActivateMessage {
+    type: 'activate';
+    product_id: string;
+    timestamp: string;
+    order_id: string;
+    stop_type: string;
+    side: string;
+    size?: string;
+    funds?: string;
+    stop_price: string;
+    taker_fee_rate?: string;
+    private?: boolean;
+    user_id?: string;
+    profile_id?: string;
+}
+
+export interface ISubscriptionsMessage {
+    type: 'subscriptions';
+    channels: IFeedChannel[];
+}
+
+export interface IFeedErrorMessage {
+    type: 'error';
+    message: string;
+    reason?: string;
+}
+
+/**
+ * Every message the feed can emit.  Narrow on `type`.
+ */
+export type IFeedMessage = IHeartbeatMessage
+    | ITickerMessage
+    | ISnapshotMessage
+    | IL2UpdateMessage
+    | IReceivedMessage
+    | IOpenMessage
+    | IDoneMessage
+    | IMatchMessage
+    | IChangeMessage
+    | IActivateMessage
+    | ISubscriptionsMessage
+    | IFeedErrorMessage;
+
+/**
+ * The shape of a websocket feed client.
+ *
+ * Besides the per-type events below, every parsed message is also emitted as 'message'.  Connection state is
+ * reported through 'connected', 'disconnected' and 'reconnecting', since the feed has its own 'open' message type.
+ * 'error' messages from the feed are emitted as FeedErrors on 'error', which is only emitted when someone is listening
+ * for it.
+ */
+export interface IFeedClient {
+    auth?: IApiAuth;
+
+    connect(): Promise<void>;
+
+    disconnect(): void;
+
+    getSubscriptions(): IFeedChannel[];
+
+    isConnected(): boolean;
+
+    subscribe(channels: FeedChannelName[], productIds: string[]): void;
+
+    unsubscribe(channels: FeedChannelName[], productIds: string[]): void;
+
+    on(event: 'message', listener: (message: IFeedMessage) => void): this;
+    on(event: 'heartbeat', listener: (message: IHeartbeatMessage) => void): this;
+    on(event: 'ticker', listener: (message: ITickerMessage) => void): this;
+    on(event: 'snapshot', listener: (message: ISnapshotMessage) => void): this;
+    on(event: 'l2update', listener: (message: IL2UpdateMessage) => void): this;
+    on(event: 'received', listener: (message: IReceivedMessage) => void): this;
+    on(event: 'open', listener: (message: IOpenMessage) => void): this;
+    on(event: 'done', listener: (message: IDoneMessage) => void): this;
+    on(event: 'match' | 'last_match', listener: (message: IMatchMessage) => void): this;
+    on(event: 'change', listener: (message: IChangeMessage) => void): this;
+    on(event: 'activate', listener: (message: IActivateMessage) => void): this;
+    on(event: 'subscriptions', listener: (message: ISubscriptionsMessage) => void): this;
+    on(event: 'error', listener: (err: Error) => void): this;
+    on(event: 'connected', listener: () => void): this;
+    on(event: 'disconnected', listener: (code: number, reason: string) => void): this;
+    on(event: 'reconnecting', listener: (attempt: number, delay: number) => void): this;
+
+    once(event: string, listener: (...args: Array<{}>) => void): this;
+
+    removeListener(event: string, listener: (...args: Array<{}>) => void): this;
+}
+
+/**
+ * Websocket feed client.  Subscriptions are tracked locally so that they can be replayed after a reconnect.
+ */
+class FeedClient extends EventEmitter implements IFeedClient {
+
+    public auth?: IApiAuth;
+
+    private options: IFeedClientOptions;
+    private socket: WebSocket = null;
+    private connecting: Promise<void> = null;
+    private subscriptions: Map<FeedChannelName, Set<string>> = new Map();
+    private closeRequested: boolean = false;
+    private reconnectAttempts: number = 0;
+    private reconnectTimer: NodeJS.Timer = null;
+
+    constructor(auth?: IApiAuth, options?: IFeedClientOptions) {
+        super();
+        this.auth    = auth;
+        this.options = { ...defaultFeedConfig, ...options };
+    }
+
+    /**
+     * Opens the socket.  Resolves once the connection is established; any subscriptions recorded beforehand are
+     * sent immediately.  A client that is already connected (or connecting) keeps its socket.
+     *
+     * @returns {Promise<void>}
+     */
+    public connect(): Promise<void> {
+        this.closeRequested = false;
+        this.cancelReconnect();
+
+        if (this.connecting !== null) return this.connecting;
+        if (this.isConnected()) return Promise.resolve();
+
+        const socket    = new WebSocket(this.options.url);
+        this.socket     = socket;
+        this.connecting = new Promise<void>((resolve, reject) => {
+            socket.on('open', () => {
+                this.connecting        = null;
+                this.reconnectAttempts = 0;
+                this.sendSubscriptions('subscribe', this.getSubscriptions());
+                this.emit('connected');
+                resolve();
+            });
+
+            socket.on('message', (data: WebSocket.Data) => this.handleData(data));
+
+            socket.on('error', (err: Error) => {
+                if (this.socket === socket) this.connecting = null;
+                this.emitError(err);
+                reject(err);
+            });
+
+            socket.on('close', (code: number, reason: string) => {
+                const current = this.socket === socket;
+
+                if (current) {
+                    this.socket     = null;
+                    this.connecting = null;
+                }
+                this.emit('disconnected', code, reason);
+                if (current && !this.closeRequested && this.options.reconnect) this.scheduleReconnect();
+            });
+        });
+
+        return this.connecting;
+    }
+
+    /**
+     * Closes the socket and cancels any pending reconnect.  Subscriptions are retained for the next #connect().
+     */
+    public disconnect(): void {
+        this.closeRequested = true;
+        this.cancelReconnect();
+
+        if (this.socket !== null) {
+            const socket    = this.socket;
+            this.socket     = null;
+            this.connecting = null;
+            socket.close();
+        }
+    }
+
+    /**
+     * The channels (and products per channel) the client currently wants to be subscribed to.
+     *
+     * @returns {IFeedChannel[]}
+     */
+    public getSubscriptions(): IFeedChannel[] {
+        const channels: IFeedChannel[] = [];
+
+        this.subscriptions.forEach((productIds, name) => {
+            if (productIds.size > 0) channels.push({ name, product_ids: Array.from(productIds) });
+        });
+
+        return channels;
+    }
+
+    public isConnected(): boolean {
+        return this.socket !== null && this.socket.readyState === WebSocket.OPEN;
+    }
+
+    /**
+     * Subscribe to channels for the given products.  The user channel requires API keys.
+     *
+     * @param {FeedChannelName[]} channels
+     * @param {string[]} productIds
+     */
+    public subscribe(channels: FeedChannelName[], productIds: string[]): void {
+        if (channels.indexOf('user') >= 0 && !this.isAuthenticated()) {
+            throw new AuthenticationRequiredError(`api keys are required to subscribe to the user channel`);
+        }
+
+        for (const name of channels) {
+            if (!this.subscriptions.has(name)) this.subscriptions.set(name, new Set<string>());
+
+            const current = this.subscriptions.get(name);
+            productIds.forEach((productId) => current.add(productId));
+        }
+
+        this.sendSubscriptions('subscribe', channels.map((name) => ({ name, product_ids: productIds })));
+    }
+
+    /**
+     * Unsubscribe from channels for the given products.
+     *
+     * @param {FeedChannelName[]} channels
+     * @param {string[]} productIds
+     */
+    public unsubscribe(channels: FeedChannelName[], productIds: string[]): void {
+        for (const name of channels) {
+            const current = this.subscriptions.get(name);
+            if (current !== undefined) productIds.forEach((productId) => current.delete(productId));
+        }
+
+        this.sendSubscriptions('unsubscribe', channels.map((name) => ({ name, product_ids: productIds })));
+    }
+
+    private isAuthenticated(): boolean {
+        return this.auth !== undefined && this.auth !== null;
+    }
+
+    /**
+     * Sends a (un)subscribe request if the socket is open.  Authenticated clients sign every request the same way
+     * a GET to /users/self/verify would be signed.
+     *
+     * @param {"subscribe" | "unsubscribe"} type
+     * @param {IFeedChannel[]} channels
+     */
+    private sendSubscriptions(type: 'subscribe' | 'unsubscribe', channels: IFeedChannel[]): void {
+        if (!this.isConnected() || channels.length === 0) return;
+
+        const request: IFeedSubscriptionRequest = { type, channels };
+
+        if (this.isAuthenticated()) {
+            const clock         = this.options.clock;
+            //tslint:disable-next-line:no-magic-numbers
+            const time          = clock === undefined || clock === null ? undefined : clock.now() / 1000;
+            const signatureData = signMessage(this.auth.privateKey, feedAuthPath, 'GET', undefined, time);
+
+            request.key        = this.auth.publicKey;
+            request.passphrase = this.auth.passphrase;
+            request.signature  = signatureData.digest;
+            request.timestamp  = `${signatureData.timestamp}`;
+        }
+
+        this.socket.send(JSON.stringify(request));
+    }
+
+    private handleData(data: WebSocket.Data): void {
+        let message: IFeedMessage;
+
+        try {
+            message = JSON.parse(data.toString());
+        } catch (err) {
+            this.emitError(err);
+
+            return;
+        }
+
+        if (typeof message !== 'object' || message === null) {
+            this.emitError(new FeedError(`feed message is not an object: ${data.toString()}`));
+
+            return;
+        }
+
+        this.emit('message', message);
+
+        if (message.type === 'error') {
+            const text  = message.reason === undefined ? message.message : `${message.message}: ${message.reason}`;
+            const error = new FeedError(text, { apiMessage: message.message });
+
+            error.reason = message.reason;
+            this.emitError(error);
+        } else {
+            this.emit(message.type, message);
+        }
+    }
+
+    /**
+     * Reconnects with exponential backoff, capped at maxReconnectDelay.
+     */
+    private scheduleReconnect(): void {
+        //tslint:disable:no-magic-numbers
+        const delay = Math.min(this.options.reconnectDelay * Math.pow(2, this.reconnectAttempts),
+                               this.options.maxReconnectDelay);
+        //tslint:enable:no-magic-numbers
+
+        this.reconnectAttempts += 1;
+        this.emit('reconnecting', this.reconnectAttempts, delay);
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            this.connect().catch(() => {
+                // The socket's close handler schedules the next attempt.
+            });
+        }, delay);
+    }
+
+    private cancelReconnect(): void {
+        if (this.reconnectTimer !== null) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+    }
+
+    private emitError(err: Error): void {
+        if (this.listenerCount('error') > 0) this.emit('error', err);
+    }
+}
+
+/**
+ * Factory function to get a new websocket feed client.  If API keys are provided, subscriptions are authenticated
+ * (required for the user channel, and adds your own user/profile ids to full channel messages).
+ *
+ * @param {IApiAuth} auth
+ * @param {IFeedClientOptions} options
+ * @returns {IFeedClient}
+ */
+export const getFeedClient = (auth?: IApiAuth, options?: IFeedClientOptions): IFeedClient =>
+    new FeedClient(auth, options);
@@ -0,0 +1,955 @@
+import { EventEmitter } from 'events';
+import * as net from 'net';
+import * as tls from 'tls';
+import * as uuid from 'uuid';
+import { hmacDigest, IApiAuth, INewOrderParams } from '../index';
+import { IServerClock } from './clock';
+import { toDecimal, DecimalInput } from './decimal';
+import {
+    AuthenticationError,
+    FixSessionError,
+    InsufficientFundsError,
+    NotFoundError,
+    TimeoutError,
+    ValidationError,
+} from './errors';
+import { IFill, IOrder } from './models';
+
+/**
+ * Default session configuration.  GDAX terminates TLS in front of its FIX gateway.
+ */
+const defaultFixConfig = {
+    heartbeatInterval: 30,
+    host             : 'fix.gdax.com',
+    incomingSeqNum   : 1,
+    outgoingSeqNum   : 1,
+    port             : 4198,
+    responseTimeout  : 10000,
+    targetCompId     : 'Coinbase',
+    tls              : true,
+};
+
+/**
+ * The tags this client reads or writes.
+ */
+export const fixTags = {
+    AggressorIndicator      : 1057,
+    AvgPx                   : 6,
+    BeginSeqNo              : 7,
+    BeginString             : 8,
+    BodyLength              : 9,
+    CancelOrdersOnDisconnect: 8013,
+    CashOrderQty            : 152,
+    CheckSum                : 10,
+    ClOrdID                 : 11,
+    CumQty                  : 14,
+    CxlRejReason            : 102,
+    EncryptMethod           : 98,
+    EndSeqNo                : 16,
+    ExecType                : 150,
+    GapFillFlag             : 123,
+    HandlInst               : 21,
+    HeartBtInt              : 108,
+    LastPx                  : 31,
+    LastShares              : 32,
+    LeavesQty               : 151,
+    MiscFeeAmt              : 137,
+    MsgSeqNum               : 34,
+    MsgType                 : 35,
+    NewSeqNo                : 36,
+    OrderID                 : 37,
+    OrderQty                : 38,
+    OrdRejReason            : 103,
+    OrdStatus               : 39,
+    OrdType                 : 40,
+    OrigSendingTime         : 122,
+    Password                : 554,
+    PossDupFlag             : 43,
+    Price                   : 44,
+    RawData                 : 96,
+    RawDataLength           : 95,
+    RefSeqNum               : 45,
+    SelfTradePrevention     : 7928,
+    SenderCompID            : 49,
+    SendingTime             : 52,
+    Side                    : 54,
+    StopPx                  : 99,
+    Symbol                  : 55,
+    TargetCompID            : 56,
+    TestReqID               : 112,
+    Text                    : 58,
+    TimeInForce             : 59,
+    TradeID                 : 1003,
+    TransactTime            : 60,
+};
+
+/**
+ * The message types this client sends or handles.
+ */
+export const fixMessageTypes = {
+    ExecutionReport   : '8',
+    Heartbeat         : '0',
+    Logon             : 'A',
+    Logout            : '5',
+    NewOrderSingle    : 'D',
+    OrderCancelReject : '9',
+    OrderCancelRequest: 'F',
+    Reject            : '3',
+    ResendRequest     : '2',
+    SequenceReset     : '4',
+    TestRequest       : '1',
+};
+
+/**
+ * A field to send, in order.
+ */
+export type IFixField = [number, string];
+
+/**
+ * A received message, by tag.  Repeated tags keep their first value.
+ */
+export type IFixMessage = { [tag: number]: string };
+
+/**
+ * What an execution report says happened: 'new' (accepted), 'fill' (partial or full), 'done', 'canceled', 'stopped',
+ * 'rejected', 'restated' or 'status' (an answer to a status request).
+ */
+export type FixExecType = 'new' | 'fill' | 'done' | 'canceled' | 'stopped' | 'rejected' | 'restated' | 'status';
+
+/**
+ * An execution report in REST shapes.  `order` is the order as the REST client would return it; its `fill_fees` and
+ * `executed_value` add up the fills seen by this session.  `fill` is present for executions.
+ */
+export type IFixExecutionReport = {
+    execType: FixExecType;
+    order: IOrder;
+    fill?: IFill;
+    reason?: string;
+    message: IFixMessage;
+};
+
+/**
+ * Session options.  Point `host` and `port` at a local acceptor (with `tls` false, or TLS options trusting its
+ * certificate) to test offline.  `heartbeatInterval` is in seconds, `responseTimeout` in milliseconds.  Sequence
+ * numbers start at `outgoingSeqNum` and `incomingSeqNum`; #getSequenceNumbers tells where a session left off.  A
+ * `clock` stamps messages with the estimated server time.
+ */
+export type IFixSessionOptions = {
+    host?: string;
+    port?: number;
+    tls?: boolean | tls.ConnectionOptions;
+    targetCompId?: string;
+    heartbeatInterval?: number;
+    responseTimeout?: number;
+    cancelOrdersOnDisconnect?: boolean;
+    outgoingSeqNum?: number;
+    incomingSeqNum?: number;
+    clock?: IServerClock;
+};
+
+/**
+ * The shape of a FIX order-entry session.
+ *
+ * Every message received is emitted as 'message'.  Execution reports are also emitted as 'executionReport', session
+ * level rejects as 'reject'.  'loggedOn' and 'disconnected' report the session state; 'error' is only emitted when
+ * someone is listening for it.
+ */
+export interface IFixSession {
+    auth: IApiAuth;
+
+    logon(): Promise<void>;
+
+    logout(reason?: string): Promise<void>;
+
+    isLoggedOn(): boolean;
+
+    getSequenceNumbers(): { outgoing: number; incoming: number };
+
+    placeOrder(params: INewOrderParams): Promise<IOrder>;
+
+    cancelOrder(orderId: string, productId: string): Promise<string>;
+
+    send(msgType: string, fields: IFixField[]): number;
+
+    on(event: 'message' | 'reject', listener: (message: IFixMessage) => void): this;
+    on(event: 'executionReport', listener: (report: IFixExecutionReport) => void): this;
+    on(event: 'loggedOn' | 'disconnected', listener: () => void): this;
+    on(event: 'error', listener: (err: Error) => void): this;
+
+    once(event: string, listener: (...args: Array<{}>) => void): this;
+
+    removeListener(event: string, listener: (...args: Array<{}>) => void): this;
+}
+
+const separator = '\x01';
+
+const beginString = 'FIX.4.2';
+
+/**
+ * Session-level message types: never resent, gap-filled instead.
+ */
+const adminTypes = ['0', '1', '2', '3', '4', '5', 'A'];
+
+const sides: { [value: string]: string } = { 1: 'buy', 2: 'sell' };
+
+const orderTypes: { [value: string]: string } = { 1: 'market', 2: 'limit', 3: 'stop' };
+
+const timesInForce: { [value: string]: string } = { 1: 'GTC', 3: 'IOC', 4: 'FOK', P: 'GTC' };
+
+const selfTradePrevention: { [stp: string]: string } = { cb: 'B', cn: 'N', co: 'O', dc: 'D' };
+
+const execTypes: { [value: string]: FixExecType } = {
+    0: 'new', 1: 'fill', 2: 'fill', 3: 'done', 4: 'canceled', 7: 'stopped', 8: 'rejected', D: 'restated', I: 'status',
+};
+
+/**
+ * REST order statuses by OrdStatus.
+ */
+const orderStatuses: { [value: string]: string } = {
+    0: 'open', 1: 'open', 2: 'done', 3: 'done', 4: 'done', 7: 'done', 8: 'rejected', A: 'pending',
+};
+
+/**
+ * REST done reasons by OrdStatus.
+ */
+const doneReasons: { [value: string]: string } = { 2: 'filled', 3: 'filled', 4: 'canceled', 7: 'canceled' };
+
+/**
+ * The FIX checksum of a message: the sum of its bytes modulo 256, three digits.
+ *
+ * @param {string} text
+ * @returns {string}
+ */
+export const fixChecksum = (text: string): string => {
+    let sum = 0;
+    for (let i = 0; i < text.length; i++) sum += text.charCodeAt(i);
+
+    //tslint:disable-next-line:no-magic-numbers
+    return `00${sum % 256}`.slice(-3);
+};
+
+/**
+ * A UTC timestamp in FIX format: YYYYMMDD-HH:MM:SS.sss.
+ *
+ * @param {Date} date
+ * @returns {string}
+ */
+export const fixTimestamp = (date: Date): string =>
+    date.toISOString().replace(/-/g, '').replace('T', '-').replace('Z', '');
+
+/**
+ * Reads a FIX timestamp back into ISO 8601.
+ */
+const isoTimestamp = (value: string): string => {
+    const match = /^(\d{4})(\d{2})(\d{2})-(\d{2}:\d{2}:\d{2}(?:\.\d+)?)$/.exec(value === undefined ? '' : value);
+
+    //tslint:disable-next-line:no-magic-numbers
+    return match === null ? new Date().toISOString() : `${match[1]}-${match[2]}-${match[3]}T${match[4]}Z`;
+};
+
+/**
+ * Frames fields as a FIX 4.2 message, adding BeginString, BodyLength and CheckSum.  Text is latin1, so lengths are
+ * byte counts.
+ *
+ * @param {IFixField[]} fields
+ * @returns {string}
+ */
+export const encodeFixMessage = (fields: IFixField[]): string => {
+    const body   = fields.map(([tag, value]) => `${tag}=${value}${separator}`).join('');
+    const header = `${fixTags.BeginString}=${beginString}${separator}${fixTags.BodyLength}=${body.length}${separator}`;
+
+    return `${header}${body}${fixTags.CheckSum}=${fixChecksum(header + body)}${separator}`;
+};
+
+/**
+ * Reads one framed message.  Returns undefined when its checksum is wrong, as FIX says garbled messages are ignored.
+ *
+ * @param {string} raw
+ * @returns {IFixMessage}
+ */
+export const decodeFixMessage = (raw: string): IFixMessage => {
+    const trailer = raw.lastIndexOf(`${separator}${fixTags.CheckSum}=`) + 1;
+    const message: IFixMessage = {};
+
+    for (const field of raw.split(separator)) {
+        const equals = field.indexOf('=');
+        const tag    = Number(field.slice(0, equals));
+
+        if (equals > 0 && message[tag] === undefined) message[tag] = field.slice(equals + 1);
+    }
+
+    return trailer > 0 && fixChecksum(raw.slice(0, trailer)) === message[fixTags.CheckSum] ? message : undefined;
+};
+
+/**
+ * Cuts complete messages off the front of a stream buffer, using BodyLength.  Returns them with the incomplete rest.
+ *
+ * @param {string} buffer
+ * @returns {{messages: string[]; rest: string}}
+ */
+export const splitFixMessages = (buffer: string): { messages: string[]; rest: string } => {
+    const messages: string[] = [];
+    const framing            = new RegExp(`^${fixTags.BeginString}=[^${separator}]*${separator}` +
+                                          `${fixTags.BodyLength}=(\\d+)${separator}`);
+    let rest                 = buffer;
+
+    for (;;) {
+        const start = rest.indexOf(`${fixTags.BeginString}=`);
+        if (start < 0) return { messages, rest: '' };
+
+        rest        = rest.slice(start);
+        const frame = framing.exec(rest);
+        const end   = frame === null ? -1 : rest.indexOf(separator, frame[0].length + Number(frame[1]) + 1);
+
+        if (end < 0) return { messages, rest };
+
+        messages.push(rest.slice(0, end + 1));
+        rest = rest.slice(end + 1);
+    }
+};
+
+/**
+ * The body of a New Order Single for an order in REST shape.
+ *
+ * @param {INewOrderParams} params
+ * @param {string} clOrdId
+ * @returns {IFixField[]}
+ */
+export const toNewOrderSingle = (params: INewOrderParams, clOrdId: string): IFixField[] => {
+    const order   = params as {
+        type?: string; side: string; product_id: string; price?: DecimalInput; size?: DecimalInput;
+        funds?: DecimalInput; time_in_force?: string; post_only?: boolean; stp?: string;
+    };
+    const type    = order.type === undefined ? 'limit' : order.type;
+    const tif     = order.time_in_force === undefined ? 'GTC' : order.time_in_force;
+    const text    = (value: DecimalInput) => toDecimal(value).toFixed();
+    const ordType = Object.keys(orderTypes).find((value) => orderTypes[value] === type);
+
+    if (ordType === undefined) throw new ValidationError(`invalid order type: ${type}`);
+    if (tif === 'GTT') throw new ValidationError('GTT orders cannot be placed over FIX');
+
+    const fields: IFixField[] = [
+        [fixTags.ClOrdID, clOrdId],
+        [fixTags.HandlInst, '1'],
+        [fixTags.Symbol, order.product_id],
+        [fixTags.Side, order.side === 'buy' ? '1' : '2'],
+        [fixTags.OrdType, ordType],
+        [fixTags.TransactTime, fixTimestamp(new Date())],
+    ];
+
+    if (order.size !== undefined) fields.push([fixTags.OrderQty, text(order.size)]);
+    if (order.funds !== undefined) fields.push([fixTags.CashOrderQty, text(order.funds)]);
+    if (order.price !== undefined) fields.push([type === 'stop' ? fixTags.StopPx : fixTags.Price, text(order.price)]);
+    if (type === 'limit') {
+        const value = order.post_only === true ? 'P' : Object.keys(timesInForce).find((v) => timesInForce[v] === tif);
+        fields.push([fixTags.TimeInForce, value]);
+    }
+    if (order.stp !== undefined) fields.push([fixTags.SelfTradePrevention, selfTradePrevention[order.stp]]);
+
+    return fields;
+};
+
+/**
+ * Per-order running totals, for the REST fields FIX does not carry.
+ */
+type IOrderTotals = { fees: string; value: string };
+
+/**
+ * Reads an execution report into REST shapes.
+ *
+ * @param {IFixMessage} message
+ * @param {IOrderTotals} totals the fees and executed value before this report
+ * @returns {IFixExecutionReport}
+ */
+export const fromExecutionReport = (message: IFixMessage,
+                                    totals: IOrderTotals = { fees: '0', value: '0' }): IFixExecutionReport => {
+
+    const field    = (tag: number, fallback?: string) => message[tag] === undefined ? fallback : message[tag];
+    const execType = execTypes[field(fixTags.ExecType)];
+    const time     = isoTimestamp(field(fixTags.TransactTime, field(fixTags.SendingTime)));
+    const side     = sides[field(fixTags.Side)];
+    const size     = field(fixTags.LastShares, '0');
+    const fee      = field(fixTags.MiscFeeAmt, '0');
+    const executed = execType === 'fill' && !toDecimal(size).isZero();
+    const value    = executed ? toDecimal(totals.value).plus(toDecimal(size).times(field(fixTags.LastPx))) :
+                     toDecimal(totals.value);
+    const fees     = executed ? toDecimal(totals.fees).plus(fee) : toDecimal(totals.fees);
+    const status   = orderStatuses[field(fixTags.OrdStatus)];
+
+    const order: IOrder = {
+        client_oid    : field(fixTags.ClOrdID),
+        created_at    : time,
+        executed_value: value.toFixed(),
+        fill_fees     : fees.toFixed(),
+        filled_size   : field(fixTags.CumQty, '0'),
+        funds         : field(fixTags.CashOrderQty),
+        id            : field(fixTags.OrderID),
+        post_only     : field(fixTags.TimeInForce) === 'P',
+        price         : field(fixTags.Price),
+        product_id    : field(fixTags.Symbol),
+        settled       : false,
+        side,
+        size          : field(fixTags.OrderQty),
+        status        : status === undefined ? 'open' : status,
+        stop_price    : field(fixTags.StopPx),
+        time_in_force : timesInForce[field(fixTags.TimeInForce)],
+        type          : orderTypes[field(fixTags.OrdType)],
+    };
+
+    if (doneReasons[field(fixTags.OrdStatus)] !== undefined) {
+        order.done_at     = time;
+        order.done_reason = doneReasons[field(fixTags.OrdStatus)];
+    }
+
+    const report: IFixExecutionReport = { execType, message, order, reason: field(fixTags.Text) };
+
+    if (executed) {
+        report.fill = {
+            created_at: time,
+            fee,
+            liquidity : field(fixTags.AggressorIndicator) === 'N' ? 'M' : 'T',
+            order_id  : order.id,
+            price     : field(fixTags.LastPx),
+            product_id: order.product_id,
+            settled   : false,
+            side,
+            size,
+            trade_id  : Number(field(fixTags.TradeID)),
+        };
+    }
+
+    return report;
+};
+
+/**
+ * A request waiting for its answer.
+ */
+type IPendingRequest = {
+    seqNum: number;
+    timer: NodeJS.Timer;
+    resolve(value: IOrder | string): void;
+    reject(err: Error): void;
+};
+
+/**
+ * A message kept for resending.
+ */
+type ISentMessage = { msgType: string; sendingTime: string; fields: IFixField[] };
+
+/**
+ * FIX 4.2 order-entry session.  Sent application messages are kept for resend requests for as long as the session
+ * object lives.
+ */
+class FixSession extends EventEmitter implements IFixSession {
+
+    public auth: IApiAuth;
+
+    private options: IFixSessionOptions;
+    private socket: net.Socket = null;
+    private buffer: string = '';
+    private outgoing: number;
+    private incoming: number;
+    private sent: Map<number, ISentMessage> = new Map();
+    private loggedOn: boolean = false;
+    private logonRequest: IPendingRequest = null;
+    private logoutRequest: IPendingRequest = null;
+    private orders: Map<string, IPendingRequest> = new Map();
+    private cancels: Map<string, IPendingRequest> = new Map();
+    private totals: Map<string, IOrderTotals> = new Map();
+    private resendRequested: boolean = false;
+    private lastSent: number = 0;
+    private lastReceived: number = 0;
+    private testRequestSent: number = 0;
+    private heartbeatTimer: NodeJS.Timer = null;
+
+    constructor(auth: IApiAuth, options?: IFixSessionOptions) {
+        super();
+        this.auth     = auth;
+        this.options  = { ...defaultFixConfig, ...options };
+        this.outgoing = this.options.outgoingSeqNum;
+        this.incoming = this.options.incomingSeqNum;
+    }
+
+    /**
+     * Connects and logs on.  Resolves once the acceptor answers the Logon; rejects with an AuthenticationError if it
+     * logs us out instead, with a TimeoutError if it does not answer in time, and with a FixSessionError (whose
+     * `cause` is the socket error, if any) if the connection fails or closes first.
+     *
+     * @returns {Promise<void>}
+     */
+    public logon(): Promise<void> {
+        if (this.socket !== null) return Promise.reject(new FixSessionError('session is already connected'));
+
+        return new Promise<void>((resolve, reject) => {
+            const { host, port } = this.options;
+            const secure         = this.options.tls;
+            const socket         = secure === false ?
+                                   net.connect(port, host) :
+                                   tls.connect({ ...(secure === true ? {} : secure), host, port });
+            const ready          = secure === false ? 'connect' : 'secureConnect';
+            let failure: Error;
+
+            // A Logon that times out drops the connection, so that the session can log on again
+            this.logonRequest = this.pending(0, () => resolve(), (err: Error) => {
+                if (this.socket === socket) {
+                    socket.destroy();
+                    this.closed(socket, err);
+                }
+                reject(err);
+            }, 'Logon');
+
+            this.socket = socket;
+            socket.setEncoding('latin1');
+            socket.on(ready, () => this.sendLogon());
+            socket.on('data', (data: string) => this.receive(data));
+            socket.on('error', (err: Error) => {
+                failure = new FixSessionError(`session closed: ${err.message}`, { cause: err });
+                this.emitError(err);
+            });
+            socket.on('close', () => this.closed(socket, failure));
+        });
+    }
+
+    /**
+     * Logs out and closes the connection once the acceptor confirms (or does not answer in time).
+     *
+     * @param {string} reason
+     * @returns {Promise<void>}
+     */
+    public logout(reason?: string): Promise<void> {
+        if (this.socket === null) return Promise.resolve();
+
+        return new Promise<void>((resolve) => {
+            const done         = () => {
+                if (this.socket !== null) this.socket.end();
+                resolve();
+            };
+            this.logoutRequest = this.pending(0, done, done, 'Logout');
+            this.send(fixMessageTypes.Logout, reason === undefined ? [] : [[fixTags.Text, reason]]);
+        });
+    }
+
+    public isLoggedOn(): boolean {
+        return this.loggedOn;
+    }
+
+    /**
+     * The next sequence number to send, and the next one expected.  Pass them back as options to resume a session.
+     *
+     * @returns {{outgoing: number; incoming: number}}
+     */
+    public getSequenceNumbers(): { outgoing: number; incoming: number } {
+        return { incoming: this.incoming, outgoing: this.outgoing };
+    }
+
+    /**
+     * Sends a New Order Single.  Resolves with the order once the exchange acknowledges it, and rejects if the
+     * exchange or the session rejects it.  `client_oid` becomes the ClOrdID (one is generated if not given).
+     *
+     * @param {INewOrderParams} params
+     * @returns {Promise<IOrder>}
+     */
+    public placeOrder(params: INewOrderParams): Promise<IOrder> {
+        const clOrdId = params.client_oid === undefined ? uuid.v4() : params.client_oid;
+
+        return new Promise<IOrder>((resolve, reject) => {
+            const fields = toNewOrderSingle(params, clOrdId);
+            const seqNum = this.send(fixMessageTypes.NewOrderSingle, fields);
+
+            const settled = (order: IOrder | string) => resolve(order as IOrder);
+
+            this.orders.set(clOrdId, this.pending(seqNum, settled, reject, `order ${clOrdId}`));
+        });
+    }
+
+    /**
+     * Sends an Order Cancel Request.  Resolves with the order id once the exchange reports it canceled.
+     *
+     * @param {string} orderId
+     * @param {string} productId
+     * @returns {Promise<string>}
+     */
+    public cancelOrder(orderId: string, productId: string): Promise<string> {
+        const clOrdId = uuid.v4();
+
+        return new Promise<string>((resolve, reject) => {
+            const seqNum = this.send(fixMessageTypes.OrderCancelRequest, [
+                [fixTags.ClOrdID, clOrdId],
+                [fixTags.OrderID, orderId],
+                [fixTags.Symbol, productId],
+            ]);
+
+            const settled = (id: IOrder | string) => resolve(id as string);
+
+            this.cancels.set(orderId, this.pending(seqNum, settled, reject, `cancel of ${orderId}`));
+        });
+    }
+
+    /**
+     * Sends a message with the session header.  Returns its sequence number.
+     *
+     * @param {string} msgType
+     * @param {IFixField[]} fields
+     * @returns {number}
+     */
+    public send(msgType: string, fields: IFixField[]): number {
+        if (this.socket === null) throw new FixSessionError('session is not connected');
+
+        const seqNum      = this.outgoing++;
+        const sendingTime = fixTimestamp(new Date(this.now()));
+
+        if (adminTypes.indexOf(msgType) < 0) this.sent.set(seqNum, { fields, msgType, sendingTime });
+        this.write(msgType, seqNum, sendingTime, fields);
+
+        return seqNum;
+    }
+
+    private now(): number {
+        const clock = this.options.clock;
+
+        return clock === undefined || clock === null ? Date.now() : clock.now();
+    }
+
+    private write(msgType: string, seqNum: number, sendingTime: string, fields: IFixField[]): void {
+        const header: IFixField[] = [
+            [fixTags.MsgType, msgType],
+            [fixTags.SenderCompID, this.auth.publicKey],
+            [fixTags.TargetCompID, this.options.targetCompId],
+            [fixTags.MsgSeqNum, `${seqNum}`],
+            [fixTags.SendingTime, sendingTime],
+        ];
+
+        this.lastSent = Date.now();
+        this.socket.write(encodeFixMessage(header.concat(fields)), 'latin1');
+    }
+
+    /**
+     * The Logon is signed like a REST request, over its SendingTime, MsgType, MsgSeqNum, SenderCompID, TargetCompID
+     * and Password joined by SOH.
+     */
+    private sendLogon(): void {
+        const seqNum      = this.outgoing++;
+        const sendingTime = fixTimestamp(new Date(this.now()));
+        const prehash     = [sendingTime, fixMessageTypes.Logon, seqNum, this.auth.publicKey, this.options.targetCompId,
+                             this.auth.passphrase].join(separator);
+        const signature   = hmacDigest(this.auth.privateKey, prehash);
+        const fields: IFixField[] = [
+            [fixTags.EncryptMethod, '0'],
+            [fixTags.HeartBtInt, `${this.options.heartbeatInterval}`],
+            [fixTags.RawDataLength, `${signature.length}`],
+            [fixTags.RawData, signature],
+            [fixTags.Password, this.auth.passphrase],
+        ];
+
+        if (this.options.cancelOrdersOnDisconnect !== undefined) {
+            fields.push([fixTags.CancelOrdersOnDisconnect, this.options.cancelOrdersOnDisconnect ? 'Y' : 'N']);
+        }
+
+        this.write(fixMessageTypes.Logon, seqNum, sendingTime, fields);
+    }
+
+    private receive(data: string): void {
+        const { messages, rest } = splitFixMessages(this.buffer + data);
+
+        this.buffer          = rest;
+        this.lastReceived    = Date.now();
+        this.testRequestSent = 0;
+
+        for (const raw of messages) {
+            const message = decodeFixMessage(raw);
+            if (message !== undefined && this.socket !== null) this.sequence(message);
+        }
+    }
+
+    /**
+     * Checks a message's sequence number before handling it.  A gap is filled with a resend request, and the messages
+     * after it are dropped until the resent ones arrive; a sequence number lower than expected without PossDupFlag
+     * cannot be recovered from.
+     */
+    private sequence(message: IFixMessage): void {
+        const msgType = message[fixTags.MsgType];
+        const seqNum  = Number(message[fixTags.MsgSeqNum]);
+
+        if (msgType === fixMessageTypes.SequenceReset) {
+            this.incoming        = Math.max(this.incoming, Number(message[fixTags.NewSeqNo]));
+            this.resendRequested = false;
+            this.emit('message', message);
+
+            return;
+        }
+
+        if (seqNum > this.incoming) {
+            if (!this.resendRequested) {
+                this.resendRequested = true;
+                this.send(fixMessageTypes.ResendRequest, [
+                    [fixTags.BeginSeqNo, `${this.incoming}`],
+                    [fixTags.EndSeqNo, '0'],
+                ]);
+            }
+            // Logon, Logout and ResendRequest are acted on even out of sequence
+            if ([fixMessageTypes.Logon, fixMessageTypes.Logout, fixMessageTypes.ResendRequest].indexOf(msgType) >= 0) {
+                this.handle(message);
+            }
+
+            return;
+        }
+
+        if (seqNum < this.incoming) {
+            if (message[fixTags.PossDupFlag] !== 'Y') {
+                this.fail(new FixSessionError(`MsgSeqNum ${seqNum} is lower than expected ${this.incoming}`));
+            }
+
+            return;
+        }
+
+        this.incoming++;
+        if (this.resendRequested && message[fixTags.PossDupFlag] !== 'Y') this.resendRequested = false;
+        this.handle(message);
+    }
+
+    private handle(message: IFixMessage): void {
+        this.emit('message', message);
+
+        switch (message[fixTags.MsgType]) {
+            case fixMessageTypes.Logon:
+                this.loggedOn = true;
+                this.startHeartbeat();
+                this.settle(this.logonRequest, undefined);
+                this.logonRequest = null;
+                this.emit('loggedOn');
+                break;
+            case fixMessageTypes.Logout:
+                this.loggedOut(message);
+                break;
+            case fixMessageTypes.TestRequest:
+                this.send(fixMessageTypes.Heartbeat, [[fixTags.TestReqID, message[fixTags.TestReqID]]]);
+                break;
+            case fixMessageTypes.ResendRequest:
+                this.resend(Number(message[fixTags.BeginSeqNo]), Number(message[fixTags.EndSeqNo]));
+                break;
+            case fixMessageTypes.Reject:
+                this.rejected(message);
+                break;
+            case fixMessageTypes.ExecutionReport:
+                this.executionReport(message);
+                break;
+            case fixMessageTypes.OrderCancelReject:
+                this.cancelRejected(message);
+                break;
+            default:
+        }
+    }
+
+    private loggedOut(message: IFixMessage): void {
+        const text = message[fixTags.Text] === undefined ? 'logged out' : message[fixTags.Text];
+
+        if (this.logonRequest !== null) {
+            this.fail(new AuthenticationError(`logon rejected: ${text}`));
+
+            return;
+        }
+
+        if (this.logoutRequest === null) this.send(fixMessageTypes.Logout, []);
+        else this.settle(this.logoutRequest, undefined);
+
+        this.logoutRequest = null;
+        this.loggedOn      = false;
+        this.socket.end();
+    }
+
+    /**
+     * Answers a resend request: application messages are sent again with PossDupFlag, session messages are replaced
+     * by gap fills.
+     */
+    private resend(begin: number, end: number): void {
+        const last = end === 0 ? this.outgoing - 1 : Math.min(end, this.outgoing - 1);
+        let gapStart = 0;
+
+        const fillGap = (next: number) => {
+            if (gapStart === 0) return;
+
+            this.write(fixMessageTypes.SequenceReset, gapStart, fixTimestamp(new Date(this.now())), [
+                [fixTags.PossDupFlag, 'Y'],
+                [fixTags.GapFillFlag, 'Y'],
+                [fixTags.NewSeqNo, `${next}`],
+            ]);
+            gapStart = 0;
+        };
+
+        for (let seqNum = begin; seqNum <= last; seqNum++) {
+            const original = this.sent.get(seqNum);
+
+            if (original === undefined) {
+                if (gapStart === 0) gapStart = seqNum;
+                continue;
+            }
+
+            fillGap(seqNum);
+            this.write(original.msgType, seqNum, fixTimestamp(new Date(this.now())), [
+                [fixTags.PossDupFlag, 'Y'] as IFixField,
+                [fixTags.OrigSendingTime, original.sendingTime] as IFixField,
+            ].concat(original.fields));
+        }
+
+        fillGap(last + 1);
+    }
+
+    private rejected(message: IFixMessage): void {
+        const refSeqNum = Number(message[fixTags.RefSeqNum]);
+        const text      = message[fixTags.Text] === undefined ? 'message rejected' : message[fixTags.Text];
+
+        this.emit('reject', message);
+
+        for (const requests of [this.orders, this.cancels]) {
+            requests.forEach((request, key) => {
+                if (request.seqNum !== refSeqNum) return;
+
+                requests.delete(key);
+                this.settle(request, new FixSessionError(`message ${refSeqNum} rejected: ${text}`));
+            });
+        }
+    }
+
+    private executionReport(message: IFixMessage): void {
+        const orderId = message[fixTags.OrderID];
+        const report  = fromExecutionReport(message, this.totals.get(orderId));
+        const order   = this.orders.get(message[fixTags.ClOrdID]);
+        const cancel  = this.cancels.get(orderId);
+
+        if (report.order.status === 'done' || report.order.status === 'rejected') {
+            this.totals.delete(orderId);
+        } else {
+            this.totals.set(orderId, { fees: report.order.fill_fees, value: report.order.executed_value });
+        }
+
+        if (order !== undefined) {
+            this.orders.delete(message[fixTags.ClOrdID]);
+            this.settle(order, report.execType === 'rejected' ? this.orderRejection(report) : report.order);
+        }
+
+        if (cancel !== undefined && report.execType === 'canceled') {
+            this.cancels.delete(orderId);
+            this.settle(cancel, orderId);
+        }
+
+        this.emit('executionReport', report);
+    }
+
+    private orderRejection(report: IFixExecutionReport): Error {
+        const reason = report.reason === undefined ? 'order rejected' : report.reason;
+
+        return /insufficient funds/i.test(reason) ? new InsufficientFundsError(reason) : new ValidationError(reason);
+    }
+
+    private cancelRejected(message: IFixMessage): void {
+        const orderId = message[fixTags.OrderID];
+        const cancel  = this.cancels.get(orderId);
+        const text    = message[fixTags.Text] === undefined ? 'cancel rejected' : message[fixTags.Text];
+
+        if (cancel === undefined) return;
+
+        this.cancels.delete(orderId);
+        // CxlRejReason 1 is "unknown order"
+        const unknown = message[fixTags.CxlRejReason] === '1';
+        this.settle(cancel, unknown ? new NotFoundError(text) : new ValidationError(text));
+    }
+
+    /**
+     * Sends a heartbeat after a quiet interval, and a test request when the acceptor has been quiet for longer than
+     * that.  If the test request goes unanswered for another interval, the connection is considered dead.
+     */
+    private startHeartbeat(): void {
+        const second   = 1000;
+        const interval = this.options.heartbeatInterval * second;
+        //tslint:disable-next-line:no-magic-numbers
+        const check    = Math.min(interval / 4, second);
+
+        this.lastReceived   = Date.now();
+        this.heartbeatTimer = setInterval(() => {
+            const now = Date.now();
+
+            if (this.testRequestSent > 0 && now - this.testRequestSent > interval) {
+                this.fail(new TimeoutError('no answer to test request'));
+
+                return;
+            }
+            if (this.testRequestSent === 0 && now - this.lastReceived > interval + check) {
+                this.testRequestSent = now;
+                this.send(fixMessageTypes.TestRequest, [[fixTags.TestReqID, `${now}`]]);
+            }
+            if (now - this.lastSent >= interval) this.send(fixMessageTypes.Heartbeat, []);
+        }, check);
+    }
+
+    private pending(seqNum: number,
+                    resolve: (value: IOrder | string) => void,
+                    reject: (err: Error) => void,
+                    what: string): IPendingRequest {
+
+        const request: IPendingRequest = { reject, resolve, seqNum, timer: null };
+
+        request.timer = setTimeout(() => {
+            this.orders.forEach((candidate, key) => candidate === request && this.orders.delete(key));
+            this.cancels.forEach((candidate, key) => candidate === request && this.cancels.delete(key));
+            reject(new TimeoutError(`no answer to ${what} within ${this.options.responseTimeout} ms`));
+        }, this.options.responseTimeout);
+
+        return request;
+    }
+
+    private settle(request: IPendingRequest, outcome: IOrder | string | Error): void {
+        if (request === null) return;
+
+        clearTimeout(request.timer);
+        if (outcome instanceof Error) request.reject(outcome);
+        else request.resolve(outcome);
+    }
+
+    /**
+     * Ends the session on an unrecoverable error.
+     */
+    private fail(err: Error): void {
+        this.emitError(err);
+        if (this.socket !== null) this.socket.destroy();
+        this.closed(this.socket, err);
+    }
+
+    private closed(socket: net.Socket, err?: Error): void {
+        if (socket === null || socket !== this.socket) return;
+
+        const cause = err === undefined ? new FixSessionError('session closed') : err;
+
+        clearInterval(this.heartbeatTimer);
+        this.heartbeatTimer  = null;
+        this.socket          = null;
+        this.buffer          = '';
+        this.loggedOn        = false;
+        this.resendRequested = false;
+        this.testRequestSent = 0;
+
+        this.settle(this.logonRequest, cause);
+        this.settle(this.logoutRequest, undefined);
+        this.orders.forEach((request) => this.settle(request, cause));
+        this.cancels.forEach((request) => this.settle(request, cause));
+        this.logonRequest  = null;
+        this.logoutRequest = null;
+        this.orders.clear();
+        this.cancels.clear();
+
+        this.emit('disconnected');
+    }
+
+    private emitError(err: Error): void {
+        if (this.listenerCount('error') > 0) this.emit('error', err);
+    }
+}
+
+/**
+ * Factory function to get a FIX 4.2 order-entry session, logging on with the same API keys as the REST client.
+ *
+ * @param {IApiAuth} auth
+ * @param {IFixSessionOptions} options
+ * @returns {IFixSession}
+ */
+export const getFixSession = (auth: IApiAuth, options?: IFixSessionOptions): IFixSession =>
+    new FixSession(auth, options);
@@ -0,0 +1,346 @@
+import { EventEmitter } from 'events';
+import { IGdaxClient } from '../index';
+import { toDecimal, Decimal, DecimalInput } from './decimal';
+import { ValidationError } from './errors';
+import { IFunding, IMarginTransfer, IPosition } from './models';
+import { getPaginator } from './pagination';
+
+/**
+ * A margin profile valued in the quote currency of its product.  `assets` is every balance (borrowed funds included),
+ * `funding` what is still owed (outstanding funding less repayments), `equity` the difference and `marginRatio` the
+ * share of the assets that is equity: 1 without funding, 0 when the funding is worth everything held.  `fundings`
+ * lists the outstanding funding records, oldest first.
+ */
+export type IMarginStatus = {
+    time: string;
+    productId: string;
+    quoteCurrency: string;
+    price: Decimal;
+    assets: Decimal;
+    funding: Decimal;
+    equity: Decimal;
+    marginRatio: Decimal;
+    marginCall: boolean;
+    fundings: IFunding[];
+    position: IPosition;
+};
+
+/**
+ * A warning that the margin ratio fell to or below one of the thresholds.
+ */
+export type IMarginWarning = { threshold: number; status: IMarginStatus };
+
+/**
+ * A repayment made by the monitor.
+ */
+export type IMarginRepayment = { currency: string; amount: Decimal; funding: IFunding };
+
+/**
+ * When the margin ratio falls below `below`, repay the oldest outstanding funding from the free balance of its
+ * currency.
+ */
+export type IAutoRepayOptions = { below: number };
+
+/**
+ * When the margin ratio falls below `below`, move enough `currency` (the product's base or quote currency) from the
+ * default profile to bring it back to `target` (at least `below`, less than 1), but no more than `maxAmount` at a
+ * time.  Transfers are made with `client`, which must use the default profile's API key (by default, the monitor's
+ * client).
+ */
+export type IAutoTransferOptions = {
+    below: number;
+    target: number;
+    currency: string;
+    maxAmount: DecimalInput;
+    client?: IGdaxClient;
+};
+
+/**
+ * Margin monitor options.  The profile is checked every `interval` ms.  A 'warning' is emitted each time the margin
+ * ratio falls to or below one of the `thresholds`, and again only after it has recovered above it.
+ */
+export type IMarginMonitorOptions = {
+    interval?: number;
+    thresholds?: number[];
+    autoRepay?: IAutoRepayOptions;
+    autoTransfer?: IAutoTransferOptions;
+};
+
+/**
+ * Watches a margin profile.
+ *
+ * Events: 'status' (IMarginStatus) after every check, 'warning' (IMarginWarning), 'marginCall' (IMarginStatus) when a
+ * margin call becomes active, 'repaid' (IMarginRepayment) and 'transferred' (IMarginTransfer) for automatic actions,
+ * and 'error' (only when someone is listening for it) for checks and actions that failed.
+ */
+export interface IMarginMonitor {
+    start(): Promise<IMarginStatus>;
+
+    stop(): void;
+
+    check(): Promise<IMarginStatus>;
+
+    getStatus(): IMarginStatus;
+
+    on(event: 'status' | 'marginCall', listener: (status: IMarginStatus) => void): this;
+    on(event: 'warning', listener: (warning: IMarginWarning) => void): this;
+    on(event: 'repaid', listener: (repayment: IMarginRepayment) => void): this;
+    on(event: 'transferred', listener: (transfer: IMarginTransfer) => void): this;
+    on(event: 'error', listener: (err: Error) => void): this;
+}
+
+/**
+ * Default monitor options.
+ */
+const defaultMarginConfig = {
+    interval  : 60000,
+    //tslint:disable-next-line:no-magic-numbers
+    thresholds: [0.5, 0.4, 0.3],
+};
+
+const zero = toDecimal('0');
+
+const one = toDecimal('1');
+
+/**
+ * Values a margin profile.  Balances and funding in the base currency are priced at `price`; other currencies than
+ * the product's two are left out.
+ *
+ * @param {IPosition} position
+ * @param {IFunding[]} fundings outstanding funding records
+ * @param {DecimalInput} price the product's price
+ * @returns {IMarginStatus}
+ */
+export const valueMarginPosition = (position: IPosition, fundings: IFunding[], price: DecimalInput): IMarginStatus => {
+    const [base, quote] = position.product_id.split('-');
+    const value         = toDecimal(price);
+    const inQuote       = (currency: string, amount: DecimalInput): Decimal =>
+        currency === quote ? toDecimal(amount) : currency === base ? value.times(amount) : zero;
+
+    const balances = Object.keys(position.accounts)
+                           .map((currency) => inQuote(currency, position.accounts[currency].balance));
+    const owed     = fundings.slice().sort((a, b) => a.created_at < b.created_at ? -1 : 1);
+    const debts    = owed.map((record) => inQuote(record.currency,
+                                                  toDecimal(record.amount).minus(record.repaid_amount)));
+    const assets   = balances.reduce((total, balance) => total.plus(balance), zero);
+    const funding  = debts.reduce((total, debt) => total.plus(debt), zero);
+    const equity   = assets.minus(funding);
+
+    return {
+        assets,
+        equity,
+        funding,
+        fundings     : owed,
+        marginCall   : position.margin_call !== undefined && position.margin_call.active === true,
+        marginRatio  : assets.isZero() ? (funding.isZero() ? one : zero) : Decimal.max(equity.dividedBy(assets), zero),
+        position,
+        price        : value,
+        productId    : position.product_id,
+        quoteCurrency: quote,
+        time         : new Date().toISOString(),
+    };
+};
+
+class MarginMonitor extends EventEmitter implements IMarginMonitor {
+
+    private client: IGdaxClient;
+    private options: IMarginMonitorOptions;
+    private status: IMarginStatus = null;
+    private crossed: Set<number> = new Set();
+    private timer: NodeJS.Timer = null;
+    private checking: Promise<IMarginStatus> = null;
+
+    constructor(client: IGdaxClient, options?: IMarginMonitorOptions) {
+        super();
+        this.client  = client;
+        this.options = { ...defaultMarginConfig, ...options };
+    }
+
+    /**
+     * Checks the profile, then keeps checking it every interval.
+     *
+     * @returns {Promise<IMarginStatus>}
+     */
+    public async start(): Promise<IMarginStatus> {
+        const status = await this.check();
+
+        if (this.timer === null) {
+            this.timer = setInterval(() => {
+                this.check().catch((err: Error) => this.emitError(err));
+            }, this.options.interval);
+        }
+
+        return status;
+    }
+
+    public stop(): void {
+        clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    /**
+     * Values the profile, emits warnings and takes the automatic actions that are due.  The status returned is the
+     * one after those actions.  Checks do not overlap: a check asked for while one is running gets its result.
+     *
+     * @returns {Promise<IMarginStatus>}
+     */
+    public check(): Promise<IMarginStatus> {
+        if (this.checking === null) {
+            const done    = () => { this.checking = null; };
+            this.checking = this.run();
+            this.checking.then(done, done);
+        }
+
+        return this.checking;
+    }
+
+    public getStatus(): IMarginStatus {
+        return this.status;
+    }
+
+    private async run(): Promise<IMarginStatus> {
+        let status = await this.fetch();
+        this.report(status);
+
+        const { autoRepay, autoTransfer } = this.options;
+
+        if (autoRepay !== undefined && status.marginRatio.lessThan(autoRepay.below) &&
+            await this.act(() => this.repayOldest(status))) {
+            status = await this.fetch();
+            this.report(status);
+        }
+
+        if (autoTransfer !== undefined && status.marginRatio.lessThan(autoTransfer.below) &&
+            await this.act(() => this.transferCollateral(status, autoTransfer))) {
+            status = await this.fetch();
+            this.report(status);
+        }
+
+        return status;
+    }
+
+    private async fetch(): Promise<IMarginStatus> {
+        const position = (await this.client.getPosition()).data;
+        const fundings: IFunding[] = [];
+
+        for await (const funding of getPaginator(this.client).funding({ status: ['outstanding'] })) {
+            fundings.push(funding);
+        }
+
+        const ticker = (await this.client.getProductTicker(position.product_id)).data;
+
+        return valueMarginPosition(position, fundings, ticker.price);
+    }
+
+    /**
+     * Takes in a new status: emits it, and the warnings and margin call it brings.
+     */
+    private report(status: IMarginStatus): void {
+        const previous = this.status;
+        this.status    = status;
+        this.emit('status', status);
+
+        for (const threshold of this.options.thresholds.slice().sort((a, b) => b - a)) {
+            if (status.marginRatio.greaterThan(threshold)) {
+                this.crossed.delete(threshold);
+            } else if (!this.crossed.has(threshold)) {
+                this.crossed.add(threshold);
+                this.emit('warning', { status, threshold });
+            }
+        }
+
+        if (status.marginCall && (previous === null || !previous.marginCall)) this.emit('marginCall', status);
+    }
+
+    /**
+     * Runs an automatic action.  Returns whether it did anything; failures are emitted, not thrown, so that one failed
+     * action does not stop the monitor.
+     */
+    private async act(action: () => Promise<boolean>): Promise<boolean> {
+        try {
+            return await action();
+        } catch (err) {
+            this.emitError(err);
+
+            return false;
+        }
+    }
+
+    /**
+     * Repays as much of the oldest outstanding funding as the free balance of its currency allows.
+     */
+    private async repayOldest(status: IMarginStatus): Promise<boolean> {
+        const funding = status.fundings[0];
+        if (funding === undefined) return false;
+
+        const account   = status.position.accounts[funding.currency];
+        const available = account === undefined ? zero : toDecimal(account.balance).minus(account.hold);
+        const amount    = Decimal.min(toDecimal(funding.amount).minus(funding.repaid_amount), available);
+
+        if (!amount.greaterThan(0)) return false;
+
+        await this.client.repay({ amount, currency: funding.currency });
+        this.emit('repaid', { amount, currency: funding.currency, funding });
+
+        return true;
+    }
+
+    /**
+     * Deposits what it takes to bring the margin ratio to the target: with assets A and equity E, a deposit worth D
+     * gives (E + D) / (A + D), so D = (target * A - E) / (1 - target).  Only the product's currencies count towards
+     * the ratio, so no other is transferred.
+     */
+    private async transferCollateral(status: IMarginStatus, options: IAutoTransferOptions): Promise<boolean> {
+        const { assets, equity, price, productId, quoteCurrency } = status;
+        const baseCurrency                                         = productId.split('-')[0];
+
+        if (options.currency !== baseCurrency && options.currency !== quoteCurrency) {
+            throw new ValidationError(`cannot transfer ${options.currency} collateral to a ${productId} profile`);
+        }
+
+        const value  = assets.times(options.target).minus(equity).dividedBy(one.minus(options.target));
+        const needed = options.currency === quoteCurrency ? value : value.dividedBy(price);
+        //tslint:disable-next-line:no-magic-numbers
+        const amount = Decimal.min(needed, options.maxAmount).toDecimalPlaces(8, Decimal.ROUND_UP);
+
+        if (!amount.greaterThan(0)) return false;
+
+        const client   = options.client === undefined ? this.client : options.client;
+        const transfer = (await client.transferMarginFunds({
+            amount,
+            currency         : options.currency,
+            margin_profile_id: status.position.profile_id,
+            type             : 'deposit',
+        })).data;
+
+        this.emit('transferred', transfer);
+
+        return true;
+    }
+
+    private emitError(err: Error): void {
+        if (this.listenerCount('error') > 0) this.emit('error', err);
+    }
+}
+
+/**
+ * Factory function to get a margin monitor.  Its client must use the margin profile's API key.
+ *
+ * @param {IGdaxClient} client
+ * @param {IMarginMonitorOptions} options
+ * @returns {IMarginMonitor}
+ */
+export const getMarginMonitor = (client: IGdaxClient, options?: IMarginMonitorOptions): IMarginMonitor => {
+    const autoTransfer = options === undefined ? undefined : options.autoTransfer;
+
+    if (autoTransfer !== undefined) {
+        if (!(autoTransfer.target > 0 && autoTransfer.target < 1)) {
+            throw new ValidationError('autoTransfer.target must be between 0 and 1');
+        }
+        if (!(autoTransfer.below <= autoTransfer.target)) {
+            throw new ValidationError('autoTransfer.below must not be above autoTransfer.target');
+        }
+    }
+
+    return new MarginMonitor(client, options);
+};
@@ -0,0 +1,958 @@
+import * as uuid from 'uuid';
+import { Decimal } from './decimal';
+import { InsufficientFundsError, NotFoundError, ValidationError } from './errors';
+import {
+    IAccount,
+    IFill,
+    IHold,
+    ILedgerEntry,
+    IOrder,
+    IProduct,
+    ITrade,
+    LedgerEntryType,
+} from './models';
+
+/**
+ * Fee rates applied to the quote amount of every fill.
+ */
+export type IFeeSchedule = { maker: number; taker: number };
+
+export type IMatchingEngineOptions = { products?: IProduct[]; fees?: IFeeSchedule };
+
+/**
+ * An order as submitted to the engine.  Mirrors the REST order parameters; amounts may also be numbers, as the engine
+ * itself simulates in floating point.
+ */
+export type IEngineOrderRequest = {
+    client_oid?: string;
+    type?: string;
+    side: string;
+    product_id: string;
+    stp?: string;
+    price?: Decimal.Value;
+    size?: Decimal.Value;
+    funds?: Decimal.Value;
+    time_in_force?: string;
+    cancel_after?: string;
+    post_only?: boolean;
+};
+
+/**
+ * Default products.
+ */
+export const defaultMockProducts: IProduct[] = [
+    {
+        base_currency  : 'BTC',
+        base_max_size  : '250',
+        base_min_size  : '0.001',
+        display_name   : 'BTC/USD',
+        id             : 'BTC-USD',
+        quote_currency : 'USD',
+        quote_increment: '0.01',
+        status         : 'online',
+    },
+    {
+        base_currency  : 'ETH',
+        base_max_size  : '5000',
+        base_min_size  : '0.01',
+        display_name   : 'ETH/USD',
+        id             : 'ETH-USD',
+        quote_currency : 'USD',
+        quote_increment: '0.01',
+        status         : 'online',
+    },
+    {
+        base_currency  : 'ETH',
+        base_max_size  : '5000',
+        base_min_size  : '0.01',
+        display_name   : 'ETH/BTC',
+        id             : 'ETH-BTC',
+        quote_currency : 'BTC',
+        quote_increment: '0.00001',
+        status         : 'online',
+    },
+    {
+        base_currency  : 'LTC',
+        base_max_size  : '10000',
+        base_min_size  : '0.1',
+        display_name   : 'LTC/USD',
+        id             : 'LTC-USD',
+        quote_currency : 'USD',
+        quote_increment: '0.01',
+        status         : 'online',
+    },
+];
+
+/**
+ * Default fees (GDAX's published base tier).
+ */
+const defaultFees: IFeeSchedule = { maker: 0, taker: 0.0025 };
+
+/**
+ * Default page size of paginated listings.
+ */
+const defaultPageSize = 100;
+
+/**
+ * A page of a newest-first listing and the cursors for the CB-BEFORE/CB-AFTER headers.
+ */
+export type IEnginePage<T> = { items: T[]; before?: string; after?: string };
+
+export type IEnginePageParams = { before?: string | number; after?: string | number; limit?: string | number };
+
+/**
+ * Amounts are kept as numbers internally and rounded to this many decimals.
+ */
+const precision = 8;
+
+const round = (value: number): number => parseFloat(value.toFixed(precision));
+
+const format = (value: number): string => value.toFixed(precision);
+
+/**
+ * Time-in-force expiry windows for GTT orders.
+ */
+const cancelAfterMs: { [window: string]: number } = {
+    day : 86400000,
+    hour: 3600000,
+    min : 60000,
+};
+
+/**
+ * Selects a page of newest-first `entries` the way GDAX does: `after` pages towards older entries, `before` towards
+ * newer ones.
+ *
+ * @param {Array<{cursor: number; value: T}>} entries
+ * @param {IEnginePageParams} params
+ * @returns {IEnginePage<T>}
+ */
+export const getPage = <T>(entries: Array<{ cursor: number; value: T }>, params: IEnginePageParams = {}):
+    IEnginePage<T> => {
+
+    const limit  = params.limit === undefined ? defaultPageSize : Number(params.limit);
+    const before = params.before === undefined ? undefined : Number(params.before);
+    const after  = params.after === undefined ? undefined : Number(params.after);
+
+    const page = before !== undefined ?
+                 entries.filter((entry) => entry.cursor > before).slice(-limit) :
+                 entries.filter((entry) => after === undefined || entry.cursor < after).slice(0, limit);
+
+    if (page.length === 0) return { items: [] };
+
+    return {
+        after : `${page[page.length - 1].cursor}`,
+        before: `${page[0].cursor}`,
+        items : page.map(({ value }) => value),
+    };
+};
+
+type IAccountRecord = {
+    id: string;
+    currency: string;
+    balance: number;
+    hold: number;
+    ledger: Array<{ cursor: number; entry: ILedgerEntry }>;
+};
+
+type IHoldRecord = { cursor: number; hold: IHold; amount: number; account: IAccountRecord };
+
+type IProfile = { id: string; unlimited: boolean; accounts: Map<string, IAccountRecord> };
+
+type IOrderRecord = {
+    cursor: number;
+    order: IOrder;
+    profile: IProfile;
+    price: number;
+    remaining: number;
+    funds?: number;
+    hold?: IHoldRecord;
+    expiresAt?: number;
+};
+
+type IFillRecord = { cursor: number; profileId: string; fill: IFill };
+
+/**
+ * A price-time priority matching engine with per-profile balances, holds, ledgers and fills.  Backs the mock
+ * exchange; everything is kept in memory.
+ */
+export class MatchingEngine {
+
+    public products: IProduct[];
+    public fees: IFeeSchedule;
+    public sequence: number = 0;
+
+    private cursor: number = 0;
+    private tradeId: number = 0;
+    private profiles: Map<string, IProfile> = new Map();
+    private orders: Map<string, IOrderRecord> = new Map();
+    private books: Map<string, { bids: IOrderRecord[]; asks: IOrderRecord[] }> = new Map();
+    private trades: Map<string, ITrade[]> = new Map();
+    private fills: IFillRecord[] = [];
+
+    constructor(options: IMatchingEngineOptions = {}) {
+        this.products = options.products === undefined ? defaultMockProducts : options.products;
+        this.fees     = { ...defaultFees, ...options.fees };
+
+        for (const product of this.products) {
+            this.books.set(product.id, { asks: [], bids: [] });
+            this.trades.set(product.id, []);
+        }
+    }
+
+    /**
+     * Creates a profile.  Unlimited profiles (used for seeding liquidity) skip all balance checks and accounting.
+     *
+     * @param {boolean} unlimited
+     * @returns {string} the profile id
+     */
+    public createProfile(unlimited: boolean = false): string {
+        const profile = { accounts: new Map(), id: uuid.v4(), unlimited };
+        this.profiles.set(profile.id, profile);
+
+        for (const currency of this.getCurrencies()) this.account(profile, currency);
+
+        return profile.id;
+    }
+
+    public getCurrencies(): string[] {
+        const currencies = new Set<string>();
+        this.products.forEach((product) => currencies.add(product.base_currency).add(product.quote_currency));
+
+        return Array.from(currencies);
+    }
+
+    public getProduct(productId: string): IProduct {
+        const product = this.products.find((candidate) => candidate.id === productId);
+        if (product === undefined) throw new ValidationError(`Invalid product_id`);
+
+        return product;
+    }
+
+    /**
+     * Moves funds in (positive) or out (negative) of an account, recording a transfer in the ledger.
+     *
+     * @param {string} profileId
+     * @param {string} currency
+     * @param {number} amount
+     * @param {string} transferType
+     * @returns {string} the transfer id
+     */
+    public transfer(profileId: string, currency: string, amount: number, transferType?: string): string {
+        const account = this.account(this.profile(profileId), currency);
+
+        if (amount < 0 && account.balance - account.hold < -amount) {
+            throw new InsufficientFundsError('Insufficient funds');
+        }
+
+        const transferId = uuid.v4();
+        const type       = transferType === undefined ? (amount < 0 ? 'withdraw' : 'deposit') : transferType;
+        this.post(account, amount, 'transfer', { transfer_id: transferId, transfer_type: type });
+
+        return transferId;
+    }
+
+    public listAccounts(profileId: string): IAccount[] {
+        const profile = this.profile(profileId);
+
+        return Array.from(profile.accounts.values()).map((account) => this.renderAccount(profile, account));
+    }
+
+    public getAccount(profileId: string, accountId: string): IAccount {
+        const profile = this.profile(profileId);
+
+        return this.renderAccount(profile, this.accountById(profile, accountId));
+    }
+
+    /**
+     * Ledger entries, newest first, with their pagination cursors.
+     */
+    public getLedger(profileId: string, accountId: string): Array<{ cursor: number; entry: ILedgerEntry }> {
+        return this.accountById(this.profile(profileId), accountId).ledger.slice().reverse();
+    }
+
+    /**
+     * Active holds, newest first, with their pagination cursors.
+     */
+    public getHolds(profileId: string, accountId: string): Array<{ cursor: number; hold: IHold }> {
+        const account = this.accountById(this.profile(profileId), accountId);
+
+        return Array.from(this.orders.values())
+                    .filter((record) => record.hold !== undefined && record.hold.account === account)
+                    .filter((record) => ['open', 'pending', 'active'].indexOf(record.order.status) >= 0)
+                    .map((record) => ({
+                        cursor: record.hold.cursor,
+                        hold  : { ...record.hold.hold, amount: format(record.hold.amount) },
+                    }))
+                    .reverse();
+    }
+
+    /**
+     * Orders of a profile, newest first, optionally filtered by status ('all' matches everything) and product.
+     */
+    public listOrders(profileId: string,
+                      statuses: string[],
+                      productId?: string): Array<{ cursor: number; order: IOrder }> {
+        this.expireOrders();
+
+        const all = statuses.indexOf('all') >= 0;
+
+        return Array.from(this.orders.values())
+                    .filter((record) => record.profile.id === profileId)
+                    .filter((record) => all || statuses.indexOf(record.order.status) >= 0)
+                    .filter((record) => productId === undefined || record.order.product_id === productId)
+                    .map((record) => ({ cursor: record.cursor, order: { ...record.order } }))
+                    .reverse();
+    }
+
+    /**
+     * Looks an order up by id, or by client_oid with the 'client:' prefix.
+     */
+    public getOrder(profileId: string, orderId: string): IOrder {
+        this.expireOrders();
+
+        return { ...this.orderRecord(profileId, orderId).order };
+    }
+
+    public listFills(profileId: string, orderId?: string, productId?: string): Array<{ cursor: number; fill: IFill }> {
+        return this.fills.filter((record) => record.profileId === profileId)
+                         .filter((record) => orderId === undefined || record.fill.order_id === orderId)
+                         .filter((record) => productId === undefined || record.fill.product_id === productId)
+                         .map((record) => ({ cursor: record.cursor, fill: { ...record.fill } }))
+                         .reverse();
+    }
+
+    /**
+     * Trades for a product, newest first.
+     */
+    public getTrades(productId: string): ITrade[] {
+        this.getProduct(productId);
+
+        return this.trades.get(productId).slice().reverse();
+    }
+
+    /**
+     * Resting orders of one side, best first.
+     */
+    public getBookSide(productId: string, side: 'bids' | 'asks'): Array<{ price: number; size: number; id: string }> {
+        this.getProduct(productId);
+        this.expireOrders();
+
+        return this.books.get(productId)[side].map((record) => ({
+            id   : record.order.id,
+            price: record.price,
+            size : record.remaining,
+        }));
+    }
+
+    /**
+     * Accepts an order, matches it, and rests any remainder.  Fill-or-kill orders the book cannot fill entirely are
+     * canceled without trading.  Stop orders wait, 'active', until a trade reaches their price; they are then matched
+     * like market orders.
+     *
+     * @param {string} profileId
+     * @param {IEngineOrderRequest} request
+     * @returns {IOrder}
+     */
+    public placeOrder(profileId: string, request: IEngineOrderRequest): IOrder {
+        this.expireOrders();
+
+        const profile = this.profile(profileId);
+        const product = this.getProduct(request.product_id);
+        const record  = this.createOrder(profile, product, request);
+
+        const order   = record.order;
+
+        if (order.status === 'rejected') return { ...order };
+
+        if (order.type === 'stop') {
+            order.status = 'active';
+
+            return { ...order };
+        }
+
+        if (order.time_in_force === 'FOK' && !this.canFill(record)) {
+            this.finish(record, 'canceled');
+
+            return { ...order };
+        }
+
+        this.match(record, product);
+
+        const rests = record.remaining > 0 && order.type === 'limit' &&
+                      ['GTC', 'GTT'].indexOf(order.time_in_force) >= 0;
+
+        if (rests && order.status !== 'done') {
+            order.status = 'open';
+            this.rest(record);
+        } else {
+            this.complete(record);
+        }
+
+        this.triggerStops(product);
+
+        return { ...order };
+    }
+
+    /**
+     * Cancels an open order or a stop order that has not triggered.  Like on GDAX, an order canceled without any fills
+     * is purged.
+     *
+     * @param {string} profileId
+     * @param {string} orderId
+     * @returns {string} the id of the canceled order
+     */
+    public cancelOrder(profileId: string, orderId: string): string {
+        this.expireOrders();
+
+        const record = this.orderRecord(profileId, orderId);
+        if (['open', 'active'].indexOf(record.order.status) < 0) throw new ValidationError('Order already done');
+
+        this.unrest(record);
+        this.finish(record, 'canceled');
+
+        if (record.order.filled_size === format(0)) this.orders.delete(record.order.id);
+
+        return record.order.id;
+    }
+
+    public cancelAll(profileId: string, productId?: string): string[] {
+        const open = this.listOrders(profileId, ['open'], productId);
+
+        return open.map(({ order }) => this.cancelOrder(profileId, order.id));
+    }
+
+    /**
+     * Forgets the done orders of a profile, and their fills, so that a profile that only stands in for a market does
+     * not grow without bound.
+     *
+     * @param {string} profileId
+     * @param {string} productId
+     */
+    public purgeDone(profileId: string, productId?: string): void {
+        const done = this.listOrders(profileId, ['done'], productId).map(({ order }) => order.id);
+
+        done.forEach((orderId) => this.orders.delete(orderId));
+        this.fills = this.fills.filter((record) => record.profileId !== profileId ||
+                                                   done.indexOf(record.fill.order_id) < 0);
+    }
+
+    /**
+     * Forgets the trades of a product, for engines whose trade history is never read.  Stop orders will not see
+     * the forgotten trades.
+     *
+     * @param {string} productId
+     */
+    public purgeTrades(productId: string): void {
+        this.getProduct(productId);
+        this.trades.set(productId, []);
+    }
+
+    private profile(profileId: string): IProfile {
+        const profile = this.profiles.get(profileId);
+        if (profile === undefined) throw new ValidationError(`Unknown profile ${profileId}`);
+
+        return profile;
+    }
+
+    private account(profile: IProfile, currency: string): IAccountRecord {
+        if (!profile.accounts.has(currency)) {
+            profile.accounts.set(currency, { balance: 0, currency, hold: 0, id: uuid.v4(), ledger: [] });
+        }
+
+        return profile.accounts.get(currency);
+    }
+
+    private accountById(profile: IProfile, accountId: string): IAccountRecord {
+        const account = Array.from(profile.accounts.values()).find((candidate) => candidate.id === accountId);
+        if (account === undefined) throw new NotFoundError('Account not found');
+
+        return account;
+    }
+
+    private orderRecord(profileId: string, orderId: string): IOrderRecord {
+        const clientOid = orderId.indexOf('client:') === 0 ? orderId.slice('client:'.length) : undefined;
+        const record    = clientOid === undefined ?
+                          this.orders.get(orderId) :
+                          Array.from(this.orders.values())
+                               .find((candidate) => candidate.order.client_oid === clientOid);
+
+        if (record === undefined || record.profile.id !== profileId) throw new NotFoundError('NotFound');
+
+        return record;
+    }
+
+    private renderAccount(profile: IProfile, account: IAccountRecord): IAccount {
+        return {
+            available : format(account.balance - account.hold),
+            balance   : format(account.balance),
+            currency  : account.currency,
+            hold      : format(account.hold),
+            id        : account.id,
+            profile_id: profile.id,
+        };
+    }
+
+    /**
+     * Changes a balance and appends the matching ledger entry.
+     */
+    private post(account: IAccountRecord,
+                 amount: number,
+                 type: LedgerEntryType,
+                 details: ILedgerEntry['details']): void {
+        account.balance = round(account.balance + amount);
+
+        const cursor = ++this.cursor;
+        const entry  = {
+            amount    : format(amount),
+            balance   : format(account.balance),
+            created_at: new Date().toISOString(),
+            details,
+            id        : `${cursor}`,
+            type,
+        };
+
+        account.ledger.push({ cursor, entry });
+    }
+
+    private placeHold(record: IOrderRecord, account: IAccountRecord, amount: number): void {
+        if (record.profile.unlimited) return;
+
+        if (round(account.balance - account.hold) < round(amount)) {
+            throw new InsufficientFundsError('Insufficient funds');
+        }
+
+        const now    = new Date().toISOString();
+        account.hold = round(account.hold + amount);
+        record.hold  = {
+            account,
+            amount,
+            cursor: ++this.cursor,
+            hold  : {
+                account_id: account.id,
+                amount    : format(amount),
+                created_at: now,
+                id        : uuid.v4(),
+                ref       : record.order.id,
+                type      : 'order',
+                updated_at: now,
+            },
+        };
+    }
+
+    private releaseHold(record: IOrderRecord, amount: number): void {
+        if (record.hold === undefined) return;
+
+        const released              = Math.min(amount, record.hold.amount);
+        record.hold.amount          = round(record.hold.amount - released);
+        record.hold.account.hold    = round(record.hold.account.hold - released);
+        record.hold.hold.updated_at = new Date().toISOString();
+    }
+
+    /**
+     * Validates a request and builds the order record, placing the hold for limit orders and funds-based market
+     * buys.  Post-only orders that would take liquidity are returned as rejected.
+     */
+    private createOrder(profile: IProfile, product: IProduct, request: IEngineOrderRequest): IOrderRecord {
+        const type  = request.type === undefined ? 'limit' : request.type;
+        const price = request.price === undefined ? 0 : parseFloat(`${request.price}`);
+        const size  = request.size === undefined ? 0 : parseFloat(`${request.size}`);
+        const funds = request.funds === undefined ? undefined : parseFloat(`${request.funds}`);
+        const tif   = request.time_in_force === undefined ? 'GTC' : request.time_in_force;
+
+        if (['buy', 'sell'].indexOf(request.side) < 0) throw new ValidationError('Invalid side');
+        if (['limit', 'market', 'stop'].indexOf(type) < 0) throw new ValidationError(`Invalid order type ${type}`);
+        if (type !== 'market') this.checkPrice(product, price, profile.unlimited);
+        if (funds === undefined || type === 'limit') this.checkSize(product, size, profile.unlimited);
+        if (funds !== undefined && !(funds > 0)) throw new ValidationError('Invalid funds');
+
+        const order = this.newOrder(product, request, type);
+
+        if (type === 'limit') {
+            order.price         = format(price);
+            order.time_in_force = tif;
+        }
+        if (size > 0) order.size = format(size);
+        if (funds !== undefined) order.funds = order.specified_funds = format(funds);
+
+        const record: IOrderRecord = { cursor: ++this.cursor, funds, order, price, profile, remaining: size };
+
+        if (tif === 'GTT') {
+            const window = request.cancel_after === undefined ? 'day' : request.cancel_after;
+            record.expiresAt = Date.now() + cancelAfterMs[window];
+        }
+
+        if (order.post_only && this.wouldTake(record)) {
+            order.status      = 'rejected';
+            order.done_reason = 'post only';
+
+            return record;
+        }
+
+        this.holdFor(record, product);
+        this.orders.set(order.id, record);
+
+        return record;
+    }
+
+    /**
+     * Places the hold of a new order: its size for sells, its price (plus taker fees) for limit buys and its funds for
+     * funds-based market buys.
+     */
+    private holdFor(record: IOrderRecord, product: IProduct): void {
+        const { order, funds, price, profile, remaining } = record;
+        const base                                        = this.account(profile, product.base_currency);
+        const quote                                       = this.account(profile, product.quote_currency);
+
+        const cost                                        = round(price * remaining * (1 + this.fees.taker));
+
+        if (order.side === 'sell') this.placeHold(record, base, remaining);
+        else if (order.type === 'limit') this.placeHold(record, quote, cost);
+        else if (funds !== undefined) this.placeHold(record, quote, funds);
+    }
+
+    /**
+     * The order as first reported, before amounts are filled in.  Unknown self-trade prevention flags are refused.
+     */
+    private newOrder(product: IProduct, request: IEngineOrderRequest, type: string): IOrder {
+        const stp = request.stp === undefined ? 'dc' : request.stp;
+        if (['dc', 'co', 'cn', 'cb'].indexOf(stp) < 0) throw new ValidationError(`Invalid stp ${stp}`);
+
+        const order: IOrder = {
+            created_at    : new Date().toISOString(),
+            executed_value: format(0),
+            fill_fees     : format(0),
+            filled_size   : format(0),
+            id            : uuid.v4(),
+            post_only     : request.post_only === true,
+            product_id    : product.id,
+            settled       : false,
+            side          : request.side,
+            status        : 'pending',
+            stp,
+            type,
+        };
+
+        if (request.client_oid !== undefined) order.client_oid = request.client_oid;
+        if (type === 'stop') order.stop_price = format(parseFloat(`${request.price}`));
+
+        return order;
+    }
+
+    /**
+     * Unlimited profiles may use any positive amount, e.g. to mirror aggregated book levels.
+     */
+    private checkSize(product: IProduct, size: number, anySize: boolean): void {
+        if (!(size > 0)) throw new ValidationError('Invalid size');
+        if (anySize) return;
+        if (size < parseFloat(product.base_min_size)) {
+            throw new ValidationError(`size is too small. Minimum size is ${product.base_min_size}`);
+        }
+        if (size > parseFloat(product.base_max_size)) {
+            throw new ValidationError(`size is too large. Maximum size is ${product.base_max_size}`);
+        }
+    }
+
+    private checkPrice(product: IProduct, price: number, anyPrice: boolean): void {
+        if (!(price > 0)) throw new ValidationError('Invalid price');
+        if (anyPrice) return;
+
+        const increments = price / parseFloat(product.quote_increment);
+        //tslint:disable-next-line:no-magic-numbers
+        if (Math.abs(increments - Math.round(increments)) > 1e-6) {
+            throw new ValidationError(`price is too accurate. Smallest unit is ${product.quote_increment}`);
+        }
+    }
+
+    private crosses(taker: IOrderRecord, maker: IOrderRecord): boolean {
+        if (taker.order.type !== 'limit') return true;
+
+        return taker.order.side === 'buy' ? maker.price <= taker.price : maker.price >= taker.price;
+    }
+
+    private wouldTake(record: IOrderRecord): boolean {
+        const book     = this.books.get(record.order.product_id);
+        const opposite = record.order.side === 'buy' ? book.asks : book.bids;
+
+        return opposite.length > 0 && this.crosses(record, opposite[0]);
+    }
+
+    /**
+     * Whether the book holds enough (not counting the taker's own orders) at the taker's price to fill it entirely.
+     */
+    private canFill(taker: IOrderRecord): boolean {
+        const book      = this.books.get(taker.order.product_id);
+        const opposite  = taker.order.side === 'buy' ? book.asks : book.bids;
+        const available = opposite.filter((maker) => maker.profile !== taker.profile && this.crosses(taker, maker))
+                                  .reduce((total, maker) => total + maker.remaining, 0);
+
+        return round(available) >= taker.remaining;
+    }
+
+    /**
+     * Matches a taker against the opposite side of the book, best price first, oldest first within a price.
+     */
+    private match(taker: IOrderRecord, product: IProduct): void {
+        const book     = this.books.get(product.id);
+        const opposite = taker.order.side === 'buy' ? book.asks : book.bids;
+
+        while (opposite.length > 0 && this.crosses(taker, opposite[0])) {
+            const maker = opposite[0];
+
+            if (maker.profile === taker.profile) {
+                if (this.preventSelfTrade(taker, maker)) continue;
+                break;
+            }
+
+            const size = this.matchSize(taker, maker);
+            if (size <= 0) break;
+
+            this.execute(taker, maker, product, size);
+
+            if (maker.remaining <= 0) {
+                this.unrest(maker);
+                this.finish(maker, 'filled');
+            }
+
+            if (taker.funds === undefined ? taker.remaining <= 0 : taker.funds <= 0) break;
+        }
+    }
+
+    /**
+     * Applies the taker's self-trade prevention to a resting order of the same profile: 'dc' cancels the smaller order
+     * and takes its size off the larger (off the funds of a funds-only market order), or cancels both if they are the
+     * same size; 'co' cancels the resting order, 'cn' the taker and 'cb' both.  Returns whether the taker may go on
+     * matching.
+     */
+    private preventSelfTrade(taker: IOrderRecord, maker: IOrderRecord): boolean {
+        const stp    = taker.order.stp;
+        let makerOut = stp === 'co' || stp === 'cb';
+        let takerOut = stp === 'cn' || stp === 'cb';
+
+        if (stp === 'dc' && (taker.funds === undefined || taker.order.size !== undefined)) {
+            const size = Math.min(taker.remaining, maker.remaining);
+
+            makerOut = maker.remaining <= size;
+            takerOut = taker.remaining <= size;
+            if (!makerOut) this.decrement(maker, size);
+            if (!takerOut) this.decrement(taker, size);
+        } else if (stp === 'dc') {
+            const value = round(maker.remaining * maker.price);
+
+            makerOut = value <= taker.funds;
+            takerOut = taker.funds <= value;
+            if (!makerOut) this.decrement(maker, round(taker.funds / maker.price));
+            if (!takerOut) {
+                taker.funds = round(taker.funds - value);
+                if (taker.order.side === 'buy') this.releaseHold(taker, value);
+            }
+        }
+
+        if (makerOut) {
+            this.unrest(maker);
+            this.finish(maker, 'canceled');
+        }
+        if (takerOut) this.finish(taker, 'canceled');
+
+        return !takerOut;
+    }
+
+    /**
+     * Takes size off an order without trading it, along with its share of the hold.
+     */
+    private decrement(record: IOrderRecord, size: number): void {
+        const feeFactor = 1 + this.fees.taker;
+
+        record.remaining  = round(record.remaining - size);
+        record.order.size = format(parseFloat(record.order.size) - size);
+
+        if (record.order.side === 'sell') this.releaseHold(record, size);
+        else if (record.order.type === 'limit') this.releaseHold(record, round(record.price * size * feeFactor));
+    }
+
+    /**
+     * How much of the maker the taker can take, limited by the taker's size, funds and (for market orders without
+     * a hold) available balance.
+     */
+    private matchSize(taker: IOrderRecord, maker: IOrderRecord): number {
+        const feeFactor = 1 + this.fees.taker;
+        let size        = maker.remaining;
+
+        if (taker.funds !== undefined && taker.order.side === 'buy') {
+            size = Math.min(size, taker.funds / (maker.price * feeFactor));
+        } else if (taker.funds !== undefined) {
+            size = Math.min(size, taker.funds / maker.price);
+        } else {
+            size = Math.min(size, taker.remaining);
+        }
+
+        if (!taker.profile.unlimited && taker.hold === undefined) {
+            const product = this.getProduct(taker.order.product_id);
+            const quote   = this.account(taker.profile, product.quote_currency);
+            const base    = this.account(taker.profile, product.base_currency);
+
+            size = taker.order.side === 'buy' ?
+                   Math.min(size, (quote.balance - quote.hold) / (maker.price * feeFactor)) :
+                   Math.min(size, base.balance - base.hold);
+        }
+
+        //tslint:disable-next-line:no-magic-numbers
+        return Math.floor(size * Math.pow(10, precision)) / Math.pow(10, precision);
+    }
+
+    /**
+     * Settles one trade between taker and maker.
+     */
+    private execute(taker: IOrderRecord, maker: IOrderRecord, product: IProduct, size: number): void {
+        const price    = maker.price;
+        const notional = round(price * size);
+        const tradeId  = ++this.tradeId;
+        const now      = new Date().toISOString();
+
+        this.trades.get(product.id).push({ price: format(price), side: maker.order.side, size: format(size), time: now,
+                                           trade_id: tradeId });
+
+        for (const [record, liquidity] of [[taker, 'T'], [maker, 'M']] as Array<[IOrderRecord, 'T' | 'M']>) {
+            const fee   = round(notional * (liquidity === 'T' ? this.fees.taker : this.fees.maker));
+            const order = record.order;
+
+            record.remaining     = round(record.remaining - size);
+            order.filled_size    = format(parseFloat(order.filled_size) + size);
+            order.executed_value = format(parseFloat(order.executed_value) + notional);
+            order.fill_fees      = format(parseFloat(order.fill_fees) + fee);
+
+            if (record.funds !== undefined) {
+                record.funds = round(record.funds - (order.side === 'buy' ? notional + fee : notional));
+            }
+
+            this.settle(record, product, size, notional, fee, tradeId);
+
+            const cursor = ++this.cursor;
+            this.fills.push({
+                cursor,
+                fill     : {
+                    created_at: now,
+                    fee       : format(fee),
+                    liquidity,
+                    order_id  : order.id,
+                    price     : format(price),
+                    product_id: product.id,
+                    settled   : true,
+                    side      : order.side,
+                    size      : format(size),
+                    trade_id  : tradeId,
+                },
+                profileId: record.profile.id,
+            });
+        }
+
+        this.sequence++;
+    }
+
+    /**
+     * Moves the balances of one side of a trade and records the ledger entries.
+     */
+    private settle(record: IOrderRecord, product: IProduct, size: number, notional: number, fee: number,
+                   tradeId: number): void {
+
+        if (record.profile.unlimited) return;
+
+        const base    = this.account(record.profile, product.base_currency);
+        const quote   = this.account(record.profile, product.quote_currency);
+        const details = { order_id: record.order.id, product_id: product.id, trade_id: `${tradeId}` };
+
+        if (record.order.side === 'buy') {
+            this.releaseHold(record, notional + fee);
+            this.post(quote, -notional, 'match', details);
+            this.post(base, size, 'match', details);
+        } else {
+            this.releaseHold(record, size);
+            this.post(base, -size, 'match', details);
+            this.post(quote, notional, 'match', details);
+        }
+
+        if (fee > 0) this.post(quote, -fee, 'fee', details);
+    }
+
+    private rest(record: IOrderRecord): void {
+        const book  = this.books.get(record.order.product_id);
+        const side  = record.order.side === 'buy' ? book.bids : book.asks;
+        const index = side.findIndex((resting) => record.order.side === 'buy' ?
+                                                  resting.price < record.price :
+                                                  resting.price > record.price);
+
+        if (index < 0) side.push(record);
+        else side.splice(index, 0, record);
+
+        this.sequence++;
+    }
+
+    private unrest(record: IOrderRecord): void {
+        const book  = this.books.get(record.order.product_id);
+        const side  = record.order.side === 'buy' ? book.bids : book.asks;
+        const index = side.indexOf(record);
+
+        if (index >= 0) {
+            side.splice(index, 1);
+            this.sequence++;
+        }
+    }
+
+    /**
+     * Finishes an order that does not rest: filled if it traded all its size (or, funds-based, anything at all).
+     * Orders self-trade prevention already canceled are left alone.
+     */
+    private complete(record: IOrderRecord): void {
+        if (record.order.status === 'done') return;
+
+        const unfilled = record.funds === undefined ? record.remaining > 0 : record.order.filled_size === format(0);
+
+        this.finish(record, unfilled ? 'canceled' : 'filled');
+    }
+
+    /**
+     * Matches the stop orders the last trade reached: sell stops at or below their price, buy stops at or above.  Their
+     * trades may reach further stops.
+     */
+    private triggerStops(product: IProduct): void {
+        const trades = this.trades.get(product.id);
+
+        for (let last = trades[trades.length - 1]; last !== undefined; last = trades[trades.length - 1]) {
+            const price     = parseFloat(last.price);
+            const triggered = Array.from(this.orders.values()).find(({ order, price: stop }) =>
+                order.status === 'active' && order.product_id === product.id &&
+                (order.side === 'sell' ? price <= stop : price >= stop));
+
+            if (triggered === undefined) return;
+
+            triggered.order.status = 'pending';
+            this.match(triggered, product);
+            this.complete(triggered);
+        }
+    }
+
+    private finish(record: IOrderRecord, reason: string): void {
+        if (record.hold !== undefined) this.releaseHold(record, record.hold.amount);
+
+        record.order.status      = 'done';
+        record.order.done_reason = reason;
+        record.order.done_at     = new Date().toISOString();
+        record.order.settled     = true;
+    }
+
+    /**
+     * Cancels GTT orders whose time is up.
+     */
+    private expireOrders(): void {
+        const now = Date.now();
+
+        this.books.forEach((book) => {
+            for (const record of book.bids.concat(book.asks)) {
+                if (record.expiresAt !== undefined && record.expiresAt <= now) {
+                    this.unrest(record);
+                    this.finish(record, 'canceled');
+                }
+            }
+        });
+    }
+}
+
@@ -0,0 +1,206 @@
+import * as uuid from 'uuid';
+import { IGdaxRequestConfig, IGdaxResponse } from '../index';
+import { GdaxError } from './errors';
+
+/**
+ * A request on its way through the middleware.  `config` is what will be handed to axios; middleware may change any
+ * part of it, since private requests are signed after the last middleware.  `traceId` is set by #traceRequests.
+ */
+export type IGdaxRequest = {
+    method: string;
+    endpoint: string;
+    authenticated: boolean;
+    config: IGdaxRequestConfig;
+    traceId?: string;
+};
+
+/**
+ * Passes a request on to the rest of the chain, and eventually to the exchange.
+ */
+export type IGdaxNext = (request: IGdaxRequest) => Promise<IGdaxResponse<{}>>;
+
+/**
+ * Middleware sees every request an agent sends, each retry included, and may change it, answer it itself, or change
+ * the response or error that comes back.  Errors reaching middleware are already GdaxErrors.
+ */
+export type IGdaxMiddleware = (request: IGdaxRequest, next: IGdaxNext) => Promise<IGdaxResponse<{}>>;
+
+/**
+ * What #logRequests reports: the request before it is sent, then its response or error.  Headers and body fields
+ * named in the redaction list are replaced with '[REDACTED]'; a body that is not JSON is reported as it is.
+ */
+export type IRequestLogEntry = {
+    event: 'request' | 'response' | 'error';
+    method: string;
+    url: string;
+    traceId?: string;
+    headers?: { [name: string]: {} };
+    body?: { [field: string]: {} } | string;
+    status?: number;
+    duration?: number;
+    error?: string;
+};
+
+/**
+ * What #timeRequests reports.  `status` is missing when no response came back.
+ */
+export type IRequestTiming = {
+    method: string;
+    endpoint: string;
+    traceId?: string;
+    status?: number;
+    ok: boolean;
+    duration: number;
+};
+
+export type ILogRequestsOptions = { redact?: string[] };
+
+export type ITraceRequestsOptions = { header?: string; generate?(): string };
+
+/**
+ * Headers that carry credentials.
+ */
+export const credentialHeaders = ['cb-access-key', 'cb-access-sign', 'cb-access-passphrase', 'authorization'];
+
+const redacted = '[REDACTED]';
+
+/**
+ * Builds the chain: the first middleware sees the request first and the response last; `send` is at the end.
+ *
+ * @param {IGdaxMiddleware[]} middleware
+ * @param {IGdaxNext} send
+ * @returns {IGdaxNext}
+ */
+export const composeMiddleware = (middleware: IGdaxMiddleware[], send: IGdaxNext): IGdaxNext =>
+    middleware.reduceRight<IGdaxNext>((next, current) => (request) => current(request, next), send);
+
+/**
+ * Copies an object, redacting the values of the named keys (in any case).
+ */
+const redact = (values: { [key: string]: {} }, names: string[]): { [key: string]: {} } => {
+    if (values === null || typeof values !== 'object') return values;
+
+    const copy: { [key: string]: {} } = {};
+    for (const key of Object.keys(values)) copy[key] = names.indexOf(key.toLowerCase()) >= 0 ? redacted : values[key];
+
+    return copy;
+};
+
+/**
+ * Reads a request body sent as JSON text.
+ */
+const parseBody = (data: {}): { [field: string]: {} } | string => {
+    if (typeof data !== 'string') return data;
+
+    try {
+        return JSON.parse(data);
+    } catch (err) {
+        return data;
+    }
+};
+
+/**
+ * Logs every request and its outcome.  Credential headers are always redacted; name other headers or body fields
+ * (e.g. 'crypto_address') in `redact` to redact them too.
+ *
+ * @param {(entry: IRequestLogEntry) => void} log
+ * @param {ILogRequestsOptions} options
+ * @returns {IGdaxMiddleware}
+ */
+export const logRequests = (log: (entry: IRequestLogEntry) => void,
+                            options: ILogRequestsOptions = {}): IGdaxMiddleware => {
+
+    const names = credentialHeaders.concat((options.redact === undefined ? [] : options.redact)
+                                               .map((name) => name.toLowerCase()));
+
+    return async (request, next) => {
+        const { method, traceId } = request;
+        const url                 = request.config.url;
+        const started             = Date.now();
+        const data                = parseBody(request.config.data);
+        const body                = typeof data === 'string' ? data : redact(data, names);
+
+        log({ body, event: 'request', headers: redact(request.config.headers, names), method, traceId, url });
+
+        try {
+            const response = await next(request);
+            log({ duration: Date.now() - started, event: 'response', method, status: response.status, traceId, url });
+
+            return response;
+        } catch (err) {
+            const status   = err instanceof GdaxError ? err.status : undefined;
+            const duration = Date.now() - started;
+            log({ duration, error: `${err.message}`, event: 'error', method, status, traceId, url });
+            throw err;
+        }
+    };
+};
+
+/**
+ * Reports how long every request took, failed ones included.
+ *
+ * @param {(timing: IRequestTiming) => void} record
+ * @returns {IGdaxMiddleware}
+ */
+export const timeRequests = (record: (timing: IRequestTiming) => void): IGdaxMiddleware =>
+    async (request, next) => {
+        const { endpoint, method, traceId } = request;
+        const started                       = Date.now();
+
+        try {
+            const response = await next(request);
+            record({ duration: Date.now() - started, endpoint, method, ok: true, status: response.status, traceId });
+
+            return response;
+        } catch (err) {
+            const status = err instanceof GdaxError ? err.status : undefined;
+            record({ duration: Date.now() - started, endpoint, method, ok: false, status, traceId });
+            throw err;
+        }
+    };
+
+/**
+ * Gives every request a trace id, sent in the `header` (X-Request-Id by default) and kept on the request for the
+ * middleware after it.  Each retry is a request of its own, with its own id.
+ *
+ * @param {ITraceRequestsOptions} options
+ * @returns {IGdaxMiddleware}
+ */
+export const traceRequests = (options: ITraceRequestsOptions = {}): IGdaxMiddleware => {
+    const header   = options.header === undefined ? 'X-Request-Id' : options.header;
+    const generate = options.generate === undefined ? () => uuid.v4() : () => options.generate();
+
+    return (request, next) => {
+        const traceId = generate();
+        const headers = { ...request.config.headers, [header]: traceId };
+
+        return next({ ...request, config: { ...request.config, headers }, traceId });
+    };
+};
+
+/**
+ * Adds headers to every request, fixed ones or ones computed per request.
+ *
+ * @param {{[name: string]: string} | ((request: IGdaxRequest) => {[name: string]: string})} headers
+ * @returns {IGdaxMiddleware}
+ */
+export const setHeaders = (headers: { [name: string]: string } |
+                                    ((request: IGdaxRequest) => { [name: string]: string })): IGdaxMiddleware =>
+    (request, next) => {
+        const added = typeof headers === 'function' ? headers(request) : headers;
+
+        return next({ ...request, config: { ...request.config, headers: { ...request.config.headers, ...added } } });
+    };
+
+/**
+ * Rewrites the data of every successful response.
+ *
+ * @param {(data: T, request: IGdaxRequest) => U} transform
+ * @returns {IGdaxMiddleware}
+ */
+export const transformResponses = <T, U>(transform: (data: T, request: IGdaxRequest) => U): IGdaxMiddleware =>
+    async (request, next) => {
+        const response = await next(request);
+
+        return { ...response, data: transform(response.data as T, request) };
+    };
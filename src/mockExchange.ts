@@ -0,0 +1,759 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as HttpStatus from 'http-status-codes';
+import * as net from 'net';
+import * as url from 'url';
+import * as uuid from 'uuid';
+import { hmacDigest, IApiAuth } from '../index';
+import { maxCandlesPerRequest, supportedGranularities } from './candles';
+import { AuthenticationError, GdaxError, InsufficientFundsError, NotFoundError, ValidationError } from './errors';
+import { getPage, IEngineOrderRequest, IEnginePageParams, IFeeSchedule, MatchingEngine } from './matchingEngine';
+import { ICandleTuple, ICoinbaseAccount, IOrder, IPaymentMethod, IProduct, IReport, ITrade } from './models';
+import { sleep } from './retry';
+
+/**
+ * Mock exchange options.  `latency` (ms) delays every response; `clockOffset` (ms) shifts the server clock relative
+ * to the local one, for exercising clock calibration.  Requests stamped more than `maxTimestampAge` seconds away from
+ * the server clock are rejected, like GDAX does.
+ */
+export type IMockExchangeOptions = {
+    products?: IProduct[];
+    fees?: IFeeSchedule;
+    latency?: number;
+    clockOffset?: number;
+    verifySignatures?: boolean;
+    maxTimestampAge?: number;
+};
+
+/**
+ * An injected fault.  Requests matching `method` and `path` (exact pathname or pattern, e.g. '/orders') fail `times`
+ * times (default once): with `drop` the connection is destroyed without a response, otherwise the exchange answers
+ * with `status` (default 500), `message` and `headers` after `delay` ms.
+ */
+export type IMockFault = {
+    method?: string;
+    path?: string | RegExp;
+    status?: number;
+    message?: string;
+    headers?: { [name: string]: string };
+    drop?: boolean;
+    delay?: number;
+    times?: number;
+};
+
+/**
+ * A request handled by the mock exchange.
+ */
+export type IMockRequestRecord = { method: string; path: string; status: number; time: string };
+
+/**
+ * An in-process GDAX: a local HTTP server answering the REST endpoints used by IGdaxClient from an in-memory
+ * matching engine.  Point a client at it with `getClient(auth, { baseURL: exchange.url })`.
+ *
+ * Users are created with #createUser(), which returns their API keys; requests are signature-checked exactly like
+ * GDAX does.  The market is driven through the "house" profile, which has unlimited funds: #addLiquidity() rests
+ * orders for users to trade against, #placeHouseOrder() trades against theirs.  Margin endpoints are not simulated.
+ */
+export interface IMockExchange {
+    engine: MatchingEngine;
+    url: string;
+
+    start(port?: number): Promise<string>;
+
+    stop(): Promise<void>;
+
+    createUser(balances?: { [currency: string]: number }): IApiAuth;
+
+    deposit(auth: IApiAuth, currency: string, amount: number): string;
+
+    addLiquidity(productId: string, side: string, price: number, size: number): IOrder;
+
+    placeHouseOrder(request: IEngineOrderRequest): IOrder;
+
+    injectFault(fault: IMockFault): void;
+
+    clearFaults(): void;
+
+    setLatency(ms: number): void;
+
+    getRequests(): IMockRequestRecord[];
+}
+
+/**
+ * What a route handler sees.  `params` are the capture groups of the route pattern.
+ */
+type IRequestContext = {
+    params: string[];
+    query: { [key: string]: string | string[] };
+    body: IEngineOrderRequest & { [key: string]: string | number | boolean };
+    profileId: string;
+};
+
+type IRouteResult = { status?: number; body: {}; headers?: { [name: string]: string }; raw?: boolean };
+
+type IRoute = {
+    method: string;
+    pattern: RegExp;
+    private: boolean;
+    handle(context: IRequestContext): IRouteResult;
+};
+
+type IStoredReport = { report: IReport; profileId: string; params: IRequestContext['body']; polls: number };
+
+/**
+ * Default mock exchange options.
+ */
+const defaultMockConfig = {
+    clockOffset     : 0,
+    latency         : 0,
+    maxTimestampAge : 30,
+    verifySignatures: true,
+};
+
+const day = 86400000;
+
+/**
+ * Serves a page of a newest-first listing, with CB-BEFORE/CB-AFTER headers.
+ */
+const paginate = <T>(entries: Array<{ cursor: number; value: T }>, query: IRequestContext['query']): IRouteResult => {
+    const page                                = getPage(entries, query as IEnginePageParams);
+    const headers: { [name: string]: string } = {};
+
+    if (page.before !== undefined) headers['cb-before'] = page.before;
+    if (page.after !== undefined) headers['cb-after'] = page.after;
+
+    return { body: page.items, headers };
+};
+
+/**
+ * Parses a JSON request body; an empty body is an empty object.
+ */
+const parseBody = (rawBody: string): IRequestContext['body'] => {
+    try {
+        return rawBody === '' ? {} : JSON.parse(rawBody);
+    } catch (err) {
+        throw new ValidationError('invalid json');
+    }
+};
+
+/**
+ * Aggregates one side of the book by price: [price, size, number of orders].
+ */
+const aggregate = (side: Array<{ price: number; size: number }>, depth: number): Array<[string, string, number]> => {
+    const levels: Array<[string, string, number]> = [];
+
+    for (const order of side) {
+        const last = levels[levels.length - 1];
+
+        if (last !== undefined && parseFloat(last[0]) === order.price) {
+            last[1] = `${parseFloat(last[1]) + order.size}`;
+            //tslint:disable-next-line:no-magic-numbers
+            last[2] += 1;
+        } else {
+            if (levels.length === depth) break;
+            levels.push([`${order.price}`, `${order.size}`, 1]);
+        }
+    }
+
+    return levels;
+};
+
+/**
+ * Buckets trades into [time, low, high, open, close, volume] candles, newest first.
+ */
+const toCandles = (trades: ITrade[], start: number, end: number, granularity: number): ICandleTuple[] => {
+    const buckets = new Map<number, ICandleTuple>();
+
+    // Trades come newest first; walk them oldest first so open/close fall out naturally.
+    for (const trade of trades.slice().reverse()) {
+        //tslint:disable-next-line:no-magic-numbers
+        const time = new Date(trade.time).getTime() / 1000;
+        if (time < start || time >= end) continue;
+
+        const bucket = Math.floor(time / granularity) * granularity;
+        const price  = parseFloat(trade.price);
+        const size   = parseFloat(trade.size);
+        const candle = buckets.get(bucket);
+
+        if (candle === undefined) {
+            buckets.set(bucket, [bucket, price, price, price, price, size]);
+        } else {
+            //tslint:disable:no-magic-numbers
+            candle[1] = Math.min(candle[1], price);
+            candle[2] = Math.max(candle[2], price);
+            candle[4] = price;
+            candle[5] += size;
+            //tslint:enable:no-magic-numbers
+        }
+    }
+
+    return Array.from(buckets.values()).sort((a, b) => b[0] - a[0]);
+};
+
+const toCsv = (lines: Array<Array<string | number>>): string => lines.map((line) => line.join(',')).join('\n');
+
+class MockExchange implements IMockExchange {
+
+    public engine: MatchingEngine;
+    public url: string = null;
+
+    private options: IMockExchangeOptions;
+    private server: http.Server = null;
+    private sockets: Set<net.Socket> = new Set();
+    private users: Map<string, { auth: IApiAuth; profileId: string }> = new Map();
+    private houseProfileId: string;
+    private faults: IMockFault[] = [];
+    private requests: IMockRequestRecord[] = [];
+    private reports: Map<string, IStoredReport> = new Map();
+    private paymentMethods: IPaymentMethod[];
+    private coinbaseAccounts: ICoinbaseAccount[];
+    private routes: IRoute[];
+
+    constructor(options?: IMockExchangeOptions) {
+        this.options        = { ...defaultMockConfig, ...options };
+        this.engine         = new MatchingEngine({ fees: this.options.fees, products: this.options.products });
+        this.houseProfileId = this.engine.createProfile(true);
+
+        this.paymentMethods   = [{
+            allow_buy     : true,
+            allow_deposit : true,
+            allow_sell    : true,
+            allow_withdraw: true,
+            currency      : 'USD',
+            id            : uuid.v4(),
+            name          : 'Mock Bank',
+            primary_buy   : true,
+            primary_sell  : true,
+            type          : 'ach_bank_account',
+        }];
+        this.coinbaseAccounts = this.engine.getCurrencies().map((currency) => ({
+            active  : true,
+            balance : '0',
+            currency,
+            id      : uuid.v4(),
+            name    : `${currency} Wallet`,
+            primary : false,
+            type    : currency === 'USD' ? 'fiat' : 'wallet',
+        }));
+
+        this.routes = this.createRoutes();
+    }
+
+    /**
+     * Starts listening on 127.0.0.1 (on a random port unless given).
+     *
+     * @param {number} port
+     * @returns {Promise<string>} the base url
+     */
+    public start(port: number = 0): Promise<string> {
+        this.server = http.createServer((req, res) => {
+            this.handle(req, res).catch((err: Error) => res.destroy(err));
+        });
+
+        this.server.on('connection', (socket: net.Socket) => {
+            this.sockets.add(socket);
+            socket.on('close', () => this.sockets.delete(socket));
+        });
+
+        return new Promise<string>((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(port, '127.0.0.1', () => {
+                this.url = `http://127.0.0.1:${this.server.address().port}`;
+                resolve(this.url);
+            });
+        });
+    }
+
+    public stop(): Promise<void> {
+        if (this.server === null) return Promise.resolve();
+
+        const server = this.server;
+        this.server  = null;
+        this.url     = null;
+
+        // Kept-alive connections would hold the server open.
+        this.sockets.forEach((socket) => socket.destroy());
+
+        return new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+
+    /**
+     * Creates a user with fresh API keys and, optionally, initial balances.
+     *
+     * @param {{[p: string]: number}} balances
+     * @returns {IApiAuth}
+     */
+    public createUser(balances: { [currency: string]: number } = {}): IApiAuth {
+        const auth = {
+            //tslint:disable:no-magic-numbers
+            passphrase: crypto.randomBytes(8).toString('hex'),
+            privateKey: crypto.randomBytes(64).toString('base64'),
+            publicKey : crypto.randomBytes(16).toString('hex'),
+            //tslint:enable:no-magic-numbers
+        };
+
+        this.users.set(auth.publicKey, { auth, profileId: this.engine.createProfile() });
+
+        for (const currency of Object.keys(balances)) this.deposit(auth, currency, balances[currency]);
+
+        return auth;
+    }
+
+    public deposit(auth: IApiAuth, currency: string, amount: number): string {
+        return this.engine.transfer(this.profileOf(auth), currency, amount);
+    }
+
+    public addLiquidity(productId: string, side: string, price: number, size: number): IOrder {
+        return this.placeHouseOrder({ price, product_id: productId, side, size, type: 'limit' });
+    }
+
+    public placeHouseOrder(request: IEngineOrderRequest): IOrder {
+        return this.engine.placeOrder(this.houseProfileId, request);
+    }
+
+    public injectFault(fault: IMockFault): void {
+        this.faults.push({ times: 1, ...fault });
+    }
+
+    public clearFaults(): void {
+        this.faults = [];
+    }
+
+    public setLatency(ms: number): void {
+        this.options.latency = ms;
+    }
+
+    public getRequests(): IMockRequestRecord[] {
+        return this.requests.slice();
+    }
+
+    private profileOf(auth: IApiAuth): string {
+        const user = this.users.get(auth.publicKey);
+        if (user === undefined) throw new NotFoundError(`Unknown API key ${auth.publicKey}`);
+
+        return user.profileId;
+    }
+
+    private now(): number {
+        return Date.now() + this.options.clockOffset;
+    }
+
+    private findFault(method: string, pathname: string): IMockFault {
+        const fault = this.faults.find((candidate) =>
+            (candidate.method === undefined || candidate.method.toUpperCase() === method) &&
+            (candidate.path === undefined ||
+             (typeof candidate.path === 'string' ? candidate.path === pathname : candidate.path.test(pathname))));
+
+        if (fault !== undefined && --fault.times <= 0) this.faults.splice(this.faults.indexOf(fault), 1);
+
+        return fault;
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const rawBody  = await new Promise<string>((resolve) => {
+            const chunks: Buffer[] = [];
+            req.on('data', (chunk: Buffer) => chunks.push(chunk));
+            req.on('end', () => resolve(Buffer.concat(chunks).toString()));
+        });
+        const parsed   = url.parse(req.url, true);
+        const pathname = parsed.pathname.replace(/\/+$/, '');
+        const method   = req.method.toUpperCase();
+        const fault    = this.findFault(method, pathname);
+
+        await sleep(this.options.latency + (fault === undefined || fault.delay === undefined ? 0 : fault.delay));
+
+        if (fault !== undefined && fault.drop === true) {
+            req.socket.destroy();
+
+            return;
+        }
+
+        const result = fault !== undefined ?
+                       {
+                           body   : { message: fault.message === undefined ? 'Internal server error' : fault.message },
+                           headers: fault.headers,
+                           status : fault.status === undefined ? HttpStatus.INTERNAL_SERVER_ERROR : fault.status,
+                       } :
+                       this.route(req, method, pathname, parsed.query, rawBody);
+
+        const status  = result.status === undefined ? HttpStatus.OK : result.status;
+        const payload = result.raw === true ? `${result.body}` : JSON.stringify(result.body);
+
+        this.requests.push({ method, path: req.url, status, time: new Date().toISOString() });
+
+        res.writeHead(status, {
+            'cb-request-id': uuid.v4(),
+            'Content-Type' : result.raw === true ? 'text/csv' : 'application/json',
+            ...result.headers,
+        });
+        res.end(payload);
+    }
+
+    /**
+     * Authenticates and dispatches a request, turning thrown errors into GDAX-style error responses.
+     */
+    private route(req: http.IncomingMessage, method: string, pathname: string, query: IRequestContext['query'],
+                  rawBody: string): IRouteResult {
+
+        try {
+            const route = this.routes.find((candidate) =>
+                candidate.method === method && candidate.pattern.test(pathname));
+            if (route === undefined) throw new NotFoundError('NotFound');
+
+            const params = pathname.match(route.pattern).slice(1).map(decodeURIComponent);
+            const body   = parseBody(rawBody);
+
+            const profileId = route.private ? this.authenticate(req, method, rawBody) : null;
+
+            return route.handle({ body, params, profileId, query });
+        } catch (err) {
+            const status = err instanceof NotFoundError ? HttpStatus.NOT_FOUND :
+                           err instanceof ValidationError || err instanceof InsufficientFundsError ?
+                           HttpStatus.BAD_REQUEST :
+                           err instanceof AuthenticationError ? HttpStatus.UNAUTHORIZED :
+                           HttpStatus.INTERNAL_SERVER_ERROR;
+
+            return { body: { message: err instanceof GdaxError ? err.message : 'Internal server error' }, status };
+        }
+    }
+
+    /**
+     * Checks the CB-ACCESS-* headers, recomputing the signature over the body exactly as it was sent.
+     *
+     * @returns {string} the profile id of the caller
+     */
+    private authenticate(req: http.IncomingMessage, method: string, rawBody: string): string {
+        const key        = req.headers['cb-access-key'] as string;
+        const signature  = req.headers['cb-access-sign'] as string;
+        const timestamp  = req.headers['cb-access-timestamp'] as string;
+        const passphrase = req.headers['cb-access-passphrase'] as string;
+
+        if (key === undefined) throw new ValidationError('CB-ACCESS-KEY header is required');
+
+        const user = this.users.get(key);
+        if (user === undefined) throw new AuthenticationError('Invalid API Key');
+        if (passphrase !== user.auth.passphrase) throw new AuthenticationError('Invalid Passphrase');
+
+        if (!this.options.verifySignatures) return user.profileId;
+
+        //tslint:disable-next-line:no-magic-numbers
+        if (!(Math.abs(parseFloat(timestamp) - this.now() / 1000) <= this.options.maxTimestampAge)) {
+            throw new AuthenticationError('request timestamp expired');
+        }
+
+        const expected = hmacDigest(user.auth.privateKey, `${timestamp}${method}${req.url}${rawBody}`);
+        if (signature !== expected) throw new AuthenticationError('invalid signature');
+
+        return user.profileId;
+    }
+
+    private createRoutes(): IRoute[] {
+        const engine = this.engine;
+        const route  = (method: string, pattern: RegExp, handle: IRoute['handle'], isPrivate: boolean = true) =>
+            ({ handle, method, pattern, private: isPrivate });
+
+        return [
+            // Unauthenticated
+            route('GET', /^\/time$/, () => {
+                const now = this.now();
+
+                //tslint:disable-next-line:no-magic-numbers
+                return { body: { epoch: now / 1000, iso: new Date(now).toISOString() } };
+            }, false),
+            route('GET', /^\/currencies$/, () => ({
+                body: engine.getCurrencies().map((id) => ({ id, min_size: '0.00000001', name: id, status: 'online' })),
+            }), false),
+            route('GET', /^\/products$/, () => ({ body: engine.products }), false),
+            route('GET', /^\/products\/([^/]+)\/book$/, ({ params, query }) => this.getBook(params[0], query), false),
+            route('GET', /^\/products\/([^/]+)\/ticker$/, ({ params }) => this.getTicker(params[0]), false),
+            route('GET', /^\/products\/([^/]+)\/trades$/, ({ params, query }) =>
+                paginate(engine.getTrades(params[0]).map((trade) => ({ cursor: trade.trade_id, value: trade })), query),
+                false),
+            route('GET', /^\/products\/([^/]+)\/candles$/, ({ params, query }) => this.getCandles(params[0], query),
+                  false),
+            route('GET', /^\/products\/([^/]+)\/stats$/, ({ params }) => this.getStats(params[0]), false),
+
+            // Accounts
+            route('GET', /^\/accounts$/, ({ profileId }) => ({ body: engine.listAccounts(profileId) })),
+            route('GET', /^\/accounts\/([^/]+)$/, ({ params, profileId }) => ({
+                body: engine.getAccount(profileId, params[0]),
+            })),
+            route('GET', /^\/accounts\/([^/]+)\/ledger$/, ({ params, profileId, query }) =>
+                paginate(engine.getLedger(profileId, params[0]).map(({ cursor, entry }) => ({ cursor, value: entry })),
+                         query)),
+            route('GET', /^\/accounts\/([^/]+)\/holds$/, ({ params, profileId, query }) =>
+                paginate(engine.getHolds(profileId, params[0]).map(({ cursor, hold }) => ({ cursor, value: hold })),
+                         query)),
+
+            // Orders and fills
+            route('POST', /^\/orders$/, ({ body, profileId }) => ({ body: engine.placeOrder(profileId, body) })),
+            route('DELETE', /^\/orders$/, ({ profileId, query }) => ({
+                body: engine.cancelAll(profileId, query.product_id as string),
+            })),
+            route('DELETE', /^\/orders\/([^/]+)$/, ({ params, profileId }) => ({
+                body: [engine.cancelOrder(profileId, params[0])],
+            })),
+            route('GET', /^\/orders$/, ({ profileId, query }) => {
+                const status   = query.status === undefined ? ['open', 'pending', 'active'] : [].concat(query.status);
+                const orders   = engine.listOrders(profileId, status, query.product_id as string);
+
+                return paginate(orders.map(({ cursor, order }) => ({ cursor, value: order })), query);
+            }),
+            route('GET', /^\/orders\/([^/]+)$/, ({ params, profileId }) => ({
+                body: engine.getOrder(profileId, params[0]),
+            })),
+            route('GET', /^\/fills$/, ({ profileId, query }) => {
+                const fills = engine.listFills(profileId, query.order_id as string, query.product_id as string);
+
+                return paginate(fills.map(({ fill }) => ({ cursor: fill.trade_id, value: fill })), query);
+            }),
+
+            // Transfers
+            route('GET', /^\/payment-methods$/, () => ({ body: this.paymentMethods })),
+            route('GET', /^\/coinbase-accounts$/, () => ({ body: this.coinbaseAccounts })),
+            route('POST', /^\/deposits\/(payment-method|coinbase-account)$/, ({ body, params, profileId }) =>
+                this.transfer(profileId, params[0], body, 1)),
+            route('POST', /^\/withdrawals\/(payment-method|coinbase-account|crypto)$/, ({ body, params, profileId }) =>
+                this.transfer(profileId, params[0], body, -1)),
+
+            // Reports
+            route('POST', /^\/reports$/, ({ body, profileId }) => this.createReport(profileId, body)),
+            route('GET', /^\/reports\/([^/]+)$/, ({ params, profileId }) => this.getReport(profileId, params[0])),
+            route('GET', /^\/files\/reports\/([^/]+)$/, ({ params }) => this.getReportFile(params[0]), false),
+            route('GET', /^\/users\/self\/trailing-volume$/, ({ profileId }) => this.getTrailingVolume(profileId)),
+        ];
+    }
+
+    private getBook(productId: string, query: IRequestContext['query']): IRouteResult {
+        const level = query.level === undefined ? 1 : Number(query.level);
+        const bids  = this.engine.getBookSide(productId, 'bids');
+        const asks  = this.engine.getBookSide(productId, 'asks');
+
+        //tslint:disable-next-line:no-magic-numbers
+        if (level === 3) {
+            const full = (side: typeof bids) => side.map((order) => [`${order.price}`, `${order.size}`, order.id]);
+
+            return { body: { asks: full(asks), bids: full(bids), sequence: this.engine.sequence } };
+        }
+
+        //tslint:disable-next-line:no-magic-numbers
+        const depth = level === 1 ? 1 : 50;
+
+        return { body: { asks: aggregate(asks, depth), bids: aggregate(bids, depth), sequence: this.engine.sequence } };
+    }
+
+    private getTicker(productId: string): IRouteResult {
+        const trades = this.engine.getTrades(productId);
+        const bid    = this.engine.getBookSide(productId, 'bids')[0];
+        const ask    = this.engine.getBookSide(productId, 'asks')[0];
+        const last   = trades[0];
+        const since  = Date.now() - day;
+        const volume = trades.filter((trade) => new Date(trade.time).getTime() >= since)
+                             .reduce((sum, trade) => sum + parseFloat(trade.size), 0);
+
+        return {
+            body: {
+                ask     : ask === undefined ? '' : `${ask.price}`,
+                bid     : bid === undefined ? '' : `${bid.price}`,
+                price   : last === undefined ? '' : last.price,
+                size    : last === undefined ? '' : last.size,
+                time    : last === undefined ? new Date().toISOString() : last.time,
+                trade_id: last === undefined ? 0 : last.trade_id,
+                volume  : `${volume}`,
+            },
+        };
+    }
+
+    private getCandles(productId: string, query: IRequestContext['query']): IRouteResult {
+        const granularity = query.granularity === undefined ? supportedGranularities[0] : Number(query.granularity);
+        if (supportedGranularities.indexOf(granularity) < 0) throw new ValidationError('Unsupported granularity');
+
+        //tslint:disable:no-magic-numbers
+        const end   = query.end === undefined ? Date.now() / 1000 : new Date(query.end as string).getTime() / 1000;
+        const start = query.start === undefined ?
+                      end - granularity * maxCandlesPerRequest :
+                      new Date(query.start as string).getTime() / 1000;
+        //tslint:enable:no-magic-numbers
+
+        if (!(start < end)) throw new ValidationError('start must be before end');
+        if ((end - start) / granularity > maxCandlesPerRequest) {
+            throw new ValidationError('granularity too small for the requested time range');
+        }
+
+        return { body: toCandles(this.engine.getTrades(productId), start, end, granularity) };
+    }
+
+    private getStats(productId: string): IRouteResult {
+        const since  = Date.now() - day;
+        const trades = this.engine.getTrades(productId).filter((trade) => new Date(trade.time).getTime() >= since);
+        const prices = trades.map((trade) => parseFloat(trade.price));
+
+        return {
+            body: {
+                high  : prices.length === 0 ? '0' : `${Math.max(...prices)}`,
+                last  : prices.length === 0 ? '0' : `${prices[0]}`,
+                low   : prices.length === 0 ? '0' : `${Math.min(...prices)}`,
+                open  : prices.length === 0 ? '0' : `${prices[prices.length - 1]}`,
+                volume: `${trades.reduce((sum, trade) => sum + parseFloat(trade.size), 0)}`,
+            },
+        };
+    }
+
+    /**
+     * Deposits (direction 1) and withdrawals (direction -1).  The source/destination must exist, except for crypto
+     * addresses which only need to be present.
+     */
+    private transfer(profileId: string, kind: string, body: IRequestContext['body'], direction: number): IRouteResult {
+        const amount = parseFloat(`${body.amount}`);
+        const known  = kind === 'payment-method' ?
+                       this.paymentMethods.some((method) => method.id === body.payment_method_id) :
+                       kind === 'coinbase-account' ?
+                       this.coinbaseAccounts.some((account) => account.id === body.coinbase_account_id) :
+                       typeof body.crypto_address === 'string' && body.crypto_address !== '';
+
+        if (!known) throw new ValidationError(`Invalid ${kind}`);
+        if (!(amount > 0)) throw new ValidationError('Invalid amount');
+
+        const id = this.engine.transfer(profileId, `${body.currency}`, direction * amount);
+
+        return {
+            body: {
+                amount   : `${amount}`,
+                currency : body.currency,
+                id,
+                payout_at: new Date().toISOString(),
+            },
+        };
+    }
+
+    private createReport(profileId: string, params: IRequestContext['body']): IRouteResult {
+        if (params.type !== 'fills' && params.type !== 'account') throw new ValidationError('Invalid report type');
+        if (params.type === 'fills' && params.product_id === undefined) {
+            throw new ValidationError('product_id is required');
+        }
+        if (params.type === 'account' && params.account_id === undefined) {
+            throw new ValidationError('account_id is required');
+        }
+
+        const report: IReport = {
+            created_at: new Date().toISOString(),
+            id        : uuid.v4(),
+            params    : { end_date: `${params.end_date}`, start_date: `${params.start_date}` },
+            status    : 'pending',
+            type      : params.type,
+        };
+
+        this.reports.set(report.id, { params, polls: 0, profileId, report });
+
+        return { body: report };
+    }
+
+    /**
+     * Reports move from pending through creating to ready, one step per status request.
+     */
+    private getReport(profileId: string, reportId: string): IRouteResult {
+        const stored = this.reports.get(reportId);
+        if (stored === undefined || stored.profileId !== profileId) throw new NotFoundError('Report not found');
+
+        const report = stored.report;
+        stored.polls++;
+
+        if (report.status === 'pending') {
+            report.status = 'creating';
+        } else if (report.status === 'creating') {
+            const format        = stored.params.format === 'pdf' ? 'pdf' : 'csv';
+            report.status       = 'ready';
+            report.completed_at = new Date().toISOString();
+            report.expires_at   = new Date(Date.now() + day).toISOString();
+            report.file_url     = `${this.url}/files/reports/${report.id}.${format}`;
+        }
+
+        return { body: report };
+    }
+
+    private getReportFile(fileName: string): IRouteResult {
+        const stored = this.reports.get(fileName.replace(/\.(csv|pdf)$/, ''));
+        if (stored === undefined || stored.report.status !== 'ready') throw new NotFoundError('NotFound');
+
+        const params = stored.params;
+        const from   = new Date(`${params.start_date}`).getTime();
+        const to     = new Date(`${params.end_date}`).getTime();
+        const within = (time: string) => new Date(time).getTime() >= from && new Date(time).getTime() <= to;
+
+        if (params.format === 'pdf') {
+            return { body: `%PDF-1.4\n% ${params.type} report ${stored.report.id}\n%%EOF\n`, raw: true };
+        }
+
+        if (params.type === 'fills') {
+            const product = this.engine.getProduct(`${params.product_id}`);
+            const fills   = this.engine.listFills(stored.profileId, undefined, product.id)
+                                .map(({ fill }) => fill)
+                                .filter((fill) => within(fill.created_at))
+                                .reverse();
+            const lines   = fills.map((fill) => {
+                const notional = parseFloat(fill.price) * parseFloat(fill.size);
+                const fee      = parseFloat(fill.fee);
+                const total    = fill.side === 'buy' ? -(notional + fee) : notional - fee;
+
+                return [stored.profileId, fill.trade_id, fill.product_id, fill.side.toUpperCase(), fill.created_at,
+                        fill.size, product.base_currency, fill.price, fill.fee, total, product.quote_currency];
+            });
+
+            return {
+                body: toCsv([['portfolio', 'trade id', 'product', 'side', 'created at', 'size', 'size unit', 'price',
+                              'fee', 'total', 'price/fee/total unit'], ...lines]),
+                raw : true,
+            };
+        }
+
+        const account = this.engine.getAccount(stored.profileId, `${params.account_id}`);
+        const entries = this.engine.getLedger(stored.profileId, account.id)
+                            .map(({ entry }) => entry)
+                            .filter((entry) => within(entry.created_at))
+                            .reverse();
+        const rows    = entries.map((entry) => [
+            stored.profileId, entry.type, entry.created_at, entry.amount, entry.balance, account.currency,
+            entry.details.transfer_id === undefined ? '' : entry.details.transfer_id,
+            entry.details.trade_id === undefined ? '' : entry.details.trade_id,
+            entry.details.order_id === undefined ? '' : entry.details.order_id,
+        ]);
+
+        return {
+            body: toCsv([['portfolio', 'type', 'time', 'amount', 'balance', 'amount/balance unit', 'transfer id',
+                          'trade id', 'order id'], ...rows]),
+            raw : true,
+        };
+    }
+
+    private getTrailingVolume(profileId: string): IRouteResult {
+        //tslint:disable-next-line:no-magic-numbers
+        const since = Date.now() - 30 * day;
+        const now   = new Date().toISOString();
+
+        return {
+            body: this.engine.products.map((product) => {
+                const traded = (fills: Array<{ fill: { size: string; created_at: string } }>) =>
+                    fills.filter(({ fill }) => new Date(fill.created_at).getTime() >= since)
+                         .reduce((sum, { fill }) => sum + parseFloat(fill.size), 0);
+                const trades = this.engine.getTrades(product.id).map((trade) => ({
+                    fill: { created_at: trade.time, size: trade.size },
+                }));
+
+                return {
+                    exchange_volume: `${traded(trades)}`,
+                    product_id     : product.id,
+                    recorded_at    : now,
+                    volume         : `${traded(this.engine.listFills(profileId, undefined, product.id))}`,
+                };
+            }),
+        };
+    }
+}
+
+/**
+ * Factory function to get a mock exchange.  Call #start() before pointing clients at it.
+ *
+ * @param {IMockExchangeOptions} options
+ * @returns {IMockExchange}
+ */
+export const getMockExchange = (options?: IMockExchangeOptions): IMockExchange => new MockExchange(options);
@@ -0,0 +1,297 @@
+/**
+ * Response models for the REST API.  Monetary values are returned by GDAX as decimal strings and are left as such.
+ */
+
+export interface IProduct {
+    id: string;
+    base_currency: string;
+    quote_currency: string;
+    base_min_size: string;
+    base_max_size: string;
+    quote_increment: string;
+    display_name?: string;
+    status?: string;
+    status_message?: string;
+    margin_enabled?: boolean;
+    min_market_funds?: string;
+    max_market_funds?: string;
+    post_only?: boolean;
+    limit_only?: boolean;
+    cancel_only?: boolean;
+}
+
+/**
+ * A book entry.  Levels 1 and 2 return [price, size, num-orders]; level 3 returns [price, size, order_id].
+ */
+export type IBookEntry = [string, string, number | string];
+
+export interface IProductOrderBook {
+    sequence: number;
+    bids: IBookEntry[];
+    asks: IBookEntry[];
+}
+
+export interface IProductTicker {
+    trade_id: number;
+    price: string;
+    size: string;
+    bid: string;
+    ask: string;
+    volume: string;
+    time: string;
+}
+
+export interface ITrade {
+    time: string;
+    trade_id: number;
+    price: string;
+    size: string;
+    side: string;
+}
+
+/**
+ * The raw candle bucket as returned by the API: [time, low, high, open, close, volume].
+ */
+export type ICandleTuple = [number, number, number, number, number, number];
+
+/**
+ * A candle bucket with named fields.  `time` is the bucket start in epoch seconds.
+ */
+export interface ICandle {
+    time: number;
+    low: number;
+    high: number;
+    open: number;
+    close: number;
+    volume: number;
+}
+
+export interface IProductStats {
+    open: string;
+    high: string;
+    low: string;
+    volume: string;
+    last?: string;
+    volume_30day?: string;
+}
+
+export interface ICurrency {
+    id: string;
+    name: string;
+    min_size: string;
+    status?: string;
+    message?: string;
+}
+
+export interface IServerTime {
+    iso: string;
+    epoch: number;
+}
+
+export interface IAccount {
+    id: string;
+    currency: string;
+    balance: string;
+    available: string;
+    hold: string;
+    profile_id: string;
+    margin_enabled?: boolean;
+    funded_amount?: string;
+    default_amount?: string;
+}
+
+export type LedgerEntryType = 'transfer' | 'match' | 'fee' | 'rebate';
+
+export interface ILedgerEntry {
+    id: string;
+    created_at: string;
+    amount: string;
+    balance: string;
+    type: LedgerEntryType;
+    details: {
+        order_id?: string;
+        trade_id?: string;
+        product_id?: string;
+        transfer_id?: string;
+        transfer_type?: string;
+    };
+}
+
+export interface IHold {
+    id: string;
+    account_id: string;
+    created_at: string;
+    updated_at: string;
+    amount: string;
+    type: 'order' | 'transfer';
+    ref: string;
+}
+
+export interface IOrder {
+    id: string;
+    price?: string;
+    size?: string;
+    funds?: string;
+    specified_funds?: string;
+    product_id: string;
+    side: string;
+    stp?: string;
+    type: string;
+    time_in_force?: string;
+    post_only: boolean;
+    created_at: string;
+    done_at?: string;
+    done_reason?: string;
+    fill_fees: string;
+    filled_size: string;
+    executed_value: string;
+    status: string;
+    settled: boolean;
+    stop?: string;
+    stop_price?: string;
+    client_oid?: string;
+}
+
+export interface IFill {
+    trade_id: number;
+    product_id: string;
+    price: string;
+    size: string;
+    order_id: string;
+    created_at: string;
+    liquidity: 'M' | 'T';
+    fee: string;
+    settled: boolean;
+    side: string;
+}
+
+export interface IFunding {
+    id: string;
+    order_id: string;
+    profile_id: string;
+    amount: string;
+    status: string;
+    created_at: string;
+    currency: string;
+    repaid_amount: string;
+    default_amount?: string;
+    repaid_default?: boolean;
+}
+
+export interface IMarginTransfer {
+    id: string;
+    created_at: string;
+    user_id: string;
+    profile_id: string;
+    margin_profile_id: string;
+    type: string;
+    amount: string;
+    currency: string;
+    account_id: string;
+    margin_account_id: string;
+    margin_product_id: string;
+    status: string;
+    nonce: number;
+}
+
+export interface IPositionAccount {
+    id: string;
+    balance: string;
+    hold: string;
+    funded_amount: string;
+    default_amount: string;
+}
+
+export interface IPosition {
+    status: string;
+    funding: {
+        max_funding_value: string;
+        funding_value: string;
+        oldest_outstanding?: {
+            id: string;
+            order_id: string;
+            created_at: string;
+            currency: string;
+            account_id: string;
+            amount: string;
+        };
+    };
+    accounts: { [currency: string]: IPositionAccount };
+    margin_call: {
+        active: boolean;
+        price?: string;
+        side?: string;
+        size?: string;
+        funds?: string;
+    };
+    user_id: string;
+    profile_id: string;
+    position: {
+        type: string;
+        size: string;
+        complement: string;
+        max_size: string;
+    };
+    product_id: string;
+}
+
+/**
+ * The receipt returned by deposits and withdrawals.
+ */
+export interface ITransferReceipt {
+    id: string;
+    amount: string;
+    currency: string;
+    payout_at?: string;
+}
+
+export interface IPaymentMethod {
+    id: string;
+    type: string;
+    name: string;
+    currency: string;
+    primary_buy: boolean;
+    primary_sell: boolean;
+    allow_buy: boolean;
+    allow_sell: boolean;
+    allow_deposit: boolean;
+    allow_withdraw: boolean;
+    limits?: {
+        [limitType: string]: Array<{
+            period_in_days: number;
+            total: { amount: string; currency: string };
+            remaining: { amount: string; currency: string };
+        }>;
+    };
+}
+
+export interface ICoinbaseAccount {
+    id: string;
+    name: string;
+    balance: string;
+    currency: string;
+    type: string;
+    primary: boolean;
+    active: boolean;
+}
+
+export interface IReport {
+    id: string;
+    type: 'fills' | 'account';
+    status: 'pending' | 'creating' | 'ready' | 'failed';
+    created_at?: string;
+    completed_at?: string;
+    expires_at?: string;
+    file_url?: string;
+    params?: {
+        start_date: string;
+        end_date: string;
+    };
+}
+
+export interface ITrailingVolume {
+    product_id: string;
+    exchange_volume: string;
+    volume: string;
+    recorded_at: string;
+}
@@ -0,0 +1,579 @@
+import { EventEmitter } from 'events';
+import { IGdaxClient } from '../index';
+import {
+    IChangeMessage,
+    IDoneMessage,
+    IFeedClient,
+    IFeedMessage,
+    IL2UpdateMessage,
+    IMatchMessage,
+    IOpenMessage,
+    IReceivedMessage,
+    ISnapshotMessage,
+} from './feed';
+
+/**
+ * Which side of the book.
+ */
+export type BookSide = 'bids' | 'asks';
+
+/**
+ * Level 2 books are aggregated by price and fed by the level2 channel.  Level 3 books track every order and are fed
+ * by the full channel.
+ */
+//tslint:disable:no-magic-numbers
+export type OrderBookLevel = 2 | 3;
+//tslint:enable:no-magic-numbers
+
+/**
+ * Order book options.  When the REST snapshot of a level 3 book fails, it is fetched again after `resyncDelay` ms,
+ * doubling the delay up to `maxResyncDelay` for as long as it keeps failing.
+ */
+export type IOrderBookOptions = { level?: OrderBookLevel; resyncDelay?: number; maxResyncDelay?: number };
+
+/**
+ * An aggregated price level.  `orders` is the number of orders resting at the price (level 3 books only).
+ */
+export type IPriceLevel = { price: number; size: number; orders?: number };
+
+/**
+ * Emitted whenever the total size at a price changes.  A size of zero means the level was removed.
+ */
+export type IOrderBookChange = { side: BookSide; price: number; size: number; sequence?: number };
+
+/**
+ * The result of walking the book until `size` has been accumulated.
+ */
+export type ICumulativeVolume = {
+    size: number;
+    notional: number;
+    averagePrice: number;
+    worstPrice: number;
+    complete: boolean;
+};
+
+/**
+ * The shape of a locally maintained order book.
+ *
+ * Events: 'change' (IOrderBookChange), 'synced' (sequence), 'gap' (expected, received) and 'error' (only when someone
+ * is listening for it).
+ */
+export interface IOrderBook {
+    productId: string;
+    level: OrderBookLevel;
+    sequence: number;
+
+    start(): Promise<void>;
+
+    stop(): void;
+
+    resync(): Promise<void>;
+
+    isSynced(): boolean;
+
+    getBestBid(): IPriceLevel;
+
+    getBestAsk(): IPriceLevel;
+
+    getBids(depth?: number): IPriceLevel[];
+
+    getAsks(depth?: number): IPriceLevel[];
+
+    getDepthAtPrice(side: BookSide, price: number): number;
+
+    getCumulativeVolume(side: BookSide, size: number): ICumulativeVolume;
+
+    on(event: 'change', listener: (change: IOrderBookChange) => void): this;
+    on(event: 'synced', listener: (sequence: number) => void): this;
+    on(event: 'gap', listener: (expected: number, received: number) => void): this;
+    on(event: 'error', listener: (err: Error) => void): this;
+}
+
+/**
+ * One side of the book: price levels keyed by price, plus a price list kept sorted best-first.
+ */
+class PriceLadder {
+
+    private levels: Map<number, IPriceLevel> = new Map();
+    private prices: number[] = [];
+    private descending: boolean;
+
+    constructor(descending: boolean) {
+        this.descending = descending;
+    }
+
+    public clear(): void {
+        this.levels.clear();
+        this.prices = [];
+    }
+
+    public get(price: number): IPriceLevel {
+        return this.levels.get(price);
+    }
+
+    public best(): IPriceLevel {
+        return this.prices.length > 0 ? this.levels.get(this.prices[0]) : null;
+    }
+
+    public top(depth?: number): IPriceLevel[] {
+        const prices = depth === undefined ? this.prices : this.prices.slice(0, depth);
+
+        return prices.map((price) => ({ ...this.levels.get(price) }));
+    }
+
+    /**
+     * Adds `delta` to the size (and `orderDelta` to the order count) at a price, removing the level when it empties.
+     *
+     * @returns {number} the new total size at the price
+     */
+    public adjust(price: number, delta: number, orderDelta?: number): number {
+        const level = this.levels.get(price);
+
+        if (level === undefined) {
+            if (delta <= 0) return 0;
+
+            return this.set(price, delta, orderDelta);
+        }
+
+        level.size += delta;
+        if (orderDelta !== undefined) level.orders += orderDelta;
+
+        if (level.size <= 0 || (level.orders !== undefined && level.orders <= 0)) return this.set(price, 0);
+
+        return level.size;
+    }
+
+    /**
+     * Replaces the size at a price.  A size of zero removes the level.
+     *
+     * @returns {number} the new total size at the price
+     */
+    public set(price: number, size: number, orders?: number): number {
+        const exists = this.levels.has(price);
+
+        if (size <= 0) {
+            if (exists) {
+                this.levels.delete(price);
+                this.prices.splice(this.indexOf(price), 1);
+            }
+
+            return 0;
+        }
+
+        this.levels.set(price, orders === undefined ? { price, size } : { price, size, orders });
+        if (!exists) this.prices.splice(this.indexOf(price), 0, price);
+
+        return size;
+    }
+
+    /**
+     * Binary search for the position of `price` (or where it would be inserted).
+     */
+    private indexOf(price: number): number {
+        let low  = 0;
+        let high = this.prices.length;
+
+        while (low < high) {
+            //tslint:disable-next-line:no-bitwise
+            const mid    = (low + high) >>> 1;
+            const before = this.descending ? this.prices[mid] > price : this.prices[mid] < price;
+
+            if (before) low = mid + 1;
+            else high = mid;
+        }
+
+        return low;
+    }
+}
+
+/**
+ * A resting order in a level 3 book.
+ */
+type IBookOrder = { side: BookSide; price: number; size: number };
+
+/**
+ * The full channel messages that carry a sequence number and affect the book.
+ */
+type ISequencedMessage = IReceivedMessage | IOpenMessage | IDoneMessage | IMatchMessage | IChangeMessage;
+
+/**
+ * Maps the feed's 'buy'/'sell' onto book sides.
+ */
+const sideOf = (side: string): BookSide => side === 'buy' ? 'bids' : 'asks';
+
+/**
+ * Books default to level 2; level 3 is the "full" book.
+ */
+const defaultLevel: OrderBookLevel = 2;
+const fullLevel: OrderBookLevel    = 3;
+
+/**
+ * Default snapshot retry delays.
+ */
+const defaultOrderBookConfig = {
+    maxResyncDelay: 30000,
+    resyncDelay   : 1000,
+};
+
+/**
+ * An order book maintained from a snapshot plus feed updates.
+ */
+class OrderBook extends EventEmitter implements IOrderBook {
+
+    public productId: string;
+    public level: OrderBookLevel;
+    public sequence: number = -1;
+
+    private client: IGdaxClient;
+    private feed: IFeedClient;
+    private options: IOrderBookOptions;
+    private bids: PriceLadder = new PriceLadder(true);
+    private asks: PriceLadder = new PriceLadder(false);
+    private full: boolean;
+    private orders: Map<string, IBookOrder> = new Map();
+    private buffer: ISequencedMessage[] = [];
+    private syncing: boolean = false;
+    private synced: boolean = false;
+    private running: boolean = false;
+    private resyncAttempts: number = 0;
+    private resyncTimer: NodeJS.Timer = null;
+    private messageListener: (message: IFeedMessage) => void;
+    private connectedListener: () => void;
+
+    constructor(client: IGdaxClient, feed: IFeedClient, productId: string, options?: IOrderBookOptions) {
+        super();
+        this.client    = client;
+        this.feed      = feed;
+        this.productId = productId;
+        this.options   = { ...defaultOrderBookConfig, ...options };
+        this.level     = this.options.level !== undefined ? this.options.level : defaultLevel;
+        this.full      = this.level === fullLevel;
+
+        this.messageListener   = (message: IFeedMessage) => this.handleMessage(message);
+        this.connectedListener = () => { this.resync().catch((err: Error) => this.emitError(err)); };
+    }
+
+    /**
+     * Subscribes to the product on the feed and loads the initial snapshot.  Level 2 books are seeded by the
+     * snapshot the level2 channel sends on subscription; level 3 books fetch a REST snapshot.  If that first snapshot
+     * fails, the book is stopped again (nothing is retried) before the error rejects, so it can be started again.
+     *
+     * @returns {Promise<void>}
+     */
+    public async start(): Promise<void> {
+        if (this.running) return;
+        this.running = true;
+
+        this.feed.on('message', this.messageListener);
+        this.feed.on('connected', this.connectedListener);
+        this.feed.subscribe([this.full ? 'full' : 'level2'], [this.productId]);
+
+        if (!this.full) return;
+
+        try {
+            await this.resync();
+        } catch (err) {
+            this.stop();
+            throw err;
+        }
+    }
+
+    /**
+     * Stops applying updates and unsubscribes from the product.  The last known state remains readable.
+     */
+    public stop(): void {
+        if (!this.running) return;
+        this.running = false;
+        this.synced  = false;
+        this.cancelResync();
+
+        this.feed.removeListener('message', this.messageListener);
+        this.feed.removeListener('connected', this.connectedListener);
+        this.feed.unsubscribe([this.full ? 'full' : 'level2'], [this.productId]);
+    }
+
+    /**
+     * Discards the current state and rebuilds the book.  Level 3 books buffer feed messages while the snapshot is
+     * fetched and replay any that are newer than it; level 2 books re-subscribe to get a fresh snapshot.  A failed
+     * snapshot rejects and is retried with backoff.
+     *
+     * @returns {Promise<void>}
+     */
+    public async resync(): Promise<void> {
+        if (!this.running || this.syncing) return;
+
+        this.synced = false;
+
+        if (!this.full) {
+            this.feed.unsubscribe(['level2'], [this.productId]);
+            this.feed.subscribe(['level2'], [this.productId]);
+
+            return;
+        }
+
+        this.cancelResync();
+        this.syncing = true;
+        this.buffer  = [];
+
+        try {
+            const { data } = await this.client.getProductOrderBook(this.productId, { level: fullLevel });
+
+            this.reset();
+            this.sequence = data.sequence;
+
+            for (const [price, size, orderId] of data.bids) this.addOrder(`${orderId}`, 'bids', price, size);
+            for (const [price, size, orderId] of data.asks) this.addOrder(`${orderId}`, 'asks', price, size);
+        } catch (err) {
+            this.scheduleResync();
+            throw err;
+        } finally {
+            this.syncing = false;
+        }
+
+        this.resyncAttempts = 0;
+
+        // Snapshot levels are not reported individually; listeners should re-read the book on 'synced'.
+
+        this.synced = true;
+        this.emit('synced', this.sequence);
+
+        const buffered = this.buffer;
+        this.buffer    = [];
+        buffered.forEach((message) => this.handleSequencedMessage(message));
+    }
+
+    public isSynced(): boolean {
+        return this.synced;
+    }
+
+    public getBestBid(): IPriceLevel {
+        return this.bids.best();
+    }
+
+    public getBestAsk(): IPriceLevel {
+        return this.asks.best();
+    }
+
+    public getBids(depth?: number): IPriceLevel[] {
+        return this.bids.top(depth);
+    }
+
+    public getAsks(depth?: number): IPriceLevel[] {
+        return this.asks.top(depth);
+    }
+
+    /**
+     * Total size resting at exactly `price`.
+     *
+     * @param {BookSide} side
+     * @param {number} price
+     * @returns {number}
+     */
+    public getDepthAtPrice(side: BookSide, price: number): number {
+        const level = this.ladder(side).get(price);
+
+        return level === undefined ? 0 : level.size;
+    }
+
+    /**
+     * Walks one side of the book from the best price until `size` has been accumulated.  Use 'asks' to price a buy
+     * and 'bids' to price a sell.  `complete` is false when the book is not deep enough.
+     *
+     * @param {BookSide} side
+     * @param {number} size
+     * @returns {ICumulativeVolume}
+     */
+    public getCumulativeVolume(side: BookSide, size: number): ICumulativeVolume {
+        let filled     = 0;
+        let notional   = 0;
+        let worstPrice = 0;
+
+        for (const level of this.ladder(side).top()) {
+            if (filled >= size) break;
+
+            const take = Math.min(level.size, size - filled);
+            filled    += take;
+            notional  += take * level.price;
+            worstPrice = level.price;
+        }
+
+        return {
+            averagePrice: filled > 0 ? notional / filled : 0,
+            complete    : filled >= size,
+            notional,
+            size        : filled,
+            worstPrice,
+        };
+    }
+
+    private ladder(side: BookSide): PriceLadder {
+        return side === 'bids' ? this.bids : this.asks;
+    }
+
+    private reset(): void {
+        this.bids.clear();
+        this.asks.clear();
+        this.orders.clear();
+    }
+
+    private handleMessage(message: IFeedMessage): void {
+        switch (message.type) {
+            case 'snapshot':
+            case 'l2update':
+                if (!this.full && message.product_id === this.productId) this.handleLevel2Message(message);
+                break;
+            case 'received':
+            case 'open':
+            case 'done':
+            case 'match':
+            case 'change':
+                if (this.full && message.product_id === this.productId) this.handleSequencedMessage(message);
+                break;
+            default:
+                break;
+        }
+    }
+
+    private handleSequencedMessage(message: ISequencedMessage): void {
+        if (this.syncing) {
+            this.buffer.push(message);
+
+            return;
+        }
+
+        if (!this.synced || message.sequence <= this.sequence) return;
+
+        if (message.sequence > this.sequence + 1) {
+            this.emit('gap', this.sequence + 1, message.sequence);
+            this.resync().catch((err: Error) => this.emitError(err));
+
+            return;
+        }
+
+        this.sequence = message.sequence;
+
+        switch (message.type) {
+            case 'open':
+                this.addOrder(message.order_id, sideOf(message.side), message.price, message.remaining_size);
+                break;
+            case 'done':
+                this.removeOrder(message.order_id);
+                break;
+            case 'match':
+                this.resizeOrder(message.maker_order_id, -parseFloat(message.size), true);
+                break;
+            case 'change':
+                if (message.new_size !== undefined) this.resizeOrder(message.order_id, parseFloat(message.new_size));
+                break;
+            default:
+                break;
+        }
+    }
+
+    private handleLevel2Message(message: ISnapshotMessage | IL2UpdateMessage): void {
+        if (message.type === 'snapshot') {
+            this.synced = false;
+            this.reset();
+            for (const [price, size] of message.bids) this.setLevel('bids', price, size);
+            for (const [price, size] of message.asks) this.setLevel('asks', price, size);
+            this.synced = true;
+            this.emit('synced', this.sequence);
+        } else if (message.type === 'l2update' && this.synced) {
+            for (const [side, price, size] of message.changes) this.setLevel(sideOf(side), price, size);
+        }
+    }
+
+    private setLevel(side: BookSide, price: string, size: string): void {
+        const priceValue = parseFloat(price);
+        const total      = this.ladder(side).set(priceValue, parseFloat(size));
+
+        this.emitChange(side, priceValue, total);
+    }
+
+    private addOrder(orderId: string, side: BookSide, price: string, size: string): void {
+        const order = { price: parseFloat(price), side, size: parseFloat(size) };
+        this.orders.set(orderId, order);
+
+        this.emitChange(side, order.price, this.ladder(side).adjust(order.price, order.size, 1));
+    }
+
+    private removeOrder(orderId: string): void {
+        const order = this.orders.get(orderId);
+        if (order === undefined) return;
+
+        this.orders.delete(orderId);
+
+        const total = this.ladder(order.side).adjust(order.price, -order.size, -1);
+
+        // Fully matched orders were already accounted for by their last match.
+        if (order.size > 0) this.emitChange(order.side, order.price, total);
+    }
+
+    /**
+     * Applies a size change to a resting order, either as a delta (matches) or as a new absolute size (changes).
+     */
+    private resizeOrder(orderId: string, size: number, isDelta: boolean = false): void {
+        const order = this.orders.get(orderId);
+        if (order === undefined) return;
+
+        const newSize = isDelta ? order.size + size : size;
+        const delta   = newSize - order.size;
+        order.size    = newSize;
+
+        this.emitChange(order.side, order.price, this.ladder(order.side).adjust(order.price, delta, 0));
+    }
+
+    private emitChange(side: BookSide, price: number, size: number): void {
+        if (this.syncing || !this.synced) return;
+
+        const change: IOrderBookChange = { price, side, size };
+        if (this.full) change.sequence = this.sequence;
+
+        this.emit('change', change);
+    }
+
+    /**
+     * Fetches the snapshot again after a failure, with exponential backoff capped at maxResyncDelay.
+     */
+    private scheduleResync(): void {
+        if (!this.running) return;
+
+        //tslint:disable:no-magic-numbers
+        const delay = Math.min(this.options.resyncDelay * Math.pow(2, this.resyncAttempts),
+                               this.options.maxResyncDelay);
+        //tslint:enable:no-magic-numbers
+
+        this.resyncAttempts += 1;
+        this.resyncTimer     = setTimeout(() => {
+            this.resyncTimer = null;
+            this.resync().catch((err: Error) => this.emitError(err));
+        }, delay);
+    }
+
+    private cancelResync(): void {
+        if (this.resyncTimer !== null) {
+            clearTimeout(this.resyncTimer);
+            this.resyncTimer = null;
+        }
+    }
+
+    private emitError(err: Error): void {
+        if (this.listenerCount('error') > 0) this.emit('error', err);
+    }
+}
+
+/**
+ * Factory function to get a locally maintained order book for a single product.  The book shares the given feed
+ * client (so several books can ride on one socket) and uses the REST client for level 3 snapshots.
+ *
+ * @param {IGdaxClient} client
+ * @param {IFeedClient} feed
+ * @param {string} productId
+ * @param {IOrderBookOptions} options
+ * @returns {IOrderBook}
+ */
+export const getOrderBook = (client: IGdaxClient,
+                             feed: IFeedClient,
+                             productId: string,
+                             options?: IOrderBookOptions): IOrderBook =>
+    new OrderBook(client, feed, productId, options);
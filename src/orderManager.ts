@@ -0,0 +1,447 @@
+import { EventEmitter } from 'events';
+import { IGdaxClient, INewOrderParams, IPlaceOrderOptions } from '../index';
+import { toGdaxError, NotFoundError } from './errors';
+import {
+    IChangeMessage,
+    IDoneMessage,
+    IFeedClient,
+    IFeedMessage,
+    IMatchMessage,
+    IOpenMessage,
+    IReceivedMessage,
+} from './feed';
+import { IOrder } from './models';
+import { getPaginator } from './pagination';
+
+/**
+ * Order manager options.  With a `feed` (authenticated), orders are followed on the user channel of `productIds`
+ * (default: all products) and polled only while the feed is disconnected; without one they are polled every
+ * `pollInterval` ms.
+ */
+export type IOrderManagerOptions = { feed?: IFeedClient; productIds?: string[]; pollInterval?: number };
+
+/**
+ * A fill of a tracked order.  `price` is the average price of the fill (polling may merge several).
+ */
+export type IOrderFill = { order: IOrder; size: number; price: number; tradeId?: number };
+
+/**
+ * The events an order goes through.  Each is emitted at most once per order, except 'partialFill'.
+ */
+export type OrderEvent = 'received' | 'open' | 'partialFill' | 'filled' | 'cancelled' | 'rejected' | 'done';
+
+/**
+ * Tracks orders placed through it (or adopted) and emits their lifecycle.
+ *
+ * Events: 'received', 'open', 'filled', 'cancelled', 'rejected' and 'done' (IOrder; 'done' follows every terminal
+ * event), 'partialFill' (IOrderFill) for fills that leave the order open, and 'error' (only when someone is listening
+ * for it).
+ */
+export interface IOrderManager {
+    start(): Promise<void>;
+
+    stop(): void;
+
+    placeOrder(params: INewOrderParams, options?: IPlaceOrderOptions): Promise<IOrder>;
+
+    cancelOrder(orderId: string): Promise<void>;
+
+    track(order: IOrder): void;
+
+    reconcile(): Promise<void>;
+
+    getOrder(orderId: string): IOrder;
+
+    getOpenOrders(productId?: string): IOrder[];
+
+    on(event: 'received' | 'open' | 'filled' | 'cancelled' | 'rejected' | 'done', listener: (order: IOrder) => void):
+        this;
+    on(event: 'partialFill', listener: (fill: IOrderFill) => void): this;
+    on(event: 'error', listener: (err: Error) => void): this;
+
+    removeListener(event: string, listener: (...args: Array<{}>) => void): this;
+}
+
+/**
+ * A tracked order, with the events already emitted for it and the trades already counted.  `unmatched` is the size
+ * counted from REST snapshots that no feed match has been set against yet.  A fill of a funds-based order is held back
+ * as `heldFill` until it is known whether it left the order open.
+ */
+type ITrackedOrder = {
+    order: IOrder;
+    announced: Set<OrderEvent>;
+    tradeIds: Set<number>;
+    unmatched: number;
+    heldFill?: IOrderFill;
+};
+
+/**
+ * Default manager options.
+ */
+const defaultManagerConfig = {
+    pollInterval: 5000,
+};
+
+/**
+ * Statuses of orders that may still change.
+ */
+const liveStatuses = ['received', 'pending', 'open', 'active'];
+
+//tslint:disable-next-line:no-magic-numbers
+const format = (value: number): string => value.toFixed(8);
+
+class OrderManager extends EventEmitter implements IOrderManager {
+
+    private client: IGdaxClient;
+    private options: IOrderManagerOptions;
+    private orders: Map<string, ITrackedOrder> = new Map();
+    private productIds: string[] = [];
+    private timer: NodeJS.Timer = null;
+    private running: boolean = false;
+    private messageListener: (message: IFeedMessage) => void;
+    private connectedListener: () => void;
+
+    constructor(client: IGdaxClient, options?: IOrderManagerOptions) {
+        super();
+        this.client  = client;
+        this.options = { ...defaultManagerConfig, ...options };
+
+        this.messageListener   = (message: IFeedMessage) => this.handleMessage(message);
+        this.connectedListener = () => { this.reconcile().catch((err: Error) => this.emitError(err)); };
+    }
+
+    /**
+     * Picks up the account's open orders, then follows them on the feed or by polling.  If the products or the open
+     * orders cannot be listed, nothing is followed and #start can be called again.
+     *
+     * @returns {Promise<void>}
+     */
+    public async start(): Promise<void> {
+        if (this.running) return;
+        this.running = true;
+
+        const feed = this.options.feed;
+
+        try {
+            if (feed !== undefined) {
+                this.productIds = this.options.productIds !== undefined ?
+                                  this.options.productIds :
+                                  (await this.client.getProducts()).data.map((product) => product.id);
+
+                feed.on('message', this.messageListener);
+                feed.on('connected', this.connectedListener);
+                feed.subscribe(['user'], this.productIds);
+            }
+
+            await this.reconcile();
+        } catch (err) {
+            this.stop();
+            throw err;
+        }
+
+        this.timer = setInterval(() => {
+            if (feed !== undefined && feed.isConnected()) return;
+
+            this.reconcile().catch((err: Error) => this.emitError(err));
+        }, this.options.pollInterval);
+    }
+
+    public stop(): void {
+        if (!this.running) return;
+        this.running = false;
+
+        clearInterval(this.timer);
+        this.timer = null;
+
+        const feed = this.options.feed;
+
+        if (feed !== undefined) {
+            feed.removeListener('message', this.messageListener);
+            feed.removeListener('connected', this.connectedListener);
+            if (this.productIds.length > 0) feed.unsubscribe(['user'], this.productIds);
+            this.productIds = [];
+        }
+    }
+
+    /**
+     * Places an order through the client and tracks it.  Failed placements are thrown, not emitted.
+     *
+     * @param {INewOrderParams} params
+     * @param {IPlaceOrderOptions} options
+     * @returns {Promise<IOrder>}
+     */
+    public async placeOrder(params: INewOrderParams, options?: IPlaceOrderOptions): Promise<IOrder> {
+        const { data } = await this.client.placeNewOrder(params, options);
+
+        this.apply(data);
+
+        return this.getOrder(data.id);
+    }
+
+    /**
+     * Cancels an order.  It is reported cancelled as soon as the exchange accepts the cancellation.
+     *
+     * @param {string} orderId
+     * @returns {Promise<void>}
+     */
+    public async cancelOrder(orderId: string): Promise<void> {
+        await this.client.cancelOrder(orderId);
+
+        const tracked = this.orders.get(orderId);
+        if (tracked !== undefined) this.transition(tracked, 'done', 'canceled');
+    }
+
+    /**
+     * Starts tracking an order placed elsewhere.
+     *
+     * @param {IOrder} order
+     */
+    public track(order: IOrder): void {
+        this.apply(order);
+    }
+
+    /**
+     * Brings the tracked state in line with the exchange: open orders are listed (and adopted if unknown), and
+     * tracked orders that are no longer open are looked up.  Orders that cannot be found were cancelled without fills.
+     *
+     * @returns {Promise<void>}
+     */
+    public async reconcile(): Promise<void> {
+        const listed = new Set<string>();
+
+        for await (const order of getPaginator(this.client).orders({ status: ['open', 'pending', 'active'] })) {
+            listed.add(order.id);
+            this.apply(order);
+        }
+
+        for (const tracked of this.live().filter(({ order }) => !listed.has(order.id))) {
+            try {
+                this.apply((await this.client.getOrder(tracked.order.id)).data);
+            } catch (err) {
+                if (!(toGdaxError(err) instanceof NotFoundError)) throw err;
+
+                this.transition(tracked, 'done', 'canceled');
+            }
+        }
+    }
+
+    public getOrder(orderId: string): IOrder {
+        const tracked = this.orders.get(orderId);
+
+        return tracked === undefined ? undefined : { ...tracked.order };
+    }
+
+    public getOpenOrders(productId?: string): IOrder[] {
+        return this.live().filter(({ order }) => productId === undefined || order.product_id === productId)
+                          .map(({ order }) => ({ ...order }));
+    }
+
+    private live(): ITrackedOrder[] {
+        return Array.from(this.orders.values()).filter(({ order }) => liveStatuses.indexOf(order.status) >= 0);
+    }
+
+    /**
+     * Merges a REST snapshot of an order.  Fills are derived from the growth of `filled_size`; the feed matches of the
+     * same trades are not counted again when they arrive.
+     */
+    private apply(snapshot: IOrder): void {
+        let tracked = this.orders.get(snapshot.id);
+
+        if (tracked === undefined) {
+            const order = { ...snapshot, executed_value: format(0), filled_size: format(0), status: 'received' };
+            tracked     = { announced: new Set(), order, tradeIds: new Set(), unmatched: 0 };
+            this.orders.set(snapshot.id, tracked);
+        }
+
+        if (liveStatuses.indexOf(tracked.order.status) < 0) return;
+
+        const { filled_size, executed_value, status, done_reason } = tracked.order;
+        const filled                                               = parseFloat(snapshot.filled_size);
+        const executed                                             = parseFloat(snapshot.executed_value);
+
+        tracked.order = { ...snapshot, done_reason, executed_value, filled_size, status };
+        this.announce(tracked, 'received');
+
+        if (filled > parseFloat(filled_size)) {
+            const size = filled - parseFloat(filled_size);
+            const open = liveStatuses.indexOf(snapshot.status) >= 0;
+            tracked.unmatched += size;
+            this.recordFill(tracked, size, (executed - parseFloat(executed_value)) / size, undefined, open);
+        }
+
+        this.transition(tracked, snapshot.status, snapshot.done_reason);
+    }
+
+    /**
+     * Counts a fill and emits it as a 'partialFill' if it leaves the order open.  Orders with a size are open until
+     * it is filled.  Whether a fill left a funds-based order open is known from the status polled with it (`open`);
+     * fills seen on the feed are held until the next fill (open) or the end of the order (not open).
+     */
+    private recordFill(tracked: ITrackedOrder, size: number, price: number, tradeId?: number, open?: boolean): void {
+        this.releaseFill(tracked);
+
+        const order          = tracked.order;
+        const filled         = parseFloat(order.filled_size) + size;
+        order.filled_size    = format(filled);
+        order.executed_value = format(parseFloat(order.executed_value) + size * price);
+
+        const fill: IOrderFill = { order: { ...order }, price, size };
+        if (tradeId !== undefined) fill.tradeId = tradeId;
+
+        if (order.size !== undefined) {
+            if (filled < parseFloat(order.size)) this.emit('partialFill', fill);
+        } else if (open === undefined) {
+            tracked.heldFill = fill;
+        } else if (open) {
+            this.emit('partialFill', fill);
+        }
+    }
+
+    /**
+     * Emits the held fill: the order stayed open after it.
+     */
+    private releaseFill(tracked: ITrackedOrder): void {
+        const fill       = tracked.heldFill;
+        tracked.heldFill = undefined;
+
+        if (fill !== undefined) this.emit('partialFill', fill);
+    }
+
+    /**
+     * Moves an order to a new status, emitting each event once.  Terminal states are final.
+     */
+    private transition(tracked: ITrackedOrder, status: string, reason?: string): void {
+        const order = tracked.order;
+        if (liveStatuses.indexOf(order.status) < 0) return;
+
+        switch (status) {
+            case 'open':
+            case 'active':
+                this.releaseFill(tracked);
+                order.status = status;
+                this.announce(tracked, 'open');
+                break;
+            case 'rejected':
+                order.status      = status;
+                order.done_reason = reason;
+                this.announce(tracked, 'rejected');
+                this.announce(tracked, 'done');
+                break;
+            case 'done':
+                tracked.heldFill  = undefined;
+                order.status      = status;
+                order.done_reason = reason;
+                this.announce(tracked, reason === 'filled' ? 'filled' : 'cancelled');
+                this.announce(tracked, 'done');
+                break;
+            default:
+        }
+    }
+
+    private announce(tracked: ITrackedOrder, event: OrderEvent): void {
+        if (tracked.announced.has(event)) return;
+
+        tracked.announced.add(event);
+        this.emit(event, { ...tracked.order });
+    }
+
+    /**
+     * Applies user channel messages.  Messages about unknown orders are adopted only when they carry a profile id,
+     * i.e. come from the user channel rather than a full channel shared on the same feed.
+     */
+    private handleMessage(message: IFeedMessage): void {
+        switch (message.type) {
+            case 'received':
+                this.onReceived(message);
+                break;
+            case 'open':
+                this.onOpen(message);
+                break;
+            case 'match':
+                this.onMatch(message);
+                break;
+            case 'change':
+                this.onChange(message);
+                break;
+            case 'done':
+                this.onDone(message);
+                break;
+            default:
+        }
+    }
+
+    private onReceived(message: IReceivedMessage): void {
+        if (this.orders.has(message.order_id) || message.profile_id === undefined) return;
+
+        const order: IOrder = {
+            created_at    : message.time,
+            executed_value: format(0),
+            fill_fees     : format(0),
+            filled_size   : format(0),
+            id            : message.order_id,
+            post_only     : false,
+            product_id    : message.product_id,
+            settled       : false,
+            side          : message.side,
+            status        : 'received',
+            type          : message.order_type,
+        };
+
+        if (message.price !== undefined) order.price = message.price;
+        if (message.size !== undefined) order.size = message.size;
+        if (message.funds !== undefined) order.funds = message.funds;
+        if (message.client_oid !== undefined) order.client_oid = message.client_oid;
+
+        this.apply(order);
+    }
+
+    private onOpen(message: IOpenMessage): void {
+        const tracked = this.orders.get(message.order_id);
+        if (tracked !== undefined) this.transition(tracked, 'open');
+    }
+
+    /**
+     * Counts a match against a live order.  The part of it already counted from a REST snapshot is not counted again.
+     */
+    private onMatch(message: IMatchMessage): void {
+        for (const orderId of [message.maker_order_id, message.taker_order_id]) {
+            const tracked = this.orders.get(orderId);
+            if (tracked === undefined || tracked.tradeIds.has(message.trade_id)) continue;
+            if (liveStatuses.indexOf(tracked.order.status) < 0) continue;
+
+            const matched     = parseFloat(message.size);
+            const covered     = Math.min(tracked.unmatched, matched);
+            const size        = parseFloat(format(matched - covered));
+            tracked.unmatched = parseFloat(format(tracked.unmatched - covered));
+
+            tracked.tradeIds.add(message.trade_id);
+            if (size > 0) this.recordFill(tracked, size, parseFloat(message.price), message.trade_id);
+        }
+    }
+
+    private onChange(message: IChangeMessage): void {
+        const tracked = this.orders.get(message.order_id);
+        if (tracked === undefined || message.new_size === undefined) return;
+
+        tracked.order.size = format(parseFloat(tracked.order.filled_size) + parseFloat(message.new_size));
+    }
+
+    private onDone(message: IDoneMessage): void {
+        const tracked = this.orders.get(message.order_id);
+        if (tracked !== undefined) this.transition(tracked, 'done', message.reason);
+    }
+
+    private emitError(err: Error): void {
+        if (this.listenerCount('error') > 0) this.emit('error', err);
+    }
+}
+
+/**
+ * Factory function to get an order manager.  Call #start() to pick up existing open orders and begin following them.
+ *
+ * @param {IGdaxClient} client
+ * @param {IOrderManagerOptions} options
+ * @returns {IOrderManager}
+ */
+export const getOrderManager = (client: IGdaxClient, options?: IOrderManagerOptions): IOrderManager =>
+    new OrderManager(client, options);
@@ -0,0 +1,223 @@
+import { IGdaxClient, INewOrderParams } from '../index';
+import { roundToIncrement, Decimal, DecimalInput, RoundingDirection } from './decimal';
+import { ValidationError } from './errors';
+import { IProduct } from './models';
+
+/**
+ * What to do with a price, size or funds that does not fit the product: reject the order, or round it to the nearest
+ * acceptable value that does not worsen the order (buy prices down, sell prices up, sizes and funds down).
+ */
+export type OrderRounding = 'reject' | 'round';
+
+/**
+ * GDAX products of this era do not publish a base increment; sizes are accepted to 8 decimals.
+ */
+const baseIncrement = '0.00000001';
+
+/**
+ * Every field any order type may carry, for checks that must also hold for untyped (JavaScript) callers.
+ */
+type IOrderFields = {
+    type?: string;
+    side?: string;
+    product_id: string;
+    price?: DecimalInput;
+    size?: DecimalInput;
+    funds?: DecimalInput;
+    time_in_force?: string;
+    post_only?: boolean;
+    cancel_after?: string;
+};
+
+/**
+ * Product metadata, fetched once per client.
+ */
+const catalogs = new WeakMap<IGdaxClient, Promise<IProduct[]>>();
+
+/**
+ * Checks the fields of a limit order.
+ */
+const checkLimitFields = (order: IOrderFields): void => {
+    const timeInForce = order.time_in_force === undefined ? 'GTC' : order.time_in_force;
+
+    if (order.price === undefined || order.size === undefined) {
+        throw new ValidationError('limit orders require price and size');
+    }
+    if (order.funds !== undefined) throw new ValidationError('limit orders do not take funds');
+    if (['GTC', 'GTT', 'IOC', 'FOK'].indexOf(timeInForce) < 0) {
+        throw new ValidationError(`invalid time_in_force: ${timeInForce}`);
+    }
+    if (order.post_only === true && timeInForce !== 'GTC' && timeInForce !== 'GTT') {
+        throw new ValidationError('post_only is only allowed with GTC and GTT orders');
+    }
+    if ((order.cancel_after !== undefined) !== (timeInForce === 'GTT')) {
+        throw new ValidationError('cancel_after is required with, and only allowed with, GTT orders');
+    }
+    if (order.cancel_after !== undefined && ['min', 'hour', 'day'].indexOf(order.cancel_after) < 0) {
+        throw new ValidationError(`invalid cancel_after: ${order.cancel_after}`);
+    }
+};
+
+/**
+ * Checks the combination of fields, for callers that bypass the parameter types.
+ */
+const checkFields = (order: IOrderFields): void => {
+    const type = order.type === undefined ? 'limit' : order.type;
+
+    if (order.side !== 'buy' && order.side !== 'sell') throw new ValidationError(`invalid side: ${order.side}`);
+
+    if (type === 'limit') {
+        checkLimitFields(order);
+
+        return;
+    }
+
+    if (type !== 'market' && type !== 'stop') throw new ValidationError(`invalid order type: ${type}`);
+
+    if ((order.size === undefined) === (order.funds === undefined)) {
+        throw new ValidationError(`${type} orders require either size or funds`);
+    }
+    if ((order.price !== undefined) !== (type === 'stop')) {
+        const message = type === 'stop' ? 'stop orders require a price' : 'market orders do not take a price';
+        throw new ValidationError(message);
+    }
+    if (order.time_in_force !== undefined || order.post_only !== undefined || order.cancel_after !== undefined) {
+        throw new ValidationError(`${type} orders do not take time_in_force, post_only or cancel_after`);
+    }
+};
+
+/**
+ * Checks the product's trading status against the order.
+ */
+const checkProduct = (order: IOrderFields, product: IProduct): void => {
+    const type = order.type === undefined ? 'limit' : order.type;
+
+    if (product.id !== order.product_id) {
+        throw new ValidationError(`order for ${order.product_id} checked against ${product.id}`);
+    }
+    if (product.cancel_only === true || (product.status !== undefined && product.status !== 'online')) {
+        throw new ValidationError(`${product.id} is not accepting orders`);
+    }
+    if (product.limit_only === true && type !== 'limit') {
+        throw new ValidationError(`${product.id} only accepts limit orders`);
+    }
+    if (product.post_only === true && order.post_only !== true) {
+        throw new ValidationError(`${product.id} only accepts post-only orders`);
+    }
+};
+
+/**
+ * Brings one amount onto its increment: rounds it when allowed, otherwise rejects it.
+ */
+const conform = (name: string, value: DecimalInput, increment: string, direction: RoundingDirection,
+                 rounding: OrderRounding): Decimal => {
+
+    const amount = new Decimal(value);
+    if (!amount.isPositive() || amount.isZero()) throw new ValidationError(`${name} must be positive`);
+
+    const rounded = roundToIncrement(amount, increment, direction);
+
+    if (rounded.equals(amount)) return amount;
+    if (rounding === 'reject') throw new ValidationError(`${name} ${amount} is not a multiple of ${increment}`);
+    if (rounded.isZero()) throw new ValidationError(`${name} ${amount} rounds to zero`);
+
+    return rounded;
+};
+
+/**
+ * Checks an order against the exchange's rules and the product's metadata: legal field combinations, trading status,
+ * price and funds on the quote increment, size within the product's limits.  Returns the order to send, with its
+ * amounts as exact strings (rounded when `rounding` is 'round'), or throws a ValidationError.  Sizes are never
+ * rounded up to the minimum.
+ *
+ * @param {T} params
+ * @param {IProduct} product
+ * @param {OrderRounding} rounding
+ * @returns {T}
+ */
+export const validateOrder = <T extends INewOrderParams>(params: T,
+                                                         product: IProduct,
+                                                         rounding: OrderRounding = 'reject'): T => {
+
+    const order                                                      = params as IOrderFields;
+    const amounts: { price?: string; size?: string; funds?: string } = {};
+
+    checkFields(order);
+    checkProduct(order, product);
+
+    if (order.price !== undefined) {
+        const direction = order.side === 'buy' ? 'down' : 'up';
+        amounts.price   = conform('price', order.price, product.quote_increment, direction, rounding).toFixed();
+    }
+
+    if (order.size !== undefined) {
+        const size   = conform('size', order.size, baseIncrement, 'down', rounding);
+        amounts.size = size.toFixed();
+
+        if (size.lessThan(product.base_min_size)) {
+            throw new ValidationError(`size ${size} is below the minimum of ${product.base_min_size}`);
+        }
+        if (size.greaterThan(product.base_max_size)) {
+            throw new ValidationError(`size ${size} is above the maximum of ${product.base_max_size}`);
+        }
+    }
+
+    if (order.funds !== undefined) {
+        const funds   = conform('funds', order.funds, product.quote_increment, 'down', rounding);
+        amounts.funds = funds.toFixed();
+
+        if (product.min_market_funds !== undefined && funds.lessThan(product.min_market_funds)) {
+            throw new ValidationError(`funds ${funds} are below the minimum of ${product.min_market_funds}`);
+        }
+        if (product.max_market_funds !== undefined && funds.greaterThan(product.max_market_funds)) {
+            throw new ValidationError(`funds ${funds} are above the maximum of ${product.max_market_funds}`);
+        }
+    }
+
+    return Object.assign({}, params, amounts);
+};
+
+/**
+ * Looks up a product's metadata.  The product list is fetched once per client and refetched when an unknown product
+ * is asked for (or with `refresh`).
+ *
+ * @param {IGdaxClient} client
+ * @param {string} productId
+ * @param {boolean} refresh
+ * @returns {Promise<IProduct>}
+ */
+export const getProductMetadata = async (client: IGdaxClient, productId: string, refresh: boolean = false):
+    Promise<IProduct> => {
+
+    const fetchProducts = (): Promise<IProduct[]> => {
+        const products = client.getProducts().then((response) => response.data);
+
+        // A failed fetch must not stick.
+        products.catch(() => catalogs.delete(client));
+        catalogs.set(client, products);
+
+        return products;
+    };
+
+    const cached  = catalogs.get(client);
+    let product   = refresh || cached === undefined ? undefined : (await cached).find(({ id }) => id === productId);
+
+    if (product === undefined) product = (await fetchProducts()).find(({ id }) => id === productId);
+    if (product === undefined) throw new ValidationError(`unknown product: ${productId}`);
+
+    return product;
+};
+
+/**
+ * #validateOrder against the product's metadata fetched through the client.  Used by IGdaxClient#placeNewOrder
+ * with the `validate` option.
+ *
+ * @param {IGdaxClient} client
+ * @param {T} params
+ * @param {OrderRounding} rounding
+ * @returns {Promise<T>}
+ */
+export const prepareOrder = async <T extends INewOrderParams>(client: IGdaxClient,
+                                                              params: T,
+                                                              rounding?: OrderRounding): Promise<T> =>
+    validateOrder(params, await getProductMetadata(client, params.product_id), rounding);
@@ -0,0 +1,239 @@
+import {
+    IGdaxClient,
+    IGdaxResponse,
+    IListFillsParams,
+    IListFundingParams,
+    IListOrdersParams,
+    IPaginationParams,
+} from '../index';
+import { IFill, IFunding, IHold, ILedgerEntry, IOrder, ITrade } from './models';
+
+/**
+ * GDAX returns items newest first.  'forward' follows the CB-AFTER cursor (older items); 'backward' follows the
+ * CB-BEFORE cursor (newer items).  Backward iteration needs a starting cursor to be useful.
+ */
+export type PaginationDirection = 'forward' | 'backward';
+
+/**
+ * Iteration options.
+ *
+ * `until` stops iteration at the first item older (forward) or newer (backward) than the given time.  `untilTradeId`
+ * does the same for endpoints whose items carry a trade id (trades and fills).  Both bounds are inclusive.
+ *
+ * `cursor` resumes iteration from the `cursor` of a previously seen page.
+ */
+export type IPaginationOptions = {
+    direction?: PaginationDirection;
+    pageSize?: number;
+    maxItems?: number;
+    until?: Date | string;
+    untilTradeId?: number;
+    cursor?: string;
+};
+
+/**
+ * A single page.  `before` and `after` are the raw CB-BEFORE/CB-AFTER headers; `cursor` is the one to save in order
+ * to resume after this page in the current direction.  Backward pages are ordered oldest first (the direction of
+ * travel).
+ */
+export interface IPage<T> {
+    items: T[];
+    before?: string;
+    after?: string;
+    cursor?: string;
+}
+
+/**
+ * Fetches one page for the given cursor.
+ */
+export type IPageFetcher<T> = (paginationParams: IPaginationParams) => Promise<IGdaxResponse<T[]>>;
+
+/**
+ * Tells the paginator where to find the time (and trade id, if any) of an item, for the `until` conditions.
+ */
+export type IItemAccessors<T> = { timeOf(item: T): string; tradeIdOf?(item: T): number };
+
+/**
+ * Follows cursors page by page until the endpoint runs out or a stop condition is met.
+ *
+ * @param {IPageFetcher<T>} fetchPage
+ * @param {IItemAccessors<T>} accessors
+ * @param {IPaginationOptions} options
+ * @returns {AsyncIterableIterator<IPage<T>>}
+ */
+export async function* paginatePages<T>(fetchPage: IPageFetcher<T>,
+                                        accessors: IItemAccessors<T>,
+                                        options: IPaginationOptions = {}): AsyncIterableIterator<IPage<T>> {
+
+    const forward      = options.direction !== 'backward';
+    const until        = options.until === undefined ? undefined : new Date(options.until as string).getTime();
+    const untilTradeId = accessors.tradeIdOf === undefined ? undefined : options.untilTradeId;
+    let remaining      = options.maxItems === undefined ? Infinity : options.maxItems;
+    let cursor         = options.cursor;
+
+    // True once an item lies beyond the requested bound.
+    const isPastBound = (item: T): boolean => {
+        if (until !== undefined) {
+            const time = new Date(accessors.timeOf(item)).getTime();
+            if (forward ? time < until : time > until) return true;
+        }
+
+        if (untilTradeId !== undefined) {
+            const tradeId = accessors.tradeIdOf(item);
+            if (forward ? tradeId < untilTradeId : tradeId > untilTradeId) return true;
+        }
+
+        return false;
+    };
+
+    while (remaining > 0) {
+        const params: IPaginationParams = {};
+        if (options.pageSize !== undefined) params.limit = `${options.pageSize}`;
+        if (cursor !== undefined) {
+            if (forward) params.after = cursor;
+            else params.before = cursor;
+        }
+
+        const response = await fetchPage(params);
+        const before   = response.headers['cb-before'];
+        const after    = response.headers['cb-after'];
+        const fetched  = forward ? response.data : response.data.slice().reverse();
+
+        let items     = fetched;
+        let stopped   = false;
+        const boundAt = fetched.findIndex(isPastBound);
+
+        if (boundAt >= 0) {
+            items   = fetched.slice(0, boundAt);
+            stopped = true;
+        }
+
+        if (items.length > remaining) {
+            items   = items.slice(0, remaining);
+            stopped = true;
+        }
+
+        remaining -= items.length;
+        cursor     = forward ? after : before;
+
+        if (items.length > 0) yield { after, before, cursor, items };
+
+        if (stopped || fetched.length === 0 || cursor === undefined) return;
+    }
+}
+
+/**
+ * Same as #paginatePages, but yields individual items.
+ *
+ * @param {IPageFetcher<T>} fetchPage
+ * @param {IItemAccessors<T>} accessors
+ * @param {IPaginationOptions} options
+ * @returns {AsyncIterableIterator<T>}
+ */
+export async function* paginateItems<T>(fetchPage: IPageFetcher<T>,
+                                        accessors: IItemAccessors<T>,
+                                        options?: IPaginationOptions): AsyncIterableIterator<T> {
+
+    for await (const page of paginatePages(fetchPage, accessors, options)) {
+        yield* page.items;
+    }
+}
+
+/**
+ * Accessors for items that only carry a creation time.
+ */
+const createdAt: IItemAccessors<{ created_at: string }> = { timeOf: (item) => item.created_at };
+
+const tradeAccessors: IItemAccessors<ITrade> = {
+    timeOf   : (trade: ITrade) => trade.time,
+    tradeIdOf: (trade: ITrade) => trade.trade_id,
+};
+
+const fillAccessors: IItemAccessors<IFill> = {
+    timeOf   : (fill: IFill) => fill.created_at,
+    tradeIdOf: (fill: IFill) => fill.trade_id,
+};
+
+/**
+ * Iterators over every paginated endpoint of a client.
+ */
+export interface IPaginator {
+    tradePages(productId: string, options?: IPaginationOptions): AsyncIterableIterator<IPage<ITrade>>;
+
+    trades(productId: string, options?: IPaginationOptions): AsyncIterableIterator<ITrade>;
+
+    accountHistoryPages(accountId: string, options?: IPaginationOptions): AsyncIterableIterator<IPage<ILedgerEntry>>;
+
+    accountHistory(accountId: string, options?: IPaginationOptions): AsyncIterableIterator<ILedgerEntry>;
+
+    holdPages(accountId: string, options?: IPaginationOptions): AsyncIterableIterator<IPage<IHold>>;
+
+    holds(accountId: string, options?: IPaginationOptions): AsyncIterableIterator<IHold>;
+
+    orderPages(params?: IListOrdersParams, options?: IPaginationOptions): AsyncIterableIterator<IPage<IOrder>>;
+
+    orders(params?: IListOrdersParams, options?: IPaginationOptions): AsyncIterableIterator<IOrder>;
+
+    fillPages(params?: IListFillsParams, options?: IPaginationOptions): AsyncIterableIterator<IPage<IFill>>;
+
+    fills(params?: IListFillsParams, options?: IPaginationOptions): AsyncIterableIterator<IFill>;
+
+    fundingPages(params?: IListFundingParams, options?: IPaginationOptions): AsyncIterableIterator<IPage<IFunding>>;
+
+    funding(params?: IListFundingParams, options?: IPaginationOptions): AsyncIterableIterator<IFunding>;
+}
+
+/**
+ * Factory function to get paginated iterators for a client.
+ *
+ * @param {IGdaxClient} client
+ * @returns {IPaginator}
+ */
+export const getPaginator = (client: IGdaxClient): IPaginator => {
+
+    const tradesFetcher = (productId: string): IPageFetcher<ITrade> =>
+        (paginationParams: IPaginationParams) => client.getTrades(productId, paginationParams);
+
+    const historyFetcher = (accountId: string): IPageFetcher<ILedgerEntry> =>
+        (paginationParams: IPaginationParams) => client.getAccountHistory(accountId, paginationParams);
+
+    const holdsFetcher = (accountId: string): IPageFetcher<IHold> =>
+        (paginationParams: IPaginationParams) => client.getHolds(accountId, paginationParams);
+
+    const ordersFetcher = (params: IListOrdersParams = {}): IPageFetcher<IOrder> =>
+        (paginationParams: IPaginationParams) => client.listOrders(params, paginationParams);
+
+    const fillsFetcher = (params?: IListFillsParams): IPageFetcher<IFill> =>
+        (paginationParams: IPaginationParams) => client.listFills(params, paginationParams);
+
+    const fundingFetcher = (params: IListFundingParams = {}): IPageFetcher<IFunding> =>
+        (paginationParams: IPaginationParams) => client.listFunding(params, paginationParams);
+
+    return {
+        accountHistory: (accountId, options) =>
+            paginateItems<ILedgerEntry>(historyFetcher(accountId), createdAt, options),
+
+        accountHistoryPages: (accountId, options) =>
+            paginatePages<ILedgerEntry>(historyFetcher(accountId), createdAt, options),
+
+        fillPages: (params, options) => paginatePages(fillsFetcher(params), fillAccessors, options),
+
+        fills: (params, options) => paginateItems(fillsFetcher(params), fillAccessors, options),
+
+        funding: (params, options) => paginateItems<IFunding>(fundingFetcher(params), createdAt, options),
+
+        fundingPages: (params, options) => paginatePages<IFunding>(fundingFetcher(params), createdAt, options),
+
+        holdPages: (accountId, options) => paginatePages<IHold>(holdsFetcher(accountId), createdAt, options),
+
+        holds: (accountId, options) => paginateItems<IHold>(holdsFetcher(accountId), createdAt, options),
+
+        orderPages: (params, options) => paginatePages<IOrder>(ordersFetcher(params), createdAt, options),
+
+        orders: (params, options) => paginateItems<IOrder>(ordersFetcher(params), createdAt, options),
+
+        tradePages: (productId, options) => paginatePages(tradesFetcher(productId), tradeAccessors, options),
+
+        trades: (productId, options) => paginateItems(tradesFetcher(productId), tradeAccessors, options),
+    };
+};
@@ -0,0 +1,235 @@
+import * as HttpStatus from 'http-status-codes';
+import {
+    getClient,
+    ICancelOrderParams,
+    IGdaxClient,
+    IGdaxRequestConfig,
+    IGdaxResponse,
+    IListFillsParams,
+    IListOrdersParams,
+    INewOrderParams,
+    IPaginationParams,
+    IPlaceOrderOptions,
+    IRawAgentOptions,
+} from '../index';
+import { ValidationError } from './errors';
+import { getPage, IEnginePage, IFeeSchedule, MatchingEngine } from './matchingEngine';
+import { IAccount, IFill, IHold, ILedgerEntry, IOrder } from './models';
+import { prepareOrder } from './orders';
+
+/**
+ * Paper trading options.  `balances` are the starting funds of the simulated account.  With `autoSync` (the
+ * default), every simulated read first lets resting orders trade against the current books.  `config` and
+ * `agentOptions` configure the (unauthenticated) client used for market data.
+ */
+export type IPaperTradingOptions = {
+    balances?: { [currency: string]: number };
+    fees?: IFeeSchedule;
+    autoSync?: boolean;
+    config?: IGdaxRequestConfig;
+    agentOptions?: IRawAgentOptions;
+};
+
+/**
+ * A paper-trading client.  #sync() lets resting orders trade against the current books.
+ */
+export interface IPaperClient extends IGdaxClient {
+    sync(): Promise<void>;
+}
+
+/**
+ * The simulated exchange: the engine, the account's profile, and the profile mirroring the real books.
+ */
+type ISimulation = { engine: MatchingEngine; profileId: string; marketId: string };
+
+/**
+ * Order statuses listed when none are asked for, like on GDAX.
+ */
+const defaultStatuses = ['open', 'pending', 'active'];
+
+/**
+ * Wraps simulated data in the shape of an HTTP response.
+ */
+const toResponse = <T>(data: T, page?: IEnginePage<{}>): IGdaxResponse<T> => {
+    const headers: { [name: string]: string } = {};
+
+    if (page !== undefined && page.before !== undefined) headers['cb-before'] = page.before;
+    if (page !== undefined && page.after !== undefined) headers['cb-after'] = page.after;
+
+    return { config: {}, data, headers, status: HttpStatus.OK, statusText: 'OK' };
+};
+
+const paged = <T>(entries: Array<{ cursor: number; value: T }>, params: IPaginationParams): IGdaxResponse<T[]> => {
+    const page = getPage(entries, params);
+
+    return toResponse(page.items, page);
+};
+
+/**
+ * Factory function to get a paper-trading client.  Market data methods pass through to GDAX; orders, fills,
+ * accounts, ledgers and holds are served from a simulated account.
+ *
+ * Orders trade against level 2 snapshots of the real books: each snapshot is mirrored into a local matching engine
+ * for the duration of one simulated action, so marketable orders fill at the book's prices as takers and resting
+ * orders fill at their own price as makers once the market reaches them.  Fees, holds and balances are tracked like
+ * GDAX does.  Stop orders are not simulated and are refused with a ValidationError; neither are the remaining private
+ * endpoints, which fail with an AuthenticationRequiredError since the market data client has no API keys.
+ *
+ * @param {IPaperTradingOptions} options
+ * @returns {IPaperClient}
+ */
+export const getPaperClient = (options: IPaperTradingOptions = {}): IPaperClient => {
+
+    const market                        = getClient(undefined, options.config, options.agentOptions);
+    const autoSync                      = options.autoSync !== false;
+    let simulation: Promise<ISimulation> = null;
+
+    // The engine needs the product list, so it is set up on first use.
+    const simulate = (): Promise<ISimulation> => {
+        if (simulation !== null) return simulation;
+
+        simulation = market.getProducts().then(({ data: products }) => {
+            const engine    = new MatchingEngine({ fees: options.fees, products });
+            const profileId = engine.createProfile();
+            const balances  = options.balances === undefined ? {} : options.balances;
+
+            Object.keys(balances).forEach((currency) => engine.transfer(profileId, currency, balances[currency]));
+
+            return { engine, marketId: engine.createProfile(true), profileId };
+        });
+        simulation.catch(() => simulation = null);
+
+        return simulation;
+    };
+
+    // Mirrors the current book of a product into the engine, runs the action against it and removes it again, along
+    // with the mirror orders it filled and the trades it made.
+    const withMarket = async <T>(productId: string, action: (sim: ISimulation) => T): Promise<T> => {
+        const sim                      = await simulate();
+        const { data: { bids, asks } } = await market.getProductOrderBook(productId, { level: 2 });
+
+        try {
+            for (const [price, size] of asks) {
+                sim.engine.placeOrder(sim.marketId, { price, product_id: productId, side: 'sell', size });
+            }
+            for (const [price, size] of bids) {
+                sim.engine.placeOrder(sim.marketId, { price, product_id: productId, side: 'buy', size });
+            }
+
+            return action(sim);
+        } finally {
+            sim.engine.cancelAll(sim.marketId, productId);
+            sim.engine.purgeDone(sim.marketId, productId);
+            sim.engine.purgeTrades(productId);
+        }
+    };
+
+    const synced = async (): Promise<ISimulation> => {
+        if (autoSync) await client.sync();
+
+        return simulate();
+    };
+
+    const client: IPaperClient = {
+        ...market,
+
+        /**
+         * Lets every product with resting orders trade against its current book.
+         *
+         * @returns {Promise<void>}
+         */
+        async sync(): Promise<void> {
+            const { engine, profileId } = await simulate();
+            const products              = new Set(engine.listOrders(profileId, ['open'])
+                                                        .map(({ order }) => order.product_id));
+
+            for (const productId of Array.from(products)) await withMarket(productId, () => undefined);
+        },
+
+        async listAccounts(): Promise<IGdaxResponse<IAccount[]>> {
+            const { engine, profileId } = await synced();
+
+            return toResponse(engine.listAccounts(profileId));
+        },
+
+        async getAccount(accountId: string): Promise<IGdaxResponse<IAccount>> {
+            const { engine, profileId } = await synced();
+
+            return toResponse(engine.getAccount(profileId, accountId));
+        },
+
+        async getAccountHistory(accountId: string,
+                                paginationParams?: IPaginationParams): Promise<IGdaxResponse<ILedgerEntry[]>> {
+            const { engine, profileId } = await synced();
+            const entries               = engine.getLedger(profileId, accountId);
+
+            return paged(entries.map(({ cursor, entry }) => ({ cursor, value: entry })), paginationParams);
+        },
+
+        async getHolds(accountId: string, paginationParams?: IPaginationParams): Promise<IGdaxResponse<IHold[]>> {
+            const { engine, profileId } = await synced();
+            const holds                 = engine.getHolds(profileId, accountId);
+
+            return paged(holds.map(({ cursor, hold }) => ({ cursor, value: hold })), paginationParams);
+        },
+
+        /**
+         * Fills against the current book; stop orders are refused.  `validate` works as with the real client;
+         * `idempotent` is moot.
+         *
+         * @param {INewOrderParams} params
+         * @param {IPlaceOrderOptions} placeOptions
+         * @returns {Promise<IGdaxResponse<IOrder>>}
+         */
+        async placeNewOrder(params: INewOrderParams,
+                            placeOptions: IPlaceOrderOptions = {}): Promise<IGdaxResponse<IOrder>> {
+
+            if (params.type === 'stop') throw new ValidationError('stop orders are not simulated');
+
+            const order = placeOptions.validate === undefined ?
+                          params :
+                          await prepareOrder(market, params, placeOptions.validate);
+
+            return toResponse(await withMarket(order.product_id, ({ engine, profileId }) =>
+                engine.placeOrder(profileId, order)));
+        },
+
+        async cancelOrder(orderId: string): Promise<IGdaxResponse<string[]>> {
+            const { engine, profileId } = await simulate();
+
+            return toResponse([engine.cancelOrder(profileId, orderId)]);
+        },
+
+        async cancelAll(params: ICancelOrderParams = {}): Promise<IGdaxResponse<string[]>> {
+            const { engine, profileId } = await simulate();
+
+            return toResponse(engine.cancelAll(profileId, params.product_id));
+        },
+
+        async listOrders(params: IListOrdersParams = {},
+                         paginationParams?: IPaginationParams): Promise<IGdaxResponse<IOrder[]>> {
+            const { engine, profileId } = await synced();
+            const statuses              = params.status === undefined ? defaultStatuses : params.status;
+            const orders                = engine.listOrders(profileId, statuses, params.product_id);
+
+            return paged(orders.map(({ cursor, order }) => ({ cursor, value: order })), paginationParams);
+        },
+
+        async getOrder(orderId: string): Promise<IGdaxResponse<IOrder>> {
+            const { engine, profileId } = await synced();
+
+            return toResponse(engine.getOrder(profileId, orderId));
+        },
+
+        async listFills(listFillsParams: IListFillsParams = {},
+                        paginationParams?: IPaginationParams): Promise<IGdaxResponse<IFill[]>> {
+            const { engine, profileId }    = await synced();
+            const { order_id, product_id } = listFillsParams;
+            const fills                    = engine.listFills(profileId, order_id, product_id);
+
+            return paged(fills.map(({ fill }) => ({ cursor: fill.trade_id, value: fill })), paginationParams);
+        },
+    };
+
+    return client;
+};
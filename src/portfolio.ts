@@ -0,0 +1,347 @@
+import { IGdaxClient } from '../index';
+import { toDecimal, Decimal, DecimalInput } from './decimal';
+import { IFill, IProduct, IProductTicker } from './models';
+import { getPaginator } from './pagination';
+
+/**
+ * How sells are matched against earlier buys: oldest lots first, newest lots first, or against the average cost of
+ * the whole position.
+ */
+export type CostBasisMethod = 'fifo' | 'lifo' | 'average';
+
+/**
+ * One hop of a conversion: through `productId`, selling its base currency (`invert` false, multiply by the price) or
+ * buying it (`invert` true, divide by the price).
+ */
+export type IConversionStep = { productId: string; invert: boolean };
+
+/**
+ * Cost basis and PnL of one product, in its quote currency.  Buy fees are part of the cost basis and sell fees are
+ * deducted from the proceeds, so `realized` is net of all fees paid; `unrealized` does not anticipate the fee of an
+ * eventual sale.  `uncoveredSize` is the size sold without a matching earlier buy in the fill history (e.g. coins
+ * deposited rather than bought); it is left out of `realized`.
+ */
+export type ICostBasis = {
+    productId: string;
+    method: CostBasisMethod;
+    position: Decimal;
+    costBasis: Decimal;
+    averageCost: Decimal;
+    realized: Decimal;
+    fees: Decimal;
+    uncoveredSize: Decimal;
+};
+
+export type IProductPnl = ICostBasis & { quoteCurrency: string; price: Decimal; unrealized: Decimal };
+
+/**
+ * An account balance priced in the valuation currency.  `route` lists the products it was priced through.
+ */
+export type IAccountValuation = {
+    currency: string;
+    balance: Decimal;
+    price: Decimal;
+    value: Decimal;
+    route: string[];
+};
+
+/**
+ * The value of every account, and the PnL of every traded product, in `quoteCurrency`.  Currencies that cannot be
+ * priced are listed in `unpriced`, and traded products that cannot (delisted ones, or ones without a price) in
+ * `unpricedProducts`; both are left out of the totals.
+ */
+export type IPortfolioValuation = {
+    quoteCurrency: string;
+    time: string;
+    total: Decimal;
+    accounts: IAccountValuation[];
+    unpriced: string[];
+    products: IProductPnl[];
+    unpricedProducts: string[];
+    realized: Decimal;
+    unrealized: Decimal;
+    fees: Decimal;
+};
+
+/**
+ * Valuation options.  `quoteCurrency` defaults to USD and `method` to FIFO.  PnL is computed for `productIds`, or for
+ * every product with fills when not given.
+ */
+export type IPortfolioOptions = { quoteCurrency?: string; method?: CostBasisMethod; productIds?: string[] };
+
+/**
+ * An open lot: a size still held and what it cost, fees included.
+ */
+type ILot = { size: Decimal; cost: Decimal };
+
+const zero = new Decimal(0);
+
+/**
+ * The price of a ticker: its last trade, or the middle of the spread for a product that has not traded yet.
+ */
+const tickerPrice = (ticker: IProductTicker): Decimal => {
+    const known = (value: string): boolean => value !== undefined && value !== '';
+
+    if (known(ticker.price)) return toDecimal(ticker.price);
+    if (!known(ticker.bid) || !known(ticker.ask)) return undefined;
+
+    //tslint:disable-next-line:no-magic-numbers
+    return toDecimal(ticker.bid).plus(ticker.ask).dividedBy(2);
+};
+
+/**
+ * Fetches every fill of the given products, or of all products.
+ */
+const fetchFills = async (client: IGdaxClient, productIds?: string[]): Promise<IFill[]> => {
+    const fills: IFill[] = [];
+    const paginator      = getPaginator(client);
+    const filters        = productIds === undefined ? [{}] : productIds.map((productId) => ({ product_id: productId }));
+
+    for (const filter of filters) {
+        for await (const fill of paginator.fills(filter)) fills.push(fill);
+    }
+
+    return fills;
+};
+
+/**
+ * Removes `size` from the lots, taking them from the front.  Returns the cost removed and the size that no lot
+ * covered.
+ */
+const consumeLots = (lots: ILot[], size: Decimal): { cost: Decimal; uncovered: Decimal } => {
+    let cost      = zero;
+    let remaining = size;
+
+    while (remaining.greaterThan(0) && lots.length > 0) {
+        const lot   = lots[0];
+        const taken = Decimal.min(lot.size, remaining);
+        const share = lot.cost.times(taken).dividedBy(lot.size);
+
+        cost      = cost.plus(share);
+        remaining = remaining.minus(taken);
+        lot.size  = lot.size.minus(taken);
+        lot.cost  = lot.cost.minus(share);
+
+        if (lot.size.isZero()) lots.shift();
+    }
+
+    return { cost, uncovered: remaining };
+};
+
+/**
+ * Computes the cost basis and realized PnL of one product from its fills (in any order).
+ *
+ * @param {string} productId
+ * @param {IFill[]} fills
+ * @param {CostBasisMethod} method
+ * @returns {ICostBasis}
+ */
+export const computeCostBasis = (productId: string, fills: IFill[], method: CostBasisMethod = 'fifo'): ICostBasis => {
+    const ordered = fills.filter((fill) => fill.product_id === productId)
+                         .sort((a, b) => a.created_at === b.created_at ?
+                                         a.trade_id - b.trade_id :
+                                         a.created_at.localeCompare(b.created_at));
+
+    const lots: ILot[] = [];
+    let realized       = zero;
+    let fees           = zero;
+    let uncoveredSize  = zero;
+
+    for (const fill of ordered) {
+        const size     = toDecimal(fill.size);
+        const notional = size.times(fill.price);
+        const fee      = toDecimal(fill.fee);
+        fees           = fees.plus(fee);
+
+        if (fill.side === 'buy') {
+            const lot = { cost: notional.plus(fee), size };
+
+            if (method === 'average' && lots.length > 0) {
+                lots[0] = { cost: lots[0].cost.plus(lot.cost), size: lots[0].size.plus(lot.size) };
+            } else if (method === 'lifo') {
+                lots.unshift(lot);
+            } else {
+                lots.push(lot);
+            }
+
+            continue;
+        }
+
+        const { cost, uncovered } = consumeLots(lots, size);
+        const covered             = size.minus(uncovered);
+        const proceeds            = notional.minus(fee).times(covered).dividedBy(size);
+
+        realized      = realized.plus(proceeds.minus(cost));
+        uncoveredSize = uncoveredSize.plus(uncovered);
+    }
+
+    const position  = lots.reduce((sum, lot) => sum.plus(lot.size), zero);
+    const costBasis = lots.reduce((sum, lot) => sum.plus(lot.cost), zero);
+
+    return {
+        averageCost: position.isZero() ? zero : costBasis.dividedBy(position),
+        costBasis,
+        fees,
+        method,
+        position,
+        productId,
+        realized,
+        uncoveredSize,
+    };
+};
+
+/**
+ * Finds the shortest chain of products converting `from` into `to`, e.g. ETC-BTC then BTC-USD.  Products that are
+ * not online are skipped.  Returns undefined when there is none, and an empty route when the currencies are the same.
+ *
+ * @param {IProduct[]} products
+ * @param {string} from
+ * @param {string} to
+ * @returns {IConversionStep[]}
+ */
+export const findConversionRoute = (products: IProduct[], from: string, to: string): IConversionStep[] => {
+    const tradable = products.filter((product) => product.status === undefined || product.status === 'online');
+    const routes   = new Map<string, IConversionStep[]>([[from, []]]);
+    const queue    = [from];
+
+    while (queue.length > 0 && !routes.has(to)) {
+        const currency = queue.shift();
+
+        for (const product of tradable) {
+            const invert = product.quote_currency === currency;
+            const next   = invert ? product.base_currency : product.quote_currency;
+
+            if ((product.base_currency !== currency && !invert) || routes.has(next)) continue;
+
+            routes.set(next, routes.get(currency).concat({ invert, productId: product.id }));
+            queue.push(next);
+        }
+    }
+
+    return routes.get(to);
+};
+
+/**
+ * Converts an amount along a route, with the price of each product.
+ *
+ * @param {DecimalInput} amount
+ * @param {IConversionStep[]} route
+ * @param {Map<string, Decimal>} prices
+ * @returns {Decimal}
+ */
+export const convertAlongRoute = (amount: DecimalInput,
+                                  route: IConversionStep[],
+                                  prices: Map<string, Decimal>): Decimal =>
+    route.reduce((value, step) => step.invert ?
+                                  value.dividedBy(prices.get(step.productId)) :
+                                  value.times(prices.get(step.productId)), toDecimal(amount));
+
+/**
+ * Values every account in one currency and computes the PnL of the traded products.  Balances are priced at the last
+ * trade of each product's ticker (the middle of the spread if it has none), through intermediate products when there
+ * is no direct pair.
+ *
+ * @param {IGdaxClient} client
+ * @param {IPortfolioOptions} options
+ * @returns {Promise<IPortfolioValuation>}
+ */
+export const getPortfolioValuation = async (client: IGdaxClient,
+                                            options: IPortfolioOptions = {}): Promise<IPortfolioValuation> => {
+
+    const quoteCurrency      = options.quoteCurrency === undefined ? 'USD' : options.quoteCurrency;
+    const method             = options.method === undefined ? 'fifo' : options.method;
+    const { data: products } = await client.getProducts();
+    const { data: accounts } = await client.listAccounts();
+
+    const fills              = await fetchFills(client, options.productIds);
+
+    const tradedIds = options.productIds !== undefined ?
+                      options.productIds :
+                      Array.from(new Set(fills.map((fill) => fill.product_id))).sort();
+    const traded    = tradedIds.map((productId) => products.find(({ id }) => id === productId))
+                               .filter((product) => product !== undefined);
+
+    // Every product needed, for the balances, the positions and the conversion of their PnL
+    const currencies = accounts.map((account) => account.currency).concat(traded.map((p) => p.quote_currency));
+    const routes     = new Map<string, IConversionStep[]>();
+    const needed     = new Set<string>(traded.map(({ id }) => id));
+
+    for (const currency of currencies.filter((c, index) => currencies.indexOf(c) === index)) {
+        const route = findConversionRoute(products, currency, quoteCurrency);
+        if (route === undefined) continue;
+
+        routes.set(currency, route);
+        route.forEach(({ productId }) => needed.add(productId));
+    }
+
+    const prices = new Map<string, Decimal>();
+    for (const productId of Array.from(needed)) {
+        const price = tickerPrice((await client.getProductTicker(productId)).data);
+        if (price !== undefined) prices.set(productId, price);
+    }
+
+    // A currency can be priced when every product on its route has a price
+    const routeOf = (currency: string): IConversionStep[] => {
+        const route = routes.get(currency);
+
+        return route !== undefined && route.every(({ productId }) => prices.has(productId)) ? route : undefined;
+    };
+
+    const valued: IAccountValuation[] = [];
+    const unpriced: string[]          = [];
+
+    for (const account of accounts.filter(({ balance }) => !toDecimal(balance).isZero())) {
+        const route = routeOf(account.currency);
+
+        if (route === undefined) {
+            unpriced.push(account.currency);
+            continue;
+        }
+
+        const price   = convertAlongRoute('1', route, prices);
+        const balance = toDecimal(account.balance);
+        valued.push({
+            balance,
+            currency: account.currency,
+            price,
+            route   : route.map(({ productId }) => productId),
+            value   : balance.times(price),
+        });
+    }
+
+    // Traded products are valued when they have a price and their PnL can be converted
+    const priced           = traded.filter(({ id, quote_currency }) =>
+                                               prices.has(id) && routeOf(quote_currency) !== undefined);
+    const unpricedProducts = tradedIds.filter((productId) => !priced.some(({ id }) => id === productId));
+
+    const pnl = priced.map((product): IProductPnl => {
+        const basis = computeCostBasis(product.id, fills, method);
+        const price = prices.get(product.id);
+
+        return {
+            ...basis,
+            price,
+            quoteCurrency: product.quote_currency,
+            unrealized   : basis.position.times(price).minus(basis.costBasis),
+        };
+    });
+
+    // PnL is in each product's quote currency; totals are converted
+    const inQuote = (amount: Decimal, currency: string): Decimal =>
+        convertAlongRoute(amount, routeOf(currency), prices);
+    const sum     = (field: 'realized' | 'unrealized' | 'fees'): Decimal =>
+        pnl.reduce((total, product) => total.plus(inQuote(product[field], product.quoteCurrency)), zero);
+
+    return {
+        accounts  : valued,
+        fees      : sum('fees'),
+        products  : pnl,
+        quoteCurrency,
+        realized  : sum('realized'),
+        time      : new Date().toISOString(),
+        total     : valued.reduce((total, account) => total.plus(account.value), zero),
+        unpriced,
+        unpricedProducts,
+        unrealized: sum('unrealized'),
+    };
+};
@@ -0,0 +1,205 @@
+/**
+ * GDAX throttles public and private endpoints separately.
+ */
+export type RateLimitBudget = 'public' | 'private';
+
+/**
+ * A token bucket: `rate` tokens are added per second, up to `burst` tokens.
+ */
+export type ITokenBucketConfig = { rate: number; burst: number };
+
+/**
+ * Rate limiter options.  Refills and waits are timed by `clock` (epoch milliseconds), the local clock by default.
+ */
+export type IRateLimiterOptions = {
+    public?: ITokenBucketConfig;
+    private?: ITokenBucketConfig;
+    clock?: { now(): number };
+};
+
+/**
+ * Queue and wait statistics for one budget.  Wait times are in milliseconds.
+ */
+export type IBudgetMetrics = {
+    queued: number;
+    tokens: number;
+    granted: number;
+    averageWait: number;
+    maxWait: number;
+};
+
+export type IRateLimiterMetrics = { public: IBudgetMetrics; private: IBudgetMetrics };
+
+/**
+ * Requests with a higher priority leave the queue first; equal priorities are served in arrival order.  The raw
+ * agent uses `cancel` for DELETEs, `order` for POSTs and `query` for GETs.
+ */
+export const requestPriority = {
+    cancel: 2,
+    order : 1,
+    query : 0,
+};
+
+/**
+ * Default budgets, matching the documented GDAX limits.
+ */
+const defaultRateLimits = {
+    private: { rate: 5, burst: 10 },
+    public : { rate: 3, burst: 6 },
+};
+
+/**
+ * The shape of a rate limiter.  One limiter may be shared by several agents/clients, in which case they draw from the
+ * same budgets.
+ */
+export interface IRateLimiter {
+    acquire(budget: RateLimitBudget, priority?: number): Promise<void>;
+
+    schedule<T>(budget: RateLimitBudget, task: () => Promise<T>, priority?: number): Promise<T>;
+
+    getQueueDepth(budget: RateLimitBudget): number;
+
+    getMetrics(): IRateLimiterMetrics;
+}
+
+/**
+ * A waiting request.
+ */
+type IQueueEntry = { priority: number; enqueuedAt: number; grant(): void };
+
+/**
+ * A single token bucket with a priority queue in front of it.
+ */
+class TokenBucket {
+
+    private rate: number;
+    private burst: number;
+    private tokens: number;
+    private refilledAt: number;
+    private queue: IQueueEntry[] = [];
+    private granted: number = 0;
+    private totalWait: number = 0;
+    private maxWait: number = 0;
+    private timer: NodeJS.Timer = null;
+    private clock: { now(): number };
+
+    constructor(config: ITokenBucketConfig, clock: { now(): number }) {
+        this.clock      = clock;
+        this.rate       = config.rate;
+        this.burst      = config.burst;
+        this.tokens     = config.burst;
+        this.refilledAt = clock.now();
+    }
+
+    public acquire(priority: number): Promise<void> {
+        return new Promise<void>((resolve) => {
+            const entry = { enqueuedAt: this.clock.now(), grant: resolve, priority };
+
+            // Keep the queue sorted by priority (highest first), then by arrival.
+            const index = this.queue.findIndex((queued) => queued.priority < priority);
+            if (index < 0) this.queue.push(entry);
+            else this.queue.splice(index, 0, entry);
+
+            this.drain();
+        });
+    }
+
+    public getMetrics(): IBudgetMetrics {
+        this.refill();
+
+        return {
+            averageWait: this.granted > 0 ? this.totalWait / this.granted : 0,
+            granted    : this.granted,
+            maxWait    : this.maxWait,
+            queued     : this.queue.length,
+            tokens     : this.tokens,
+        };
+    }
+
+    private refill(): void {
+        const now       = this.clock.now();
+        //tslint:disable-next-line:no-magic-numbers
+        this.tokens     = Math.min(this.burst, this.tokens + (now - this.refilledAt) * this.rate / 1000);
+        this.refilledAt = now;
+    }
+
+    /**
+     * Grants as many queued requests as there are whole tokens, then sleeps until the next token is due.
+     */
+    private drain(): void {
+        this.refill();
+
+        while (this.queue.length > 0 && this.tokens >= 1) {
+            const entry = this.queue.shift();
+            const wait  = this.clock.now() - entry.enqueuedAt;
+
+            this.tokens    -= 1;
+            this.granted   += 1;
+            this.totalWait += wait;
+            this.maxWait    = Math.max(this.maxWait, wait);
+
+            entry.grant();
+        }
+
+        if (this.queue.length > 0 && this.timer === null) {
+            //tslint:disable-next-line:no-magic-numbers
+            const delay = Math.ceil((1 - this.tokens) * 1000 / this.rate);
+
+            this.timer = setTimeout(() => {
+                this.timer = null;
+                this.drain();
+            }, delay);
+        }
+    }
+}
+
+/**
+ * Factory function to get a token-bucket rate limiter with separate public and private budgets.
+ *
+ * @param {IRateLimiterOptions} options
+ * @returns {IRateLimiter}
+ */
+export const getRateLimiter = (options: IRateLimiterOptions = {}): IRateLimiter => {
+
+    const clock   = options.clock === undefined ? Date : options.clock;
+    const buckets = {
+        private: new TokenBucket({ ...defaultRateLimits.private, ...options.private }, clock),
+        public : new TokenBucket({ ...defaultRateLimits.public, ...options.public }, clock),
+    };
+
+    return {
+
+        /**
+         * Resolves once a token is available for the budget.
+         *
+         * @param {RateLimitBudget} budget
+         * @param {number} priority
+         * @returns {Promise<void>}
+         */
+        acquire(budget: RateLimitBudget, priority: number = requestPriority.query): Promise<void> {
+            return buckets[budget].acquire(priority);
+        },
+
+        /**
+         * Runs `task` once a token is available for the budget.
+         *
+         * @param {RateLimitBudget} budget
+         * @param {() => Promise<T>} task
+         * @param {number} priority
+         * @returns {Promise<T>}
+         */
+        async schedule<T>(budget: RateLimitBudget, task: () => Promise<T>, priority?: number): Promise<T> {
+            await this.acquire(budget, priority);
+
+            return task();
+        },
+
+        getQueueDepth(budget: RateLimitBudget): number {
+            return buckets[budget].getMetrics().queued;
+        },
+
+        getMetrics(): IRateLimiterMetrics {
+            return { private: buckets.private.getMetrics(), public: buckets.public.getMetrics() };
+        },
+    };
+};
@@ -0,0 +1,398 @@
+import { IGdaxClient } from '../index';
+import { toDecimal, Decimal, DecimalInput } from './decimal';
+import { IAccount, IFill, ILedgerEntry, IProduct, ITransferReceipt } from './models';
+import { getPaginator } from './pagination';
+import { formatCsv } from './reports';
+
+/**
+ * A deposit or withdrawal known to the caller, e.g. the receipt of IGdaxClient#withdrawToCryptoAddress.
+ */
+export type ITransferRecord = ITransferReceipt & { type: 'deposit' | 'withdraw' };
+
+/**
+ * What went wrong:
+ *
+ * - 'running_balance': an entry's balance is not the previous balance plus its amount
+ * - 'account_balance': the last ledger balance is not the account's current balance
+ * - 'unmatched_entry': a match or fee entry has no fill, or a transfer entry has no known transfer
+ * - 'amount_mismatch': an entry's amount disagrees with its fill or transfer
+ * - 'missing_entry': a fill or known transfer has no ledger entry
+ */
+export type DiscrepancyType = 'running_balance' | 'account_balance' | 'unmatched_entry' | 'amount_mismatch' |
+                              'missing_entry';
+
+export type IDiscrepancy = {
+    type: DiscrepancyType;
+    account_id: string;
+    currency: string;
+    entry_id?: string;
+    trade_id?: string;
+    transfer_id?: string;
+    expected?: string;
+    actual?: string;
+    message: string;
+};
+
+/**
+ * A ledger entry flattened for export.  `matched` tells whether it was matched to a fill or transfer.
+ */
+export type ILedgerExportRow = {
+    account_id: string;
+    currency: string;
+    id: string;
+    created_at: string;
+    type: string;
+    amount: string;
+    balance: string;
+    order_id: string;
+    trade_id: string;
+    product_id: string;
+    transfer_id: string;
+    transfer_type: string;
+    matched: boolean;
+};
+
+export type IAccountReconciliation = {
+    account_id: string;
+    currency: string;
+    entries: number;
+    ledger_balance: string;
+    balance: string;
+    balanced: boolean;
+};
+
+/**
+ * The outcome of a reconciliation.  `ok` is true when there are no discrepancies.  Transfers are only checked when
+ * the caller supplies them; `transfers_checked` says whether they were.
+ */
+export type IReconciliationReport = {
+    time: string;
+    ok: boolean;
+    transfers_checked: boolean;
+    accounts: IAccountReconciliation[];
+    discrepancies: IDiscrepancy[];
+    ledger: ILedgerExportRow[];
+};
+
+/**
+ * Reconciliation options.  Amounts are compared to within `tolerance` (default 1e-8), since ledger amounts are
+ * rounded.  `transfers` are the deposits and withdrawals to match transfer entries against.
+ */
+export type IReconciliationOptions = { transfers?: ITransferRecord[]; tolerance?: DecimalInput };
+
+export type ExportFormat = 'json' | 'csv';
+
+/**
+ * Column order of the exports.
+ */
+const ledgerColumns: Array<keyof ILedgerExportRow> = [
+    'account_id', 'currency', 'id', 'created_at', 'type', 'amount', 'balance', 'order_id', 'trade_id', 'product_id',
+    'transfer_id', 'transfer_type', 'matched',
+];
+
+const discrepancyColumns: Array<keyof IDiscrepancy> = [
+    'type', 'account_id', 'currency', 'entry_id', 'trade_id', 'transfer_id', 'expected', 'actual', 'message',
+];
+
+/**
+ * The ledger entries a fill should produce, keyed by `${trade id}|${product id}|${currency}|${type}`.  Products that
+ * are no longer listed take their currencies from the product id.
+ */
+const expectedEntries = (fill: IFill, product?: IProduct): Map<string, Decimal> => {
+    const [base, quote] = product === undefined ? fill.product_id.split('-') :
+                          [product.base_currency, product.quote_currency];
+    const key           = (currency: string, type: string) =>
+        `${fill.trade_id}|${fill.product_id}|${currency}|${type}`;
+    const size          = toDecimal(fill.size);
+    const notional      = size.times(fill.price);
+    const buy           = fill.side === 'buy';
+    const entries       = new Map<string, Decimal>([
+        [key(base, 'match'), buy ? size : size.negated()],
+        [key(quote, 'match'), buy ? notional.negated() : notional],
+    ]);
+
+    if (!toDecimal(fill.fee).isZero()) entries.set(key(quote, 'fee'), toDecimal(fill.fee).negated());
+
+    return entries;
+};
+
+const toExportRow = (account: IAccount, entry: ILedgerEntry, matched: boolean): ILedgerExportRow => {
+    const details = entry.details === undefined ? {} : entry.details;
+    const text    = (value: string | number) => value === undefined || value === null ? '' : `${value}`;
+
+    return {
+        account_id   : account.id,
+        amount       : entry.amount,
+        balance      : entry.balance,
+        created_at   : entry.created_at,
+        currency     : account.currency,
+        id           : entry.id,
+        matched,
+        order_id     : text(details.order_id),
+        product_id   : text(details.product_id),
+        trade_id     : text(details.trade_id),
+        transfer_id  : text(details.transfer_id),
+        transfer_type: text(details.transfer_type),
+        type         : entry.type,
+    };
+};
+
+/**
+ * What the checks of one reconciliation share: the expected fill entries and known transfers, the keys of those seen
+ * in a ledger, and the discrepancies found so far.
+ */
+type IReconciliationState = {
+    expected: Map<string, Decimal>;
+    transfers: Map<string, ITransferRecord>;
+    checkTransfers: boolean;
+    seen: Set<string>;
+    discrepancies: IDiscrepancy[];
+    differs(a: Decimal, b: Decimal): boolean;
+};
+
+/**
+ * Matches a match or fee entry to its fill.
+ */
+const checkFillEntry = (state: IReconciliationState, account: IAccount, entry: ILedgerEntry): boolean => {
+    const details = entry.details === undefined ? {} : entry.details;
+    const key     = `${details.trade_id}|${details.product_id}|${account.currency}|${entry.type}`;
+    const amount  = state.expected.get(key);
+    const base    = {
+        account_id: account.id,
+        currency  : account.currency,
+        entry_id  : entry.id,
+        trade_id  : details.trade_id,
+    };
+
+    state.seen.add(key);
+
+    if (amount === undefined) {
+        state.discrepancies.push({ ...base, message: `${entry.type} entry without a fill`, type: 'unmatched_entry' });
+
+        return false;
+    }
+
+    if (state.differs(amount, toDecimal(entry.amount))) {
+        state.discrepancies.push({
+            ...base,
+            actual  : entry.amount,
+            expected: amount.toFixed(),
+            message : `${entry.type} entry disagrees with its fill`,
+            type    : 'amount_mismatch',
+        });
+    }
+
+    return true;
+};
+
+/**
+ * Matches a transfer entry to a known deposit or withdrawal.
+ */
+const checkTransferEntry = (state: IReconciliationState, account: IAccount, entry: ILedgerEntry): boolean => {
+    const details  = entry.details === undefined ? {} : entry.details;
+    const transfer = state.transfers.get(details.transfer_id);
+    const base     = {
+        account_id : account.id,
+        currency   : account.currency,
+        entry_id   : entry.id,
+        transfer_id: details.transfer_id,
+    };
+
+    state.seen.add(details.transfer_id);
+
+    if (transfer === undefined) {
+        const message = 'transfer entry without a known transfer';
+        state.discrepancies.push({ ...base, message, type: 'unmatched_entry' });
+
+        return false;
+    }
+
+    const size   = toDecimal(transfer.amount).abs();
+    const signed = transfer.type === 'withdraw' ? size.negated() : size;
+
+    if (transfer.currency !== account.currency || state.differs(signed, toDecimal(entry.amount))) {
+        state.discrepancies.push({
+            ...base,
+            actual  : `${entry.amount} ${account.currency}`,
+            expected: `${signed.toFixed()} ${transfer.currency}`,
+            message : 'transfer entry disagrees with the transfer',
+            type    : 'amount_mismatch',
+        });
+    }
+
+    return true;
+};
+
+/**
+ * Walks one account's ledger, oldest first, checking the running balance and matching every entry.  Returns the
+ * balance the ledger adds up to.
+ */
+const reconcileAccount = (state: IReconciliationState, account: IAccount, entries: ILedgerEntry[],
+                          ledger: ILedgerExportRow[]): Decimal => {
+
+    const first = entries[0];
+    let running = first === undefined ? toDecimal('0') : toDecimal(first.balance).minus(first.amount);
+
+    for (const entry of entries) {
+        running = running.plus(entry.amount);
+
+        if (state.differs(running, toDecimal(entry.balance))) {
+            state.discrepancies.push({
+                account_id: account.id,
+                actual    : entry.balance,
+                currency  : account.currency,
+                entry_id  : entry.id,
+                expected  : running.toFixed(),
+                message   : `balance after entry ${entry.id} does not follow from its amount`,
+                type      : 'running_balance',
+            });
+            running = toDecimal(entry.balance);
+        }
+
+        const matched = entry.type === 'match' || entry.type === 'fee' ? checkFillEntry(state, account, entry) :
+                        entry.type === 'transfer' && state.checkTransfers ? checkTransferEntry(state, account, entry) :
+                        false;
+
+        ledger.push(toExportRow(account, entry, matched));
+    }
+
+    return running;
+};
+
+/**
+ * Reports the fills and transfers that no ledger mentioned.
+ */
+const reportMissing = (state: IReconciliationState, accounts: IAccount[]): void => {
+    const accountId = (currency: string) => {
+        const account = accounts.find((candidate) => candidate.currency === currency);
+
+        return account === undefined ? '' : account.id;
+    };
+
+    state.expected.forEach((amount, key) => {
+        const [tradeId, productId, currency, type] = key.split('|');
+        if (state.seen.has(key)) return;
+
+        state.discrepancies.push({
+            account_id: accountId(currency),
+            currency,
+            expected  : amount.toFixed(),
+            message   : `no ${type} entry for trade ${tradeId} of ${productId}`,
+            trade_id  : tradeId,
+            type      : 'missing_entry',
+        });
+    });
+
+    state.transfers.forEach((transfer) => {
+        if (state.seen.has(transfer.id)) return;
+
+        state.discrepancies.push({
+            account_id : accountId(transfer.currency),
+            currency   : transfer.currency,
+            expected   : toDecimal(transfer.amount).toFixed(),
+            message    : `no ledger entry for ${transfer.type} ${transfer.id}`,
+            transfer_id: transfer.id,
+            type       : 'missing_entry',
+        });
+    });
+};
+
+/**
+ * Walks the ledger of every account and checks it against the fills, the known transfers and the current balances.
+ * Ledgers are read oldest first; an account whose history starts with a non-zero balance is taken to start there.
+ *
+ * @param {IGdaxClient} client
+ * @param {IReconciliationOptions} options
+ * @returns {Promise<IReconciliationReport>}
+ */
+export const reconcileLedger = async (client: IGdaxClient,
+                                      options: IReconciliationOptions = {}): Promise<IReconciliationReport> => {
+
+    const tolerance          = toDecimal(options.tolerance === undefined ? '0.00000001' : options.tolerance);
+    const paginator          = getPaginator(client);
+    const { data: products } = await client.getProducts();
+    const { data: accounts } = await client.listAccounts();
+    const transfers          = options.transfers === undefined ? [] : options.transfers;
+
+    const state: IReconciliationState = {
+        checkTransfers: options.transfers !== undefined,
+        differs       : (a, b) => a.minus(b).abs().greaterThan(tolerance),
+        discrepancies : [],
+        expected      : new Map(),
+        seen          : new Set(),
+        transfers     : new Map(transfers.map((transfer): [string, ITransferRecord] => [transfer.id, transfer])),
+    };
+
+    for await (const fill of paginator.fills()) {
+        const product = products.find(({ id }) => id === fill.product_id);
+
+        expectedEntries(fill, product).forEach((amount, key) => state.expected.set(key, amount));
+    }
+
+    const ledger: ILedgerExportRow[]           = [];
+    const reconciled: IAccountReconciliation[] = [];
+
+    for (const listed of accounts) {
+        const { data: account }       = await client.getAccount(listed.id);
+        const entries: ILedgerEntry[] = [];
+
+        for await (const entry of paginator.accountHistory(account.id)) entries.push(entry);
+        entries.reverse();
+
+        const balance  = reconcileAccount(state, account, entries, ledger);
+        const balanced = !state.differs(balance, toDecimal(account.balance));
+
+        if (!balanced) {
+            state.discrepancies.push({
+                account_id: account.id,
+                actual    : account.balance,
+                currency  : account.currency,
+                expected  : balance.toFixed(),
+                message   : 'ledger does not add up to the account balance',
+                type      : 'account_balance',
+            });
+        }
+
+        reconciled.push({
+            account_id    : account.id,
+            balance       : account.balance,
+            balanced,
+            currency      : account.currency,
+            entries       : entries.length,
+            ledger_balance: balance.toFixed(),
+        });
+    }
+
+    reportMissing(state, accounts);
+
+    return {
+        accounts         : reconciled,
+        discrepancies    : state.discrepancies,
+        ledger,
+        ok               : state.discrepancies.length === 0,
+        time             : new Date().toISOString(),
+        transfers_checked: state.checkTransfers,
+    };
+};
+
+/**
+ * Serializes ledger rows, as a JSON array or as CSV with a header line.
+ *
+ * @param {ILedgerExportRow[]} rows
+ * @param {ExportFormat} format
+ * @returns {string}
+ */
+export const exportLedger = (rows: ILedgerExportRow[], format: ExportFormat = 'json'): string =>
+    //tslint:disable-next-line:no-magic-numbers
+    format === 'csv' ? formatCsv(ledgerColumns, rows) : JSON.stringify(rows, null, 2);
+
+/**
+ * Serializes discrepancies, as a JSON array or as CSV with a header line.
+ *
+ * @param {IDiscrepancy[]} discrepancies
+ * @param {ExportFormat} format
+ * @returns {string}
+ */
+export const exportDiscrepancies = (discrepancies: IDiscrepancy[], format: ExportFormat = 'json'): string =>
+    //tslint:disable-next-line:no-magic-numbers
+    format === 'csv' ? formatCsv(discrepancyColumns, discrepancies) : JSON.stringify(discrepancies, null, 2);
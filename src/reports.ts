@@ -0,0 +1,325 @@
+import * as axiosDefault from 'axios';
+import * as fs from 'fs';
+import { Readable } from 'stream';
+import { ICreateReportParams, IGdaxClient } from '../index';
+import { toGdaxError, ServerError, TimeoutError, ValidationError } from './errors';
+import { IReport } from './models';
+import { sleep } from './retry';
+
+/**
+ * A row of a fills report.  Amounts are exact strings, in `size_unit` or `price_fee_total_unit`.
+ */
+export type IFillReportRow = {
+    portfolio: string;
+    trade_id: number;
+    product: string;
+    side: string;
+    created_at: string;
+    size: string;
+    size_unit: string;
+    price: string;
+    fee: string;
+    total: string;
+    price_fee_total_unit: string;
+};
+
+/**
+ * A row of an account report.  The ids that do not apply to the entry's type are empty.
+ */
+export type IAccountReportRow = {
+    portfolio: string;
+    type: string;
+    time: string;
+    amount: string;
+    balance: string;
+    amount_balance_unit: string;
+    transfer_id: string;
+    trade_id: string;
+    order_id: string;
+};
+
+/**
+ * What can be told about a PDF report without rendering it.
+ */
+export type IPdfMetadata = { version: string; pageCount: number; size: number };
+
+/**
+ * A generated report.  CSV reports come with their `rows`, PDF reports with their `pdf` metadata; reports streamed to
+ * disk come with the `file` they were written to and its `size` in bytes instead.
+ */
+export type IReportResult<T> = { report: IReport; rows?: T[]; pdf?: IPdfMetadata; file?: string; size?: number };
+
+/**
+ * Polling and download options.  Status is polled every `pollInterval` ms, doubling up to `maxPollInterval`, for at
+ * most `timeout` ms.  With a `destination` path the file is streamed to disk instead of being parsed in memory.
+ */
+export type IReportOptions = {
+    pollInterval?: number;
+    maxPollInterval?: number;
+    timeout?: number;
+    destination?: string;
+};
+
+/**
+ * Default report options.
+ */
+const defaultReportConfig = {
+    maxPollInterval: 30000,
+    pollInterval   : 1000,
+    timeout        : 600000,
+};
+
+/**
+ * Splits CSV text into records of fields.  Quoted fields may contain commas, line breaks and doubled quotes.
+ *
+ * @param {string} text
+ * @returns {string[][]}
+ */
+export const parseCsv = (text: string): string[][] => {
+    const records: string[][] = [];
+    let record: string[]      = [];
+    let field                 = '';
+    let quoted                = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        switch (char) {
+            case '"':
+                quoted = true;
+                break;
+            case ',':
+                record.push(field);
+                field = '';
+                break;
+            case '\r':
+            case '\n':
+                if (char === '\r' && text[i + 1] === '\n') i++;
+                record.push(field);
+                records.push(record);
+                record = [];
+                field  = '';
+                break;
+            default:
+                field += char;
+        }
+    }
+
+    if (field !== '' || record.length > 0) records.push(record.concat(field));
+
+    return records.filter((fields) => fields.length > 1 || fields[0] !== '');
+};
+
+/**
+ * A row that can be written as CSV.
+ */
+type ICsvRow = { [column: string]: string | number | boolean };
+
+/**
+ * Quotes a CSV field when needed.
+ */
+const csvField = (value: string | number | boolean): string => {
+    const text = value === undefined || value === null ? '' : `${value}`;
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Writes rows as CSV text, one column per given field, the header first.
+ *
+ * @param {Array<keyof T>} columns
+ * @param {T[]} rows
+ * @returns {string}
+ */
+export const formatCsv = <T extends ICsvRow>(columns: Array<keyof T>, rows: T[]): string => {
+    const line = (row: T) => columns.map((column) => csvField(row[column])).join(',');
+
+    return [columns.join(',')].concat(rows.map(line)).join('\n');
+};
+
+/**
+ * Turns report CSV into objects keyed by the header, in snake case ('price/fee/total unit' becomes
+ * 'price_fee_total_unit').
+ *
+ * @param {string} text
+ * @returns {Array<{[column: string]: string}>}
+ */
+export const parseReportCsv = (text: string): Array<{ [column: string]: string }> => {
+    const [header, ...records] = parseCsv(text);
+    if (header === undefined) return [];
+
+    const columns = header.map((name) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_'));
+
+    return records.map((fields) => {
+        const row: { [column: string]: string } = {};
+        columns.forEach((column, index) => row[column] = fields[index] === undefined ? '' : fields[index]);
+
+        return row;
+    });
+};
+
+/**
+ * @param {string} text
+ * @returns {IFillReportRow[]}
+ */
+export const parseFillsReport = (text: string): IFillReportRow[] =>
+    parseReportCsv(text).map((row): IFillReportRow => ({
+        created_at          : row.created_at,
+        fee                 : row.fee,
+        portfolio           : row.portfolio,
+        price               : row.price,
+        price_fee_total_unit: row.price_fee_total_unit,
+        product             : row.product,
+        side                : row.side,
+        size                : row.size,
+        size_unit           : row.size_unit,
+        total               : row.total,
+        trade_id            : Number(row.trade_id),
+    }));
+
+/**
+ * @param {string} text
+ * @returns {IAccountReportRow[]}
+ */
+export const parseAccountReport = (text: string): IAccountReportRow[] =>
+    parseReportCsv(text).map((row): IAccountReportRow => ({
+        amount             : row.amount,
+        amount_balance_unit: row.amount_balance_unit,
+        balance            : row.balance,
+        order_id           : row.order_id,
+        portfolio          : row.portfolio,
+        time               : row.time,
+        trade_id           : row.trade_id,
+        transfer_id        : row.transfer_id,
+        type               : row.type,
+    }));
+
+/**
+ * Reads the header version and counts the pages of a PDF.
+ *
+ * @param {Buffer} file
+ * @returns {IPdfMetadata}
+ */
+export const parsePdfMetadata = (file: Buffer): IPdfMetadata => {
+    const text    = file.toString('latin1');
+    const version = /^%PDF-(\d+\.\d+)/.exec(text);
+    if (version === null) throw new ValidationError('not a PDF file');
+
+    const pages = text.match(/\/Type\s*\/Page(?!s)/g);
+
+    return { pageCount: pages === null ? 0 : pages.length, size: file.length, version: version[1] };
+};
+
+/**
+ * Polls a report until it is ready, with a doubling interval.  Throws a ServerError if the report failed and a
+ * TimeoutError if it is not ready in time.
+ *
+ * @param {IGdaxClient} client
+ * @param {string} reportId
+ * @param {IReportOptions} options
+ * @returns {Promise<IReport>}
+ */
+export const waitForReport = async (client: IGdaxClient,
+                                    reportId: string,
+                                    options: IReportOptions = {}): Promise<IReport> => {
+
+    const config   = { ...defaultReportConfig, ...options };
+    const deadline = Date.now() + config.timeout;
+    let interval   = config.pollInterval;
+
+    for (;;) {
+        const { data: report } = await client.getReportStatus(reportId);
+
+        if (report.status === 'ready') return report;
+        if (report.status === 'failed') {
+            throw new ServerError(`report ${reportId} failed`, { endpoint: `reports/${reportId}`, method: 'GET' });
+        }
+        if (Date.now() + interval > deadline) {
+            throw new TimeoutError(`report ${reportId} not ready after ${config.timeout} ms`,
+                                   { endpoint: `reports/${reportId}`, method: 'GET' });
+        }
+
+        await sleep(interval);
+        //tslint:disable-next-line:no-magic-numbers
+        interval = Math.min(interval * 2, config.maxPollInterval);
+    }
+};
+
+/**
+ * Fetches a report file, into memory or onto disk.  Report files are served from pre-signed URLs, so the request is
+ * not signed; it goes through the client's cassette, if any, unless streamed.
+ */
+const download = async (client: IGdaxClient, fileUrl: string, destination?: string): Promise<Buffer | number> => {
+    const cassette = client.rawAgent.cassette;
+
+    try {
+        if (destination === undefined) {
+            const adapter  = cassette === null || cassette === undefined ? undefined : cassette.adapter;
+            const response = await axiosDefault.default({ adapter, responseType: 'arraybuffer', url: fileUrl });
+
+            return Buffer.from(response.data);
+        }
+
+        const { data } = await axiosDefault.default({ responseType: 'stream', url: fileUrl });
+
+        return await new Promise<number>((resolve, reject) => {
+            const file = fs.createWriteStream(destination);
+            // A partial file is removed, so that it cannot be mistaken for the report
+            const fail = (err: Error) => {
+                file.destroy();
+                fs.unlink(destination, () => reject(err));
+            };
+
+            (data as Readable).on('error', fail).pipe(file).on('error', fail).on('finish', () => {
+                resolve(file.bytesWritten);
+            });
+        });
+    } catch (err) {
+        throw toGdaxError(err, 'GET', fileUrl);
+    }
+};
+
+/**
+ * Creates a report, waits until it is ready, downloads it and parses it: CSV into typed rows, PDF into metadata.  With
+ * `destination` the file is streamed to disk and left unparsed.
+ *
+ * @param {IGdaxClient} client
+ * @param {ICreateReportParams} params
+ * @param {IReportOptions} options
+ * @returns {Promise<IReportResult>}
+ */
+export function generateReport(client: IGdaxClient,
+                               params: ICreateReportParams & { type: 'fills' },
+                               options?: IReportOptions): Promise<IReportResult<IFillReportRow>>;
+export function generateReport(client: IGdaxClient,
+                               params: ICreateReportParams & { type: 'account' },
+                               options?: IReportOptions): Promise<IReportResult<IAccountReportRow>>;
+export async function generateReport(client: IGdaxClient,
+                                     params: ICreateReportParams,
+                                     options: IReportOptions = {}):
+    Promise<IReportResult<IFillReportRow | IAccountReportRow>> {
+
+    const { data: created } = await client.createReport(params);
+    const report            = await waitForReport(client, created.id, options);
+    const file              = await download(client, report.file_url, options.destination);
+
+    if (typeof file === 'number') return { file: options.destination, report, size: file };
+
+    if (params.format === 'pdf') return { pdf: parsePdfMetadata(file), report };
+
+    const text = file.toString('utf8');
+
+    return { report, rows: params.type === 'fills' ? parseFillsReport(text) : parseAccountReport(text) };
+}
@@ -0,0 +1,128 @@
+import { toGdaxError, NetworkError, NotFoundError, RateLimitError, ServerError } from './errors';
+
+/**
+ * Retry policy.  Delays are in milliseconds.  The n-th retry waits a random time between zero and
+ * min(maxDelay, baseDelay * 2^n) ("full jitter"), unless a 429 response says how long to wait via Retry-After.
+ */
+export type IRetryPolicy = { maxRetries: number; baseDelay: number; maxDelay: number };
+
+/**
+ * Default retry policy.
+ */
+export const defaultRetryPolicy: IRetryPolicy = {
+    baseDelay : 250,
+    maxDelay  : 8000,
+    maxRetries: 3,
+};
+
+/**
+ * True when the exchange rejected the request for exceeding the rate limit.  Such requests were not processed.
+ *
+ * @param {Error} err
+ * @returns {boolean}
+ */
+export const isRateLimitError = (err: Error): boolean => toGdaxError(err) instanceof RateLimitError;
+
+/**
+ * True when we cannot tell whether the exchange acted on the request: it timed out, the connection dropped, or the
+ * server answered with a 5xx.
+ *
+ * @param {Error} err
+ * @returns {boolean}
+ */
+export const isAmbiguousError = (err: Error): boolean => {
+    const error = toGdaxError(err);
+
+    return error instanceof NetworkError || error instanceof ServerError;
+};
+
+/**
+ * True when an idempotent request that failed this way is worth repeating.
+ *
+ * @param {Error} err
+ * @returns {boolean}
+ */
+export const isRetryableError = (err: Error): boolean => isRateLimitError(err) || isAmbiguousError(err);
+
+/**
+ * How long to wait before the given retry (zero-based).
+ *
+ * @param {IRetryPolicy} policy
+ * @param {number} attempt
+ * @param {Error} err
+ * @returns {number}
+ */
+export const getRetryDelay = (policy: IRetryPolicy, attempt: number, err?: Error): number => {
+    const error = err === undefined ? undefined : toGdaxError(err);
+
+    if (error instanceof RateLimitError && error.retryAfter !== undefined) return error.retryAfter;
+
+    //tslint:disable-next-line:no-magic-numbers
+    const ceiling = Math.min(policy.maxDelay, policy.baseDelay * Math.pow(2, attempt));
+
+    return Math.random() * ceiling;
+};
+
+/**
+ * Promisified setTimeout.
+ *
+ * @param {number} ms
+ * @returns {Promise<void>}
+ */
+export const sleep = (ms: number): Promise<void> => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs `task`, repeating it with backoff while it fails with a retryable error.  Only use this for requests that are
+ * safe to repeat.
+ *
+ * @param {IRetryPolicy} policy
+ * @param {() => Promise<T>} task
+ * @returns {Promise<T>}
+ */
+export const withRetry = async <T>(policy: IRetryPolicy, task: () => Promise<T>): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await task();
+        } catch (err) {
+            if (policy === null || attempt >= policy.maxRetries || !isRetryableError(err)) throw err;
+
+            await sleep(getRetryDelay(policy, attempt, err));
+        }
+    }
+};
+
+/**
+ * Runs a non-idempotent `submit` (e.g. placing an order) safely.  Rate-limited attempts are simply repeated.  When an
+ * attempt fails ambiguously, `lookup` is asked whether the first submission took effect: if it finds the result, that
+ * is returned; if it fails with a 404, the submission is repeated; if it fails otherwise, the original error is
+ * thrown rather than risk submitting twice.
+ *
+ * @param {IRetryPolicy} policy
+ * @param {() => Promise<T>} submit
+ * @param {() => Promise<T>} lookup
+ * @returns {Promise<T>}
+ */
+export const submitIdempotently = async <T>(policy: IRetryPolicy,
+                                            submit: () => Promise<T>,
+                                            lookup: () => Promise<T>): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await submit();
+        } catch (err) {
+            if (!isRetryableError(err)) throw err;
+
+            await sleep(getRetryDelay(policy, attempt, err));
+
+            // Even when out of retries, an ambiguous failure is looked up so the caller learns about a placed order.
+            if (isAmbiguousError(err)) {
+                try {
+                    return await lookup();
+                } catch (lookupErr) {
+                    if (!(toGdaxError(lookupErr) instanceof NotFoundError)) throw err;
+                }
+            }
+
+            if (attempt >= policy.maxRetries) throw err;
+        }
+    }
+};
@@ -0,0 +1,367 @@
+import {
+    IGdaxClient,
+    IGdaxResponse,
+    IPostBody,
+    IWithdrawToCoinbaseAccountParams,
+    IWithdrawToCryptoAddressParams,
+    IWithdrawToPaymentMethodParams,
+} from '../index';
+import { serializeDecimals, toDecimal, Decimal, DecimalInput } from './decimal';
+import { toGdaxError, NetworkError, ServerError, WithdrawalBlockedError } from './errors';
+import { ITransferReceipt } from './models';
+
+/**
+ * Where a withdrawal goes: a crypto address, a payment method (e.g. a bank account) or a Coinbase account.
+ */
+export type WithdrawalMethod = 'crypto' | 'paymentMethod' | 'coinbaseAccount';
+
+/**
+ * The request a withdrawal is sent as, exactly.
+ */
+export type IWithdrawalRequest = { method: 'POST'; endpoint: string; body: IPostBody };
+
+/**
+ * 'unknown' attempts got no clear answer (no response, or a 5xx) and may have gone through; they count towards the
+ * daily limits like 'sent' ones.
+ */
+export type WithdrawalOutcome = 'sent' | 'dry_run' | 'blocked' | 'failed' | 'unknown';
+
+/**
+ * One attempt, whatever became of it.
+ */
+export type IWithdrawalAuditEntry = {
+    time: string;
+    method: WithdrawalMethod;
+    currency: string;
+    amount: string;
+    destination: string;
+    outcome: WithdrawalOutcome;
+    request: IWithdrawalRequest;
+    reason?: string;
+    receipt?: ITransferReceipt;
+};
+
+export type IWithdrawalResult = { dryRun: boolean; request: IWithdrawalRequest; receipt?: ITransferReceipt };
+
+/**
+ * Destinations withdrawals may go to.  A destination type that is not listed cannot be withdrawn to at all.  Crypto
+ * addresses are listed per currency.
+ */
+export type IWithdrawalAllowlist = {
+    cryptoAddresses?: { [currency: string]: string[] };
+    paymentMethods?: string[];
+    coinbaseAccounts?: string[];
+};
+
+/**
+ * Checks the format of an address of some currency.
+ */
+export type AddressValidator = RegExp | ((address: string) => boolean);
+
+/**
+ * Guard options.
+ *
+ * `maxAmount` caps a single withdrawal and `dailyLimit` the total over any 24 hours, per currency; currencies with
+ * neither are refused.  Crypto addresses are checked by `addressValidators` (on top of the built-in BTC, BCH, LTC, ETH
+ * and ETC formats); addresses of other currencies are refused.  Currencies are upper-cased before they are checked
+ * and sent.  With `dryRun`, nothing is sent.  Every attempt is passed to `audit`; pass the entries of earlier runs as
+ * `history` so that they count towards the daily limits.
+ */
+export type IWithdrawalGuardOptions = {
+    allowlist: IWithdrawalAllowlist;
+    maxAmount?: { [currency: string]: DecimalInput };
+    dailyLimit?: { [currency: string]: DecimalInput };
+    addressValidators?: { [currency: string]: AddressValidator };
+    dryRun?: boolean;
+    history?: IWithdrawalAuditEntry[];
+    audit?(entry: IWithdrawalAuditEntry): void;
+};
+
+/**
+ * Per-call options: `dryRun` overrides the guard's.
+ */
+export type IWithdrawalCallOptions = { dryRun?: boolean };
+
+/**
+ * A guarded layer over the client's withdrawals.  Withdrawals that break a rule are refused with a
+ * WithdrawalBlockedError before anything is sent.
+ */
+export interface IWithdrawalGuard {
+    withdrawToCryptoAddress(params: IWithdrawToCryptoAddressParams,
+                            options?: IWithdrawalCallOptions): Promise<IWithdrawalResult>;
+
+    withdrawToPaymentMethod(params: IWithdrawToPaymentMethodParams,
+                            options?: IWithdrawalCallOptions): Promise<IWithdrawalResult>;
+
+    withdrawToCoinbaseAccount(params: IWithdrawToCoinbaseAccountParams,
+                              options?: IWithdrawalCallOptions): Promise<IWithdrawalResult>;
+
+    getAuditLog(): IWithdrawalAuditEntry[];
+
+    getDailyTotal(currency: string): Decimal;
+}
+
+/**
+ * What the three kinds of withdrawal have in common.
+ */
+type IWithdrawalParams = IPostBody & { amount: DecimalInput; currency: string };
+
+const base58 = '[a-km-zA-HJ-NP-Z1-9]';
+const bech32 = '[ac-hj-np-z02-9]';
+
+/**
+ * Address formats of the currencies GDAX supports.
+ */
+export const defaultAddressValidators: { [currency: string]: AddressValidator } = {
+    BCH: new RegExp(`^([13]${base58}{25,34}|(bitcoincash:)?[qp][a-z0-9]{41})$`),
+    BTC: new RegExp(`^([13]${base58}{25,34}|bc1${bech32}{11,71})$`),
+    ETC: /^0x[0-9a-fA-F]{40}$/,
+    ETH: /^0x[0-9a-fA-F]{40}$/,
+    LTC: new RegExp(`^([LM3]${base58}{26,33}|ltc1${bech32}{11,71})$`),
+};
+
+const endpoints: { [method: string]: string } = {
+    coinbaseAccount: 'withdrawals/coinbase-account',
+    crypto         : 'withdrawals/crypto',
+    paymentMethod  : 'withdrawals/payment-method',
+};
+
+/**
+ * Outcomes that may have moved funds.
+ */
+const countedOutcomes = ['sent', 'unknown'];
+
+//tslint:disable-next-line:no-magic-numbers
+const day = 24 * 60 * 60 * 1000;
+
+const zero = toDecimal('0');
+
+/**
+ * The amount as a Decimal, or undefined when it is not a number at all.
+ */
+const parseAmount = (amount: DecimalInput): Decimal => {
+    try {
+        return toDecimal(amount);
+    } catch (err) {
+        return undefined;
+    }
+};
+
+/**
+ * Keys a per-currency map by upper-case currency.
+ */
+const byCurrency = <T>(map: { [currency: string]: T } = {}): { [currency: string]: T } =>
+    Object.keys(map).reduce<{ [currency: string]: T }>(
+        (keyed, currency) => ({ ...keyed, [currency.toUpperCase()]: map[currency] }), {});
+
+class WithdrawalGuard implements IWithdrawalGuard {
+
+    private client: IGdaxClient;
+    private options: IWithdrawalGuardOptions;
+    private cryptoAddresses: { [currency: string]: string[] };
+    private maxAmount: { [currency: string]: DecimalInput };
+    private dailyLimit: { [currency: string]: DecimalInput };
+    private validators: { [currency: string]: AddressValidator };
+    private log: IWithdrawalAuditEntry[];
+    private inFlight: IWithdrawalAuditEntry[] = [];
+
+    constructor(client: IGdaxClient, options: IWithdrawalGuardOptions) {
+        this.client          = client;
+        this.options         = options;
+        this.cryptoAddresses = byCurrency(options.allowlist.cryptoAddresses);
+        this.maxAmount       = byCurrency(options.maxAmount);
+        this.dailyLimit      = byCurrency(options.dailyLimit);
+        this.validators      = { ...defaultAddressValidators, ...byCurrency(options.addressValidators) };
+        this.log             = options.history === undefined ? [] : options.history.slice();
+    }
+
+    /**
+     * Withdraws to an allowed crypto address of the right format.
+     *
+     * @param {IWithdrawToCryptoAddressParams} params
+     * @param {IWithdrawalCallOptions} options
+     * @returns {Promise<IWithdrawalResult>}
+     */
+    public withdrawToCryptoAddress(params: IWithdrawToCryptoAddressParams,
+                                   options?: IWithdrawalCallOptions): Promise<IWithdrawalResult> {
+
+        return this.withdraw('crypto', params.crypto_address, params, options);
+    }
+
+    /**
+     * Withdraws to an allowed payment method.
+     *
+     * @param {IWithdrawToPaymentMethodParams} params
+     * @param {IWithdrawalCallOptions} options
+     * @returns {Promise<IWithdrawalResult>}
+     */
+    public withdrawToPaymentMethod(params: IWithdrawToPaymentMethodParams,
+                                   options?: IWithdrawalCallOptions): Promise<IWithdrawalResult> {
+
+        return this.withdraw('paymentMethod', params.payment_method_id, params, options);
+    }
+
+    /**
+     * Withdraws to an allowed Coinbase account.
+     *
+     * @param {IWithdrawToCoinbaseAccountParams} params
+     * @param {IWithdrawalCallOptions} options
+     * @returns {Promise<IWithdrawalResult>}
+     */
+    public withdrawToCoinbaseAccount(params: IWithdrawToCoinbaseAccountParams,
+                                     options?: IWithdrawalCallOptions): Promise<IWithdrawalResult> {
+
+        return this.withdraw('coinbaseAccount', params.coinbase_account_id, params, options);
+    }
+
+    public getAuditLog(): IWithdrawalAuditEntry[] {
+        return this.log.slice();
+    }
+
+    /**
+     * What has been withdrawn (or may have been) in the last 24 hours, in flight included.
+     *
+     * @param {string} currency
+     * @returns {Decimal}
+     */
+    public getDailyTotal(currency: string): Decimal {
+        const since = Date.now() - day;
+
+        return this.log.filter((entry) => countedOutcomes.indexOf(entry.outcome) >= 0 &&
+                                          new Date(entry.time).getTime() > since)
+                       .concat(this.inFlight)
+                       .filter((entry) => entry.currency.toUpperCase() === currency.toUpperCase())
+                       .reduce((total, entry) => total.plus(entry.amount), zero);
+    }
+
+    private async withdraw(method: WithdrawalMethod,
+                           destination: string,
+                           given: IWithdrawalParams,
+                           options: IWithdrawalCallOptions = {}): Promise<IWithdrawalResult> {
+
+        const params                       = { ...given, currency: given.currency.toUpperCase() };
+        const amount                       = parseAmount(params.amount);
+        const body                         = serializeDecimals(params);
+        const request: IWithdrawalRequest  = { body, endpoint: endpoints[method], method: 'POST' };
+        const entry: IWithdrawalAuditEntry = {
+            amount  : amount === undefined ? `${params.amount}` : amount.toFixed(),
+            currency: params.currency,
+            destination,
+            method,
+            outcome : 'blocked',
+            request,
+            time    : new Date().toISOString(),
+        };
+
+        const reason = amount === undefined ?
+                       `${params.amount} is not a valid amount` :
+                       this.violation(method, destination, entry.currency, amount);
+
+        if (reason !== undefined) {
+            entry.reason = reason;
+            this.record(entry);
+            throw new WithdrawalBlockedError(`withdrawal blocked: ${reason}`);
+        }
+
+        const dryRun = options.dryRun === undefined ? this.options.dryRun === true : options.dryRun;
+
+        if (dryRun) {
+            entry.outcome = 'dry_run';
+            this.record(entry);
+
+            return { dryRun, request };
+        }
+
+        this.inFlight.push(entry);
+
+        try {
+            const receipt = (await this.send(method, params)).data;
+
+            entry.outcome = 'sent';
+            entry.receipt = receipt;
+
+            return { dryRun, receipt, request };
+        } catch (err) {
+            const error = toGdaxError(err);
+
+            entry.outcome = error instanceof NetworkError || error instanceof ServerError ? 'unknown' : 'failed';
+            entry.reason  = error.message;
+            throw error;
+        } finally {
+            this.inFlight.splice(this.inFlight.indexOf(entry), 1);
+            this.record(entry);
+        }
+    }
+
+    private send(method: WithdrawalMethod, params: IWithdrawalParams): Promise<IGdaxResponse<ITransferReceipt>> {
+
+        switch (method) {
+            case 'crypto':
+                return this.client.withdrawToCryptoAddress(params as IWithdrawToCryptoAddressParams);
+            case 'paymentMethod':
+                return this.client.withdrawToPaymentMethod(params as IWithdrawToPaymentMethodParams);
+            default:
+                return this.client.withdrawToCoinbaseAccount(params as IWithdrawToCoinbaseAccountParams);
+        }
+    }
+
+    /**
+     * The first rule a withdrawal breaks, if any.
+     */
+    private violation(method: WithdrawalMethod, destination: string, currency: string, amount: Decimal): string {
+        const allowlist = this.options.allowlist;
+        const allowed   = method === 'crypto' ?
+                          this.cryptoAddresses[currency] :
+                          method === 'paymentMethod' ?
+                          allowlist.paymentMethods :
+                          allowlist.coinbaseAccounts;
+        const max       = this.maxAmount[currency];
+        const limit     = this.dailyLimit[currency];
+
+        if (!amount.greaterThan(0)) return `amount must be positive, not ${amount.toFixed()}`;
+
+        if (max === undefined && limit === undefined) return `no withdrawal limit is set for ${currency}`;
+
+        if (allowed === undefined || allowed.indexOf(destination) < 0) {
+            return `${destination} is not an allowed ${method} destination for ${currency}`;
+        }
+
+        if (method === 'crypto' && !this.validAddress(currency, destination)) {
+            return `${destination} is not a valid ${currency} address`;
+        }
+
+        if (max !== undefined && amount.greaterThan(max)) {
+            return `${amount.toFixed()} ${currency} is more than the ${toDecimal(max).toFixed()} allowed at once`;
+        }
+
+        const total = this.getDailyTotal(currency).plus(amount);
+        if (limit !== undefined && total.greaterThan(limit)) {
+            return `${total.toFixed()} ${currency} in 24 hours is more than the ${toDecimal(limit).toFixed()} allowed`;
+        }
+
+        return undefined;
+    }
+
+    private validAddress(currency: string, address: string): boolean {
+        const validator = this.validators[currency];
+
+        if (validator === undefined) return false;
+
+        return validator instanceof RegExp ? validator.test(address) : validator(address);
+    }
+
+    private record(entry: IWithdrawalAuditEntry): void {
+        this.log.push(entry);
+        if (this.options.audit !== undefined) this.options.audit({ ...entry });
+    }
+}
+
+/**
+ * Factory function to get a withdrawal guard over a client.
+ *
+ * @param {IGdaxClient} client
+ * @param {IWithdrawalGuardOptions} options
+ * @returns {IWithdrawalGuard}
+ */
+export const getWithdrawalGuard = (client: IGdaxClient, options: IWithdrawalGuardOptions): IWithdrawalGuard =>
+    new WithdrawalGuard(client, options);
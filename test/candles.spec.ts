@@ -0,0 +1,141 @@
+import { expect } from 'chai';
+import {
+    downloadCandles,
+    getClient,
+    splitCandleRange,
+    ICandle,
+    ICandleTuple,
+    IGdaxClient,
+    IGdaxResponse,
+    IGetHistoricRatesParams,
+    ValidationError,
+} from '../index';
+
+describe('candles', () => {
+    // 2018-01-01T00:00:00Z, a Monday.
+    const origin = 1514764800;
+    const hour   = 3600;
+    const day    = 86400;
+
+    let stored: ICandle[];
+    let requests: IGetHistoricRatesParams[];
+
+    const candle = (time: number, close: number): ICandle =>
+        ({ close, high: close + 1, low: close - 1, open: close - 0.5, time, volume: 1 });
+
+    const hourly = (hours: number[]) => hours.map((index) => candle(origin + index * hour, 100 + index));
+
+    const at = (hours: number) => new Date((origin + hours * hour) * 1000).toISOString();
+
+    /**
+     * Answers like GDAX: newest first, with both ends of the range included.
+     */
+    const client = {
+        getHistoricRates: (productId: string, params: IGetHistoricRatesParams) => {
+            requests.push(params);
+            const start = Date.parse(params.start) / 1000;
+            const end   = Date.parse(params.end) / 1000;
+            const data  = stored.filter(({ time }) => time >= start && time <= end).reverse();
+
+            return Promise.resolve({ data, headers: {} } as IGdaxResponse<ICandle[]>);
+        },
+    } as IGdaxClient;
+
+    beforeEach(() => {
+        stored   = [];
+        requests = [];
+    });
+
+    it('maps the [time, low, high, open, close, volume] tuples of the endpoint onto named fields', async () => {
+        const data: ICandleTuple[] = [[origin + hour, 99, 102, 100, 101, 7.5], [origin, 98, 101, 99, 100, 2]];
+        const answer               = () => Promise.resolve({ data, headers: {} } as IGdaxResponse<ICandleTuple[]>);
+        const gdax                 = getClient(undefined, null, { middleware: [answer], rateLimiter: false });
+
+        const candles = await gdax.getHistoricRates('BTC-USD', { end: at(2), granularity: hour, start: at(0) });
+
+        expect(candles.data).to.deep.equal([
+            { close: 101, high: 102, low: 99, open: 100, time: origin + hour, volume: 7.5 },
+            { close: 100, high: 101, low: 98, open: 99, time: origin, volume: 2 },
+        ]);
+    });
+
+    it('splits a range into aligned chunks of at most 300 buckets', () => {
+        expect(splitCandleRange(origin + 1800, origin + 700 * hour, hour)).to.deep.equal([
+            { end: origin + 300 * hour, start: origin },
+            { end: origin + 600 * hour, start: origin + 300 * hour },
+            { end: origin + 700 * hour, start: origin + 600 * hour },
+        ]);
+    });
+
+    it('downloads chunk by chunk and keeps each bucket once, oldest first', async () => {
+        const progress: number[][] = [];
+        stored                     = hourly(Array.from(Array(720).keys()));
+
+        const series = await downloadCandles(client, 'BTC-USD', {
+            end        : at(700),
+            granularity: hour,
+            onProgress : (fetched, total) => progress.push([fetched, total]),
+            start      : at(0),
+        });
+
+        expect(requests.map(({ end, start }) => [start, end]))
+            .to.deep.equal([[at(0), at(300)], [at(300), at(600)], [at(600), at(700)]]);
+        expect(progress).to.deep.equal([[1, 3], [2, 3], [3, 3]]);
+        expect(series.candles.map(({ time }) => time)).to.deep.equal(hourly(Array.from(Array(700).keys()))
+            .map(({ time }) => time));
+        expect(series.gaps).to.deep.equal([]);
+    });
+
+    it('reports missing buckets and only fills them when asked', async () => {
+        stored        = hourly([0, 1, 2, 5, 6, 7, 9]);
+        const options = { end: at(10), granularity: hour, start: at(-2) };
+        const gaps    = [[-2, 0], [3, 5], [8, 9]].map(([start, end]) =>
+            ({ end: origin + end * hour, start: origin + start * hour }));
+
+        const plain = await downloadCandles(client, 'BTC-USD', options);
+        expect(plain.gaps).to.deep.equal(gaps);
+        expect(plain.candles).to.have.length(7);
+
+        const filled = await downloadCandles(client, 'BTC-USD', { ...options, fill: 'previous' });
+        expect(filled.gaps).to.deep.equal(gaps);
+        expect(filled.candles.map(({ time }) => (time - origin) / hour)).to.deep.equal([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+        expect(filled.candles[3]).to.deep.equal({ close: 102, high: 102, low: 102, open: 102, synthetic: true,
+                                                  time: origin + 3 * hour, volume: 0 });
+        expect(filled.candles.filter(({ synthetic }) => synthetic)).to.have.length(3);
+    });
+
+    it('resamples into larger buckets', async () => {
+        stored = hourly([0, 1, 3]);
+
+        const series = await downloadCandles(client, 'BTC-USD', { end: at(6), fill: 'previous', granularity: 2 * hour,
+                                                                  start: at(0) });
+
+        expect(series.sourceGranularity).to.equal(hour);
+        expect(series.candles).to.deep.equal([
+            { close: 101, high: 102, low: 99, open: 99.5, time: origin, volume: 2 },
+            { close: 103, high: 104, low: 101, open: 101, time: origin + 2 * hour, volume: 1 },
+            { close: 103, high: 103, low: 103, open: 103, synthetic: true, time: origin + 4 * hour, volume: 0 },
+        ]);
+    });
+
+    it('starts weekly buckets on Mondays', async () => {
+        stored = [-2, -1, 0, 1, 6].map((index) => candle(origin + index * day, 100));
+
+        const series = await downloadCandles(client, 'BTC-USD', { end: at(7 * 24), granularity: 7 * day,
+                                                                  start: at(-2 * 24) });
+
+        expect(series.sourceGranularity).to.equal(day);
+        expect(series.candles.map(({ time, volume }) => [time, volume]))
+            .to.deep.equal([[origin - 7 * day, 2], [origin, 3]]);
+    });
+
+    it('rejects granularities that are not a positive multiple of a supported one', async () => {
+        for (const granularity of [0, -3600, 1800.5, NaN, 100]) {
+            const err = await downloadCandles(client, 'BTC-USD', { end: at(1), granularity, start: at(0) })
+                .then(() => null, (e: Error) => e);
+
+            expect(err).to.be.instanceof(ValidationError);
+        }
+        expect(requests).to.have.length(0);
+    });
+});
@@ -0,0 +1,113 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    getCassette,
+    getClient,
+    getMockExchange,
+    loadCassette,
+    CassetteMatching,
+    CassetteMismatchError,
+    IApiAuth,
+    ICassette,
+    ICassetteInteraction,
+    IMockExchange,
+} from '../index';
+
+describe('cassette', () => {
+    let exchange: IMockExchange;
+    let baseURL: string;
+    let auth: IApiAuth;
+
+    beforeEach(async () => {
+        exchange = getMockExchange();
+        baseURL  = await exchange.start();
+        auth     = exchange.createUser({ BTC: 1, USD: 1000 });
+    });
+
+    afterEach(() => exchange.stop());
+
+    const clientWith = (cassette: ICassette) => getClient(auth, { baseURL }, { cassette, rateLimiter: false });
+
+    const failure = (promise: Promise<{}>) => promise.then(() => null, (e: Error) => e);
+
+    /**
+     * Records the products, then the accounts, and stops the exchange so that nothing more can reach it.
+     */
+    const record = async (): Promise<ICassetteInteraction[]> => {
+        const cassette = getCassette({ mode: 'record' });
+        const client   = clientWith(cassette);
+
+        await client.getProducts();
+        await client.listAccounts();
+        await exchange.stop();
+
+        return cassette.getInteractions();
+    };
+
+    const replaying = async (matching: CassetteMatching) => {
+        const cassette = getCassette({ interactions: await record(), matching, mode: 'replay' });
+
+        return { cassette, client: clientWith(cassette) };
+    };
+
+    it('records requests and responses with the credentials redacted', async () => {
+        const [products, accounts] = await record();
+
+        expect([products, accounts].map(({ request }) => `${request.method} ${request.path}`))
+            .to.deep.equal(['GET /products', 'GET /accounts']);
+        expect(accounts.response.status).to.equal(200);
+        expect(JSON.parse(accounts.response.body)).to.have.length.greaterThan(0);
+        for (const name of ['CB-ACCESS-KEY', 'CB-ACCESS-SIGN', 'CB-ACCESS-PASSPHRASE']) {
+            expect(accounts.request.headers[name]).to.equal('[REDACTED]');
+        }
+        expect(JSON.stringify(accounts)).not.to.contain(auth.passphrase);
+    });
+
+    it('replays the recorded responses in order without the network', async () => {
+        const { cassette, client } = await replaying('strict');
+
+        expect((await client.getProducts()).data.map(({ id }) => id)).to.include('BTC-USD');
+        expect((await client.listAccounts()).data.map(({ currency }) => currency)).to.include.members(['BTC', 'USD']);
+        expect(cassette.getReport()).to.deep.equal({ unmatched: [], unused: [] });
+    });
+
+    it('refuses requests out of the recorded order when strict, and reports them', async () => {
+        const { cassette, client } = await replaying('strict');
+
+        const err = await failure(client.listAccounts());
+
+        expect(err).to.be.instanceof(CassetteMismatchError);
+        expect(err.message).to.match(/expected GET \/products\? but got GET \/accounts\?/);
+        expect(cassette.getReport().unmatched.map(({ path: requested }) => requested)).to.deep.equal(['/accounts']);
+        expect(cassette.getReport().unused).to.have.length(2);
+    });
+
+    it('replays in any order and repeats the last answer when lenient', async () => {
+        const { cassette, client } = await replaying('lenient');
+
+        await client.listAccounts();
+        await client.listAccounts();
+
+        expect(cassette.getReport().unused.map(({ request }) => request.path)).to.deep.equal(['/products']);
+        expect(await failure(client.getProductTicker('BTC-USD'))).to.be.instanceof(CassetteMismatchError);
+        expect(cassette.getReport().unmatched.map(({ path: requested }) => requested))
+            .to.deep.equal(['/products/BTC-USD/ticker']);
+    });
+
+    it('saves a cassette file and loads it for replay', async () => {
+        const file     = path.join(os.tmpdir(), `cassette-${process.pid}.json`);
+        const recorder = getCassette({ interactions: await record(), mode: 'record' });
+
+        try {
+            await recorder.save(file);
+            const cassette = await loadCassette(file, 'lenient');
+
+            expect(cassette.mode).to.equal('replay');
+            expect((await clientWith(cassette).listAccounts()).status).to.equal(200);
+        } finally {
+            fs.unlinkSync(file);
+        }
+    });
+});
@@ -0,0 +1,65 @@
+import { expect } from 'chai';
+import { PassThrough } from 'stream';
+import { getMockExchange, IMockExchange } from '../index';
+import { runCli, ICliIo } from '../src/cli';
+
+describe('command line', () => {
+    const place = ['orders', 'place', '--product', 'BTC-USD', '--side', 'buy', '--type', 'market', '--size', '0.1'];
+
+    let exchange: IMockExchange;
+    let env: { [name: string]: string };
+
+    beforeEach(async () => {
+        exchange  = getMockExchange();
+        const url = await exchange.start();
+        const key = exchange.createUser({ USD: 20000 });
+
+        env = {
+            GDAX_API_KEY       : key.publicKey,
+            GDAX_API_PASSPHRASE: key.passphrase,
+            GDAX_API_SECRET    : key.privateKey,
+            GDAX_API_URL       : url,
+        };
+        exchange.addLiquidity('BTC-USD', 'sell', 10000, 1);
+    });
+
+    afterEach(() => exchange.stop());
+
+    const run = async (argv: string[], answer?: string): Promise<{ code: number; output: string }> => {
+        const input  = new PassThrough();
+        const output = new PassThrough();
+        const io     = { env, errors: new PassThrough(), input, output } as ICliIo;
+
+        if (answer === undefined) input.end(); else input.write(answer);
+
+        const code = await runCli(argv, io);
+        output.end();
+
+        return { code, output: `${output.read() || ''}` };
+    };
+
+    const orders = () => exchange.getRequests().filter((request) => request.method === 'POST');
+
+    it('places an order once confirmed', async () => {
+        const { code, output } = await run(place, 'y\n');
+
+        expect(code).to.equal(0);
+        expect(output).to.match(/done/);
+        expect(orders()).to.have.length(1);
+    });
+
+    it('aborts when the confirmation is declined', async () => {
+        expect((await run(place, 'n\n')).code).to.equal(1);
+        expect(orders()).to.have.length(0);
+    });
+
+    it('aborts when the input ends without an answer', async () => {
+        expect((await run(place)).code).to.equal(1);
+        expect(orders()).to.have.length(0);
+    });
+
+    it('refuses a granularity that is not a positive number of seconds', async () => {
+        expect((await run(['candles', 'BTC-USD', '--granularity', '0'])).code).to.equal(2);
+        expect(exchange.getRequests().filter(({ path }) => /candles/.test(path))).to.have.length(0);
+    });
+});
@@ -0,0 +1,41 @@
+import { expect } from 'chai';
+import { getClient, getMockExchange, getServerClock, IGdaxResponse, IServerTime, ValidationError } from '../index';
+
+describe('server clock', () => {
+    const pause = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+    const serverTime = (skew: number) => async (): Promise<IGdaxResponse<IServerTime>> => {
+        const now = Date.now() + skew;
+
+        return { data: { epoch: now / 1000, iso: new Date(now).toISOString() } } as IGdaxResponse<IServerTime>;
+    };
+
+    it('takes at least one sample', () => {
+        expect(() => getServerClock(serverTime(0), { samples: 0 })).to.throw(ValidationError);
+    });
+
+    it('does not count the wait for a turn as round trip', async () => {
+        const clock = getServerClock(serverTime(5000), { samples: 2 }, () => pause(50));
+
+        const skew = await clock.sync();
+
+        expect(skew.roundTrip).to.be.below(25);
+        expect(Math.abs(skew.offset - 5000)).to.be.below(25);
+    });
+
+    it('calibrates a client against the exchange through its rate limiter', async () => {
+        const exchange = getMockExchange();
+        const baseURL  = await exchange.start();
+
+        try {
+            const client = getClient(exchange.createUser({ USD: 100 }), { baseURL });
+            const clock  = await client.calibrateClock({ samples: 3 });
+            clock.stop();
+
+            expect(Math.abs(clock.getOffset())).to.be.below(1000);
+            expect(exchange.getRequests().filter((request) => request.path.startsWith('/time'))).to.have.length(3);
+        } finally {
+            await exchange.stop();
+        }
+    });
+});
@@ -0,0 +1,140 @@
+import { expect } from 'chai';
+import {
+    getClient,
+    getConditionalOrders,
+    getMemoryConditionStore,
+    getMockExchange,
+    IConditionalOrder,
+    IConditionalOrders,
+    IConditionStore,
+    IGdaxClient,
+    IMockExchange,
+    INewOrderParams,
+} from '../index';
+
+/**
+ * A store that fails while `state.failing` is set.
+ */
+const getFlakyStore = (state: { failing: boolean }): IConditionStore => {
+    const store = getMemoryConditionStore();
+
+    return {
+        load: () => state.failing ? Promise.reject(new Error('load failed')) : store.load(),
+        save: (conditions) => state.failing ? Promise.reject(new Error('save failed')) : store.save(conditions),
+    };
+};
+
+describe('conditional orders', () => {
+    const exit: INewOrderParams = { product_id: 'BTC-USD', side: 'sell', size: '0.1', type: 'market' };
+
+    let exchange: IMockExchange;
+    let client: IGdaxClient;
+    let conditions: IConditionalOrders;
+
+    beforeEach(async () => {
+        exchange      = getMockExchange();
+        const baseURL = await exchange.start();
+        client        = getClient(exchange.createUser({ BTC: 10 }), { baseURL }, { rateLimiter: false });
+        exchange.addLiquidity('BTC-USD', 'buy', 9000, 10);
+    });
+
+    afterEach(() => {
+        conditions.stop();
+
+        return exchange.stop();
+    });
+
+    const statuses = () => conditions.list().map(({ kind, status }) => `${kind}:${status}`);
+
+    it('places the side of an OCO pair that hits and cancels the other', async () => {
+        conditions = getConditionalOrders(client, { pollInterval: 60000 });
+        await conditions.start();
+        await conditions.addOco({ kind: 'stopLoss', order: exit, triggerPrice: '9500' },
+                                { kind: 'takeProfit', order: exit, triggerPrice: '11000' });
+
+        await conditions.observePrice('BTC-USD', '10000');
+        expect(statuses()).to.deep.equal(['stopLoss:pending', 'takeProfit:pending']);
+
+        await conditions.observePrice('BTC-USD', '9400');
+        expect(statuses()).to.deep.equal(['stopLoss:triggered', 'takeProfit:cancelled']);
+        expect((await client.listAccounts()).data.find(({ currency }) => currency === 'BTC').balance)
+            .to.match(/^9\.9/);
+    });
+
+    it('lets the other side of an OCO pair take over when a placement fails', async () => {
+        conditions = getConditionalOrders(client, { pollInterval: 60000 });
+        await conditions.start();
+        await conditions.addOco({ kind: 'stopLoss', order: { ...exit, size: '100' }, triggerPrice: '8000' },
+                                { kind: 'takeProfit', order: exit, triggerPrice: '12000' });
+
+        await conditions.observePrice('BTC-USD', '7900');
+        expect(statuses()).to.deep.equal(['stopLoss:failed', 'takeProfit:pending']);
+
+        await conditions.observePrice('BTC-USD', '12100');
+        expect(statuses()).to.deep.equal(['stopLoss:failed', 'takeProfit:triggered']);
+    });
+
+    it('moves a trailing stop up with the price', async () => {
+        conditions = getConditionalOrders(client, { pollInterval: 60000 });
+        await conditions.start();
+        const { id } = await conditions.add({ distance: '500', kind: 'trailingStop', order: exit });
+
+        for (const price of ['10000', '10400', '10200']) await conditions.observePrice('BTC-USD', price);
+        expect(conditions.get(id).triggerPrice).to.equal('9900');
+
+        await conditions.observePrice('BTC-USD', '9900');
+        expect(conditions.get(id).status).to.equal('triggered');
+    });
+
+    it('picks up conditions that were triggering when the last run stopped', async () => {
+        const store                   = getMemoryConditionStore();
+        const placed                  = { ...exit, client_oid: '6a0ab0d4-8b4e-4ab4-9d44-1d2b8a9f6c01' };
+        const order                   = (await client.placeNewOrder(placed)).data;
+        const base: IConditionalOrder = { createdAt: '', id: 'placed', kind: 'stopLoss', order: placed,
+                                          productId: 'BTC-USD', status: 'triggering', triggerPrice: '9500' };
+        await store.save([base, { ...base, id: 'lost',
+                                  order: { ...exit, client_oid: '6a0ab0d4-8b4e-4ab4-9d44-1d2b8a9f6c02' } }]);
+
+        conditions = getConditionalOrders(client, { pollInterval: 60000, store });
+        await conditions.start();
+
+        expect(conditions.get('placed')).to.include({ orderId: order.id, status: 'triggered' });
+        expect(conditions.get('lost').status).to.equal('pending');
+    });
+
+    it('can be started again after the store failed to load', async () => {
+        const state = { failing: false };
+        const store = getFlakyStore(state);
+        await store.save([{ createdAt: '', id: 'stored', kind: 'stopLoss', order: exit, productId: 'BTC-USD',
+                            status: 'pending', triggerPrice: '9500' }]);
+
+        conditions    = getConditionalOrders(client, { pollInterval: 60000, store });
+        state.failing = true;
+        const err     = await conditions.start().then(() => null, (e: Error) => e);
+        expect(err.message).to.equal('load failed');
+
+        state.failing = false;
+        await conditions.start();
+
+        expect(statuses()).to.deep.equal(['stopLoss:pending']);
+    });
+
+    it('rejects adds and cancellations that could not be saved', async () => {
+        const state = { failing: false };
+        conditions  = getConditionalOrders(client, { pollInterval: 60000, store: getFlakyStore(state) });
+        await conditions.start();
+        const { id } = await conditions.add({ kind: 'stopLoss', order: exit, triggerPrice: '9500' });
+
+        state.failing = true;
+        const added   = await conditions.add({ kind: 'takeProfit', order: exit, triggerPrice: '11000' })
+                                        .then(() => null, (e: Error) => e);
+        const paired  = await conditions.addOco({ kind: 'stopLoss', order: exit, triggerPrice: '9000' },
+                                                { kind: 'takeProfit', order: exit, triggerPrice: '12000' })
+                                        .then(() => null, (e: Error) => e);
+        const removed = await conditions.cancel(id).then(() => null, (e: Error) => e);
+
+        expect([added, paired, removed].map((err) => err && err.message)).to.deep.equal(['save failed', 'save failed',
+                                                                                           'save failed']);
+        expect(statuses()).to.deep.equal(['stopLoss:cancelled']);
+    });
+});
@@ -0,0 +1,39 @@
+import { expect } from 'chai';
+import { isMultipleOf, roundToIncrement, serializeDecimals, toDecimal, Decimal, RoundingDirection } from '../index';
+
+describe('decimals', () => {
+    const directions: RoundingDirection[] = ['down', 'nearest', 'up'];
+
+    it('does exact arithmetic on decimal strings', () => {
+        expect(toDecimal('0.1').plus('0.2').toFixed()).to.equal('0.3');
+        expect(toDecimal(toDecimal('12.50')).toFixed()).to.equal('12.5');
+        expect(() => toDecimal('1,5')).to.throw(/DecimalError/);
+    });
+
+    it('rounds to an increment in the requested direction', () => {
+        const rounded = (value: string, increment: string, direction?: RoundingDirection) =>
+            roundToIncrement(value, increment, direction).toFixed();
+
+        expect(directions.map((direction) => [
+            rounded('1.231', '0.01', direction), rounded('-1.231', '0.01', direction),
+        ])).to.deep.equal([['1.23', '-1.24'], ['1.23', '-1.23'], ['1.24', '-1.23']]);
+        expect(rounded('1.125', '0.25')).to.equal('1.25');
+        expect(rounded('-0.125', '0.01')).to.equal('-0.13');
+    });
+
+    it('leaves values already on an increment boundary alone', () => {
+        for (const direction of directions) {
+            expect(roundToIncrement('1.23', '0.01', direction).toFixed()).to.equal('1.23');
+            expect(roundToIncrement('0.75', '0.25', direction).toFixed()).to.equal('0.75');
+        }
+        expect([isMultipleOf('0.75', '0.25'), isMultipleOf('0.7', '0.25')]).to.deep.equal([true, false]);
+    });
+
+    it('serializes Decimals as exact strings without exponents and leaves other values alone', () => {
+        const body = { funds: new Decimal('1e21'), post_only: true, size: new Decimal('1e-8'), type: 'limit' };
+
+        expect(serializeDecimals(body)).to.deep.equal({ funds: '1000000000000000000000', post_only: true,
+                                                        size: '0.00000001', type: 'limit' });
+        expect(Decimal.isDecimal(body.size)).to.equal(true);
+    });
+});
@@ -0,0 +1,128 @@
+import { expect } from 'chai';
+import {
+    getClient,
+    getExecution,
+    getMockExchange,
+    getOrderManager,
+    IGdaxClient,
+    IMockExchange,
+    INewOrderParams,
+    IOrderManager,
+    IPlaceOrderOptions,
+} from '../index';
+
+describe('execution', () => {
+    const iceberg = { displaySize: '0.2', strategy: 'iceberg' as 'iceberg' };
+    const parent  = { limitPrice: '9000', product_id: 'BTC-USD', side: 'buy' as 'buy', size: '0.5' };
+
+    let exchange: IMockExchange;
+    let client: IGdaxClient;
+    let manager: IOrderManager;
+
+    const pause = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+    beforeEach(async () => {
+        exchange      = getMockExchange();
+        const baseURL = await exchange.start();
+        client        = getClient(exchange.createUser({ USD: 100000 }), { baseURL }, { rateLimiter: false });
+    });
+
+    afterEach(() => {
+        manager.stop();
+
+        return exchange.stop();
+    });
+
+    /**
+     * Follows children with a manager whose placements are acknowledged only after `delay` ms.
+     */
+    const follow = (delay: number = 0) => {
+        const slow = {
+            ...client,
+            placeNewOrder: async (params: INewOrderParams, options?: IPlaceOrderOptions) => {
+                await pause(delay);
+
+                return client.placeNewOrder(params, options);
+            },
+        };
+        manager = getOrderManager(slow, { pollInterval: 50, productIds: ['BTC-USD'] });
+
+        return manager.start();
+    };
+
+    const openOrders = async () => (await client.listOrders({ status: ['open'] })).data;
+
+    it('works a TWAP as market children until the size is filled', async () => {
+        await follow();
+        exchange.addLiquidity('BTC-USD', 'sell', 10000, 5);
+
+        const execution = getExecution(client, { product_id: 'BTC-USD', side: 'buy', size: '0.3' },
+                                       { duration: 150, slices: 3, strategy: 'twap' }, { manager });
+        await execution.start();
+
+        const progress = await execution.finished();
+
+        expect(progress.status).to.equal('completed');
+        expect(progress.childOrders).to.equal(3);
+        expect(progress.filledSize.toNumber()).to.equal(0.3);
+    });
+
+    it('shows the next iceberg child once the last one is done', async () => {
+        await follow();
+
+        const execution = getExecution(client, parent, iceberg, { manager });
+        await execution.start();
+
+        expect((await openOrders()).map((order) => parseFloat(order.size))).to.deep.equal([0.2]);
+
+        exchange.placeHouseOrder({ product_id: 'BTC-USD', side: 'sell', size: 0.2, type: 'market' });
+        await pause(200);
+
+        expect(execution.getProgress().filledSize.toNumber()).to.equal(0.2);
+        expect(execution.getProgress().childOrders).to.equal(2);
+        await execution.cancel();
+    });
+
+    it('cancels a child whose placement was in flight when the execution was cancelled', async () => {
+        await follow(100);
+
+        const execution = getExecution(client, parent, iceberg, { manager });
+        const started   = execution.start();
+        await pause(50);
+
+        const progress = await execution.cancel();
+        await started;
+
+        expect(progress.status).to.equal('cancelled');
+        expect(progress.childOrders).to.equal(1);
+        expect(await openOrders()).to.have.length(0);
+    });
+
+    it('cancels a child whose placement was in flight when the execution was paused', async () => {
+        await follow(100);
+
+        const execution = getExecution(client, parent, iceberg, { manager });
+        const started   = execution.start();
+        await pause(50);
+
+        await execution.pause();
+        await started;
+
+        expect(execution.getProgress().status).to.equal('paused');
+        expect(await openOrders()).to.have.length(0);
+        await execution.cancel();
+    });
+
+    it('fails when a child is rejected for insufficient funds', async () => {
+        await follow();
+
+        const execution = getExecution(client, { ...parent, size: '100' }, { ...iceberg, displaySize: '50' },
+                                       { manager });
+        await execution.start();
+
+        const err = await execution.finished().then(() => null, (e: Error) => e);
+
+        expect(err).to.be.instanceof(Error);
+        expect(execution.getProgress().status).to.equal('failed');
+    });
+});
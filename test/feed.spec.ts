@@ -0,0 +1,121 @@
+import { expect } from 'chai';
+import * as http from 'http';
+import * as WebSocket from 'ws';
+import { getFeedClient, FeedError, IFeedClient, IFeedSubscriptionRequest, ITickerMessage } from '../index';
+
+/**
+ * Resolves with the next event of an emitter.
+ */
+const next = <T>(emitter: { once(event: string, listener: (...args: Array<{}>) => void): {} }, event: string):
+    Promise<T> => new Promise<T>((resolve) => emitter.once(event, resolve));
+
+const pause = (ms: number): Promise<void> => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const ticker = { best_ask: '101', best_bid: '99', price: '100', product_id: 'BTC-USD', sequence: 1, type: 'ticker' };
+
+describe('feed client', () => {
+    let httpServer: http.Server;
+    let server: WebSocket.Server;
+    let url: string;
+    let feed: IFeedClient;
+    let requests: IFeedSubscriptionRequest[];
+
+    beforeEach(async () => {
+        requests   = [];
+        httpServer = http.createServer();
+        server     = new WebSocket.Server({ server: httpServer });
+        server.on('connection', (socket: WebSocket) =>
+            socket.on('message', (data: WebSocket.Data) => requests.push(JSON.parse(data.toString()))));
+
+        await new Promise((resolve) => httpServer.listen(0, '127.0.0.1', resolve));
+        url  = `ws://127.0.0.1:${httpServer.address().port}`;
+        feed = getFeedClient(null, { reconnectDelay: 10, url });
+    });
+
+    afterEach(() => {
+        feed.disconnect();
+
+        server.close();
+
+        return new Promise((resolve) => httpServer.close(resolve));
+    });
+
+    const send = (message: {}): void => server.clients.forEach((socket) => socket.send(JSON.stringify(message)));
+
+    it('sends recorded subscriptions on connect and emits typed messages', async () => {
+        feed.subscribe(['ticker'], ['BTC-USD']);
+        await feed.connect();
+        await pause(50);
+
+        expect(requests).to.deep.equal([{ channels: [{ name: 'ticker', product_ids: ['BTC-USD'] }],
+                                          type    : 'subscribe' }]);
+
+        const received = next<ITickerMessage>(feed, 'ticker');
+        send(ticker);
+        expect((await received).price).to.equal('100');
+    });
+
+    it('emits feed error messages as FeedErrors', async () => {
+        const errors: Error[] = [];
+        feed.on('error', (err) => errors.push(err));
+        await feed.connect();
+
+        const received = next(feed, 'ticker');
+        send({ message: 'Failed to subscribe', reason: 'user channel requires authentication', type: 'error' });
+        send(ticker);
+        await received;
+
+        expect(errors).to.have.length(1);
+        expect(errors[0]).to.be.instanceof(FeedError);
+        expect((errors[0] as FeedError).apiMessage).to.equal('Failed to subscribe');
+        expect((errors[0] as FeedError).reason).to.equal('user channel requires authentication');
+    });
+
+    it('keeps running when a feed error arrives with no error listener', async () => {
+        await feed.connect();
+
+        const received = next(feed, 'ticker');
+        send({ message: 'Failed to subscribe', type: 'error' });
+        send(ticker);
+        await received;
+
+        expect(feed.isConnected()).to.equal(true);
+    });
+
+    it('reports messages that are not objects and carries on', async () => {
+        const errors: Error[] = [];
+        feed.on('error', (err) => errors.push(err));
+        await feed.connect();
+
+        const received = next(feed, 'ticker');
+        [null, 42, 'ticker'].forEach(send);
+        send(ticker);
+        await received;
+
+        expect(errors.map(({ message }) => message)).to.deep.equal(['feed message is not an object: null',
+                                                                    'feed message is not an object: 42',
+                                                                    'feed message is not an object: "ticker"']);
+        expect(errors.every((err) => err instanceof FeedError)).to.equal(true);
+    });
+
+    it('keeps a single socket when connect() is called again', async () => {
+        await Promise.all([feed.connect(), feed.connect()]);
+        await feed.connect();
+
+        expect(server.clients.size).to.equal(1);
+    });
+
+    it('reconnects and replays its subscriptions when the connection drops', async () => {
+        feed.subscribe(['ticker'], ['BTC-USD']);
+        await feed.connect();
+        await pause(50);
+
+        const reconnected = next(feed, 'connected');
+        server.clients.forEach((socket) => socket.terminate());
+        await reconnected;
+        await pause(50);
+
+        expect(requests).to.have.length(2);
+        expect(requests[1].channels).to.deep.equal([{ name: 'ticker', product_ids: ['BTC-USD'] }]);
+    });
+});
@@ -0,0 +1,128 @@
+import { expect } from 'chai';
+import * as net from 'net';
+import {
+    decodeFixMessage,
+    encodeFixMessage,
+    getFixSession,
+    splitFixMessages,
+    FixSessionError,
+    IFixField,
+    IFixMessage,
+    IFixSession,
+    TimeoutError,
+} from '../index';
+
+/**
+ * A stand-in for the FIX acceptor: answers Logon and New Order Single messages unless told to stay silent.
+ */
+type IAcceptor = {
+    received: string[];
+    state: { silent: boolean };
+    listen(): Promise<number>;
+    close(): void;
+    open(): number;
+};
+
+const getAcceptor = (): IAcceptor => {
+    const received: string[]    = [];
+    const sockets: net.Socket[] = [];
+    const state                 = { silent: false };
+
+    const server = net.createServer((socket) => {
+        let buffer = '';
+        let seqNum = 1;
+
+        const send = (msgType: string, fields: IFixField[]) => {
+            const header: IFixField[] = [[35, msgType], [49, 'Coinbase'], [56, 'KEY'], [34, `${seqNum++}`],
+                                         [52, '20170101-00:00:00.000']];
+            socket.write(encodeFixMessage(header.concat(fields)), 'latin1');
+        };
+        const answer = (message: IFixMessage) => {
+            if (message[35] === 'A') send('A', [[98, '0'], [108, message[108]]]);
+            if (message[35] === 'D') {
+                send('8', [[11, message[11]], [37, 'order-1'], [150, '0'], [39, '0'], [55, message[55]],
+                           [54, message[54]], [38, message[38]], [44, message[44]], [40, message[40]]]);
+            }
+        };
+
+        sockets.push(socket);
+        socket.setEncoding('latin1');
+        socket.on('data', (data: string) => {
+            const { messages, rest } = splitFixMessages(buffer + data);
+            buffer                   = rest;
+
+            for (const message of messages.map(decodeFixMessage)) {
+                received.push(message[35]);
+                if (!state.silent) answer(message);
+            }
+        });
+    });
+
+    return {
+        listen: () => new Promise<number>((resolve) => {
+            server.listen(0, '127.0.0.1', () => resolve(server.address().port));
+        }),
+        close : () => {
+            sockets.forEach((socket) => socket.destroy());
+            server.close();
+        },
+        open  : () => sockets.filter((socket) => !socket.destroyed).length,
+        received,
+        state,
+    };
+};
+
+describe('FIX session', () => {
+    const auth = { passphrase: 'pass', privateKey: Buffer.from('secret').toString('base64'), publicKey: 'KEY' };
+
+    let acceptor: IAcceptor;
+    let session: IFixSession;
+    let port: number;
+
+    const pause = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+    beforeEach(async () => {
+        acceptor = getAcceptor();
+        port     = await acceptor.listen();
+        session  = getFixSession(auth, { host: '127.0.0.1', port, responseTimeout: 100, tls: false });
+    });
+
+    afterEach(async () => {
+        await session.logout();
+        acceptor.close();
+    });
+
+    it('logs on and places an order', async () => {
+        await session.logon();
+
+        const order = await session.placeOrder({ price: '100', product_id: 'BTC-USD', side: 'buy', size: '1' });
+
+        expect(session.isLoggedOn()).to.equal(true);
+        expect(order.id).to.equal('order-1');
+        expect(acceptor.received).to.deep.equal(['A', 'D']);
+    });
+
+    it('drops the connection when the Logon goes unanswered, and can log on again', async () => {
+        acceptor.state.silent = true;
+
+        const err = await session.logon().then(() => null, (e: Error) => e);
+        await pause(20);
+
+        expect(err).to.be.instanceof(TimeoutError);
+        expect(acceptor.open()).to.equal(0);
+
+        acceptor.state.silent = false;
+        await session.logon();
+
+        expect(session.isLoggedOn()).to.equal(true);
+    });
+
+    it('rejects the Logon with the connection error as its cause', async () => {
+        acceptor.close();
+
+        const err = await session.logon().then(() => null, (e: FixSessionError) => e);
+
+        expect(err).to.be.instanceof(FixSessionError);
+        expect((err.cause as NodeJS.ErrnoException).code).to.equal('ECONNREFUSED');
+    });
+});
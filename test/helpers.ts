@@ -0,0 +1,14 @@
+import { EventEmitter } from 'events';
+import { IFeedChannel, IFeedClient } from '../index';
+
+/**
+ * A feed that never connects; messages are pushed with #emit('message', ...).
+ */
+export const getFakeFeed = (): IFeedClient & EventEmitter => Object.assign(new EventEmitter(), {
+    connect         : () => Promise.resolve(),
+    disconnect      : () => undefined,
+    getSubscriptions: (): IFeedChannel[] => [],
+    isConnected     : () => true,
+    subscribe       : () => undefined,
+    unsubscribe     : () => undefined,
+}) as IFeedClient & EventEmitter;
@@ -0,0 +1,113 @@
+import { expect } from 'chai';
+import {
+    getClient,
+    getMarginMonitor,
+    getMockExchange,
+    IFunding,
+    IGdaxClient,
+    IGdaxResponse,
+    IMarginTransfer,
+    IMockExchange,
+    IPosition,
+    ITransferMarginFundsParams,
+    ValidationError,
+} from '../index';
+
+const respond = <T>(data: T) => Promise.resolve({ data, headers: {} } as IGdaxResponse<T>);
+
+describe('margin monitor', () => {
+    const funding = { amount: '2500', created_at: '2018-01-01T00:00:00Z', currency: 'USD', id: 'f1', order_id: 'o1',
+                      profile_id: 'margin', repaid_amount: '0', status: 'outstanding' } as IFunding;
+
+    let exchange: IMockExchange;
+    let client: IGdaxClient;
+    let price: string;
+    let position: IPosition;
+    let transfers: ITransferMarginFundsParams[];
+
+    /**
+     * A margin profile holding 1 BTC and 600 USD, 2500 USD of which is funded.  The mock exchange does not simulate
+     * margin, so the margin endpoints are stubbed.
+     */
+    beforeEach(async () => {
+        exchange      = getMockExchange();
+        const baseURL = await exchange.start();
+        const real    = getClient(exchange.createUser({ USD: 10000 }), { baseURL }, { rateLimiter: false });
+        const account = { default_amount: '0', funded_amount: '0', hold: '0', id: '' };
+
+        price     = '5000';
+        transfers = [];
+        position  = {
+            accounts   : { BTC: { ...account, balance: '1' }, USD: { ...account, balance: '600' } },
+            funding    : { funding_value: '2500', max_funding_value: '10000' },
+            margin_call: { active: false },
+            position   : { complement: '0', max_size: '0', size: '0', type: 'long' },
+            product_id : 'BTC-USD',
+            profile_id : 'margin',
+            status     : 'active',
+            user_id    : 'user',
+        };
+        client    = {
+            ...real,
+            getPosition        : () => respond(position),
+            getProductTicker   : () => real.getProductTicker('BTC-USD').then(({ data }) => respond({ ...data, price })),
+            listFunding        : () => respond([funding]),
+            transferMarginFunds: (params: ITransferMarginFundsParams) => {
+                transfers.push(params);
+                position.accounts.USD.balance = `${parseFloat(position.accounts.USD.balance) + Number(params.amount)}`;
+
+                return respond({ amount: `${params.amount}`, currency: params.currency } as IMarginTransfer);
+            },
+        } as IGdaxClient;
+    });
+
+    afterEach(() => exchange.stop());
+
+    const autoTransfer = { below: 0.35, currency: 'USD', maxAmount: '5000', target: 0.4 };
+
+    it('values the profile and warns at each threshold', async () => {
+        const warnings: number[] = [];
+        const monitor            = getMarginMonitor(client, { thresholds: [0.5, 0.4] });
+        monitor.on('warning', ({ threshold }) => warnings.push(threshold));
+
+        const status = await monitor.start();
+        monitor.stop();
+        expect([status.assets, status.funding, status.equity].map((value) => value.toFixed()))
+            .to.deep.equal(['5600', '2500', '3100']);
+        expect(warnings).to.deep.equal([]);
+
+        price = '3200';
+        expect((await monitor.check()).marginRatio.toFixed(4)).to.equal('0.3421');
+        expect(warnings).to.deep.equal([0.5, 0.4]);
+    });
+
+    it('moves collateral in to bring the ratio back to the target', async () => {
+        price = '3200';
+
+        const status = await getMarginMonitor(client, { autoTransfer }).check();
+
+        expect(transfers.map(({ amount, currency, type }) => [`${amount}`, currency, type]))
+            .to.deep.equal([['366.66666667', 'USD', 'deposit']]);
+        expect(status.marginRatio.toFixed(4)).to.equal('0.4000');
+    });
+
+    it('refuses to move collateral that is not one of the product\'s currencies', async () => {
+        const errors: Error[] = [];
+        const monitor         = getMarginMonitor(client, { autoTransfer: { ...autoTransfer, currency: 'ETH' } });
+        monitor.on('error', (err) => errors.push(err));
+        price = '3200';
+
+        await monitor.check();
+
+        expect(errors).to.have.length(1);
+        expect(errors[0]).to.be.instanceof(ValidationError);
+        expect(transfers).to.have.length(0);
+    });
+
+    it('checks the transfer target', () => {
+        for (const target of [{ target: 1 }, { target: 0 }, { below: 0.5, target: 0.4 }]) {
+            expect(() => getMarginMonitor(client, { autoTransfer: { ...autoTransfer, ...target } }))
+                .to.throw(ValidationError);
+        }
+    });
+});
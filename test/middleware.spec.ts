@@ -0,0 +1,64 @@
+import { expect } from 'chai';
+import {
+    getClient,
+    getMockExchange,
+    logRequests,
+    transformResponses,
+    IAccount,
+    IApiAuth,
+    IGdaxResponse,
+    IMockExchange,
+    IRequestLogEntry,
+} from '../index';
+
+describe('middleware', () => {
+    let exchange: IMockExchange;
+    let baseURL: string;
+    let auth: IApiAuth;
+
+    beforeEach(async () => {
+        exchange = getMockExchange();
+        baseURL  = await exchange.start();
+        auth     = exchange.createUser({ BTC: 10, USD: 20000 });
+    });
+
+    afterEach(() => exchange.stop());
+
+    it('logs requests with the named body fields redacted', async () => {
+        const entries: IRequestLogEntry[] = [];
+        const client                      = getClient(auth, { baseURL }, {
+            middleware : [logRequests((entry) => entries.push(entry), { redact: ['client_oid'] })],
+            rateLimiter: false,
+        });
+        exchange.addLiquidity('BTC-USD', 'sell', 10000, 1);
+
+        await client.placeNewOrder({ client_oid: 'secret', product_id: 'BTC-USD', side: 'buy', size: '0.1',
+                                     type      : 'market' });
+
+        const [request, response] = entries;
+        expect(request.event).to.equal('request');
+        expect(request.body).to.deep.equal({ client_oid: '[REDACTED]', product_id: 'BTC-USD', side: 'buy', size: '0.1',
+                                             type      : 'market' });
+        expect(response.status).to.equal(200);
+    });
+
+    it('logs a body that is not JSON as it is', async () => {
+        const entries: IRequestLogEntry[] = [];
+        const middleware                  = logRequests((entry) => entries.push(entry));
+        const request                     = { authenticated: false, config: { data: 'a=1&b=2', url: '/x' },
+                                              endpoint     : 'x', method: 'POST' };
+
+        await middleware(request, () => Promise.resolve({ status: 200 } as IGdaxResponse<{}>));
+
+        expect(entries.map(({ body, event }) => [event, body])).to.deep.equal([['request', 'a=1&b=2'],
+                                                                               ['response', undefined]]);
+    });
+
+    it('transforms response data', async () => {
+        const currencies = transformResponses((data: IAccount[] | {}) =>
+            Array.isArray(data) ? data.map(({ currency }) => currency) : data);
+        const client     = getClient(auth, { baseURL }, { middleware: [currencies], rateLimiter: false });
+
+        expect((await client.listAccounts()).data).to.include.members(['BTC', 'USD']);
+    });
+});
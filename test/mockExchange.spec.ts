@@ -0,0 +1,225 @@
+import * as axiosDefault from 'axios';
+import { expect } from 'chai';
+import {
+    getClient,
+    getMockExchange,
+    hmacDigest,
+    IGdaxClient,
+    IMockExchange,
+    InsufficientFundsError,
+    NotFoundError,
+    SelfTradePrevention,
+} from '../index';
+
+const axios = axiosDefault.default;
+
+describe('mock exchange', () => {
+    let exchange: IMockExchange;
+    let client: IGdaxClient;
+
+    beforeEach(async () => {
+        exchange      = getMockExchange();
+        const baseURL = await exchange.start();
+        client        = getClient(exchange.createUser({ BTC: 10, USD: 100000 }), { baseURL }, { rateLimiter: false });
+    });
+
+    afterEach(() => exchange.stop());
+
+    const balances = async (): Promise<{ [currency: string]: string }> => {
+        const accounts = (await client.listAccounts()).data;
+
+        return accounts.reduce((all, account) => ({ ...all, [account.currency]: account.available }), {});
+    };
+
+    it('fills a market buy against resting liquidity and charges the taker fee', async () => {
+        exchange.addLiquidity('BTC-USD', 'sell', 10000, 1);
+
+        const order = (await client.placeNewOrder({ product_id: 'BTC-USD', side: 'buy', size: '0.5', type: 'market' }))
+            .data;
+
+        expect(order.status).to.equal('done');
+        expect(order.done_reason).to.equal('filled');
+        expect(parseFloat(order.executed_value)).to.equal(5000);
+        expect(parseFloat(order.fill_fees)).to.equal(12.5);
+
+        const after = await balances();
+        expect(parseFloat(after.BTC)).to.equal(10.5);
+        expect(parseFloat(after.USD)).to.equal(100000 - 5012.5);
+    });
+
+    it('rests the remainder of a limit order and holds its funds', async () => {
+        const order = (await client.placeNewOrder({ price: '9000', product_id: 'BTC-USD', side: 'buy', size: '1' }))
+            .data;
+
+        expect(order.status).to.equal('open');
+        expect(parseFloat((await balances()).USD)).to.equal(100000 - 9000 * 1.0025);
+
+        await client.cancelOrder(order.id);
+        expect(parseFloat((await balances()).USD)).to.equal(100000);
+        await client.getOrder(order.id).then(() => expect.fail(), (err) => expect(err).to.be.instanceof(NotFoundError));
+    });
+
+    it('rejects orders the balance cannot cover', async () => {
+        await client.placeNewOrder({ price: '20000', product_id: 'BTC-USD', side: 'buy', size: '10' })
+                    .then(() => expect.fail(), (err) => expect(err).to.be.instanceof(InsufficientFundsError));
+    });
+
+    it('cancels a fill-or-kill order the book cannot fill entirely, without trading', async () => {
+        exchange.addLiquidity('BTC-USD', 'sell', 10000, 0.4);
+
+        const killed = (await client.placeNewOrder({ price: '10000', product_id: 'BTC-USD', side: 'buy', size: '0.5',
+                                                    time_in_force: 'FOK' })).data;
+
+        expect(killed.status).to.equal('done');
+        expect(killed.done_reason).to.equal('canceled');
+        expect(parseFloat(killed.filled_size)).to.equal(0);
+        expect(exchange.engine.getBookSide('BTC-USD', 'asks')[0].size).to.equal(0.4);
+
+        const filled = (await client.placeNewOrder({ price: '10000', product_id: 'BTC-USD', side: 'buy', size: '0.4',
+                                                    time_in_force: 'FOK' })).data;
+
+        expect(filled.done_reason).to.equal('filled');
+        expect(parseFloat(filled.filled_size)).to.equal(0.4);
+    });
+
+    it('keeps the partial fill of an immediate-or-cancel order', async () => {
+        exchange.addLiquidity('BTC-USD', 'sell', 10000, 0.4);
+
+        const order = (await client.placeNewOrder({ price: '10000', product_id: 'BTC-USD', side: 'buy', size: '0.5',
+                                                   time_in_force: 'IOC' })).data;
+
+        expect(order.done_reason).to.equal('canceled');
+        expect(parseFloat(order.filled_size)).to.equal(0.4);
+    });
+
+    it('triggers a stop order once a trade reaches its price and fills it at market', async () => {
+        exchange.addLiquidity('BTC-USD', 'buy', 9500, 1);
+        exchange.addLiquidity('BTC-USD', 'buy', 8900, 1);
+
+        const stop = (await client.placeNewOrder({ price: '9000', product_id: 'BTC-USD', side: 'sell', size: '0.5',
+                                                  type: 'stop' })).data;
+
+        expect(stop.status).to.equal('active');
+        expect(stop.stop_price).to.equal('9000.00000000');
+        expect(parseFloat((await balances()).BTC)).to.equal(9.5);
+
+        const seller = getClient(exchange.createUser({ BTC: 10 }), { baseURL: exchange.url }, { rateLimiter: false });
+
+        await seller.placeNewOrder({ product_id: 'BTC-USD', side: 'sell', size: '1', type: 'market' });
+        expect((await client.getOrder(stop.id)).data.status).to.equal('active');
+
+        await seller.placeNewOrder({ product_id: 'BTC-USD', side: 'sell', size: '0.2', type: 'market' });
+
+        const triggered = (await client.getOrder(stop.id)).data;
+        expect(triggered.status).to.equal('done');
+        expect(triggered.done_reason).to.equal('filled');
+        expect(parseFloat(triggered.executed_value)).to.equal(0.5 * 8900);
+    });
+
+    it('cancels a stop order that has not triggered and releases its hold', async () => {
+        const stop = (await client.placeNewOrder({ price: '9000', product_id: 'BTC-USD', side: 'sell', size: '1',
+                                                  type: 'stop' })).data;
+
+        await client.cancelOrder(stop.id);
+        expect(parseFloat((await balances()).BTC)).to.equal(10);
+    });
+
+    /**
+     * Rests a sell of 1 BTC at 10000 for the client.
+     */
+    const restSell = async () =>
+        (await client.placeNewOrder({ price: '10000', product_id: 'BTC-USD', side: 'sell', size: '1' })).data;
+
+    const status = async (id: string) => {
+        const { done_reason, size, status: state } = (await client.getOrder(id)).data;
+
+        return [state, done_reason, parseFloat(size)];
+    };
+
+    it('cancels the smaller of two crossing orders of a user and decrements the larger by default', async () => {
+        exchange.addLiquidity('BTC-USD', 'sell', 10100, 1);
+        const resting = await restSell();
+
+        const taker = (await client.placeNewOrder({ price: '10100', product_id: 'BTC-USD', side: 'buy',
+                                                    size : '1.5' })).data;
+
+        expect(await status(resting.id)).to.deep.equal(['done', 'canceled', 1]);
+        expect([taker.done_reason, taker.size, taker.filled_size])
+            .to.deep.equal(['filled', '0.50000000', '0.50000000']);
+        expect(parseFloat((await balances()).BTC)).to.equal(10.5);
+        expect(parseFloat((await balances()).USD)).to.equal(100000 - 0.5 * 10100 * 1.0025);
+
+        const larger  = await restSell();
+        const smaller = (await client.placeNewOrder({ product_id: 'BTC-USD', side: 'buy', size: '0.4',
+                                                      type      : 'market' })).data;
+
+        expect([smaller.status, smaller.done_reason, smaller.filled_size])
+            .to.deep.equal(['done', 'canceled', '0.00000000']);
+        expect(await status(larger.id)).to.deep.equal(['open', undefined, 0.6]);
+        expect(parseFloat((await balances()).BTC)).to.equal(9.9);
+
+        const funds = (await client.placeNewOrder({ funds: '3000', product_id: 'BTC-USD', side: 'buy',
+                                                    type : 'market' })).data;
+
+        expect([funds.done_reason, funds.filled_size]).to.deep.equal(['canceled', '0.00000000']);
+        expect(await status(larger.id)).to.deep.equal(['open', undefined, 0.3]);
+        expect(parseFloat((await balances()).USD)).to.equal(100000 - 0.5 * 10100 * 1.0025);
+    });
+
+    it('cancels the resting order, the new one or both when asked', async () => {
+        const buy = async (stp: SelfTradePrevention, price: string) =>
+            (await client.placeNewOrder({ price, product_id: 'BTC-USD', side: 'buy', size: '1', stp })).data;
+
+        exchange.addLiquidity('BTC-USD', 'sell', 10100, 1);
+        let resting = await restSell();
+        let taker   = await buy('co', '10100');
+        expect(await status(resting.id)).to.deep.equal(['done', 'canceled', 1]);
+        expect([taker.done_reason, taker.executed_value]).to.deep.equal(['filled', '10100.00000000']);
+
+        resting = await restSell();
+        taker   = await buy('cn', '10000');
+        expect(await status(resting.id)).to.deep.equal(['open', undefined, 1]);
+        expect([taker.done_reason, taker.filled_size]).to.deep.equal(['canceled', '0.00000000']);
+        await client.cancelOrder(resting.id);
+
+        resting = await restSell();
+        taker   = await buy('cb', '10000');
+        expect(await status(resting.id)).to.deep.equal(['done', 'canceled', 1]);
+        expect(taker.done_reason).to.equal('canceled');
+        expect(parseFloat((await balances()).BTC)).to.equal(11);
+    });
+
+    it('rejects unknown self-trade prevention flags', async () => {
+        await client.placeNewOrder({ price: '10000', product_id: 'BTC-USD', side: 'sell', size: '1',
+                                     stp  : 'xx' as SelfTradePrevention })
+                    .then(() => expect.fail(), (err) => expect(err.message).to.match(/Invalid stp xx/));
+    });
+
+    it('fails injected faults the given number of times', async () => {
+        exchange.injectFault({ method: 'GET', path: '/accounts', status: 503, times: 1 });
+
+        const noRetry = getClient(exchange.createUser(), { baseURL: exchange.url }, { rateLimiter: false,
+                                                                                     retryPolicy: false });
+
+        await noRetry.listAccounts().then(() => expect.fail(), (err) => expect(err.status).to.equal(503));
+        expect((await noRetry.listAccounts()).data.length).to.be.greaterThan(0);
+    });
+
+    it('checks signatures against the body exactly as it was sent', async () => {
+        const auth      = exchange.createUser({ USD: 1000 });
+        const body      = '{ "price": "100", "product_id": "BTC-USD", "side": "buy", "size": "0.01", "type": "limit" }';
+        const timestamp = Date.now() / 1000;
+        const post      = (signed: string) => axios.post(`${exchange.url}/orders`, body, {
+            headers: {
+                'CB-ACCESS-KEY'       : auth.publicKey,
+                'CB-ACCESS-PASSPHRASE': auth.passphrase,
+                'CB-ACCESS-SIGN'      : hmacDigest(auth.privateKey, `${timestamp}POST/orders${signed}`),
+                'CB-ACCESS-TIMESTAMP' : timestamp,
+                'Content-Type'        : 'application/json',
+            },
+        }).then(({ status }) => status, (err) => err.response.status);
+
+        expect(await post(JSON.stringify(JSON.parse(body)))).to.equal(401);
+        expect(await post(body)).to.equal(200);
+    });
+});
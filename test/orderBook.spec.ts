@@ -0,0 +1,89 @@
+import { expect } from 'chai';
+import { EventEmitter } from 'events';
+import {
+    getClient,
+    getMockExchange,
+    getOrderBook,
+    IFeedClient,
+    IMockExchange,
+    IOrderBook,
+} from '../index';
+import { getFakeFeed } from './helpers';
+
+describe('order book', () => {
+    let exchange: IMockExchange;
+    let feed: IFeedClient & EventEmitter;
+    let book: IOrderBook;
+
+    beforeEach(async () => {
+        exchange = getMockExchange();
+        feed     = getFakeFeed();
+
+        const client = getClient(null, { baseURL: await exchange.start() }, { rateLimiter: false, retryPolicy: false });
+        book         = getOrderBook(client, feed, 'BTC-USD', { level: 3, resyncDelay: 20 });
+
+        exchange.addLiquidity('BTC-USD', 'buy', 9900, 1);
+        exchange.addLiquidity('BTC-USD', 'sell', 10100, 2);
+    });
+
+    afterEach(() => {
+        book.stop();
+
+        return exchange.stop();
+    });
+
+    it('loads the level 3 snapshot', async () => {
+        await book.start();
+
+        expect(book.isSynced()).to.equal(true);
+        expect(book.getBestBid()).to.deep.equal({ orders: 1, price: 9900, size: 1 });
+        expect(book.getBestAsk()).to.deep.equal({ orders: 1, price: 10100, size: 2 });
+    });
+
+    it('stops again when the first snapshot fails, leaving nothing to retry', async () => {
+        exchange.injectFault({ method: 'GET', path: '/products/BTC-USD/book', status: 503, times: 1 });
+
+        const synced: number[] = [];
+        book.on('synced', (sequence: number) => synced.push(sequence));
+
+        await book.start().then(() => expect.fail(), (err) => expect(err.status).to.equal(503));
+        await new Promise((resolve) => setTimeout(resolve, 60));
+
+        expect(synced).to.deep.equal([]);
+        expect(feed.listenerCount('message')).to.equal(0);
+
+        await book.start();
+        expect(book.isSynced()).to.equal(true);
+    });
+
+    it('retries a failed resync with backoff until it loads', async () => {
+        await book.start();
+        exchange.injectFault({ method: 'GET', path: '/products/BTC-USD/book', status: 503, times: 2 });
+        exchange.addLiquidity('BTC-USD', 'sell', 10050, 1);
+
+        const synced = new Promise((resolve) => book.on('synced', resolve));
+
+        feed.emit('connected');
+        await synced;
+
+        expect(book.getBestAsk().price).to.equal(10050);
+        expect(exchange.getRequests().filter(({ path }) => /book/.test(path))).to.have.length(4);
+    });
+
+    it('resyncs on a sequence gap', async () => {
+        await book.start();
+
+        const gaps: number[][] = [];
+        book.on('gap', (expected: number, received: number) => gaps.push([expected, received]));
+
+        const synced = new Promise((resolve) => book.on('synced', resolve));
+        exchange.addLiquidity('BTC-USD', 'sell', 10050, 1);
+        feed.emit('message', { order_id: 'x', price: '10000', product_id: 'BTC-USD', remaining_size: '1',
+                               sequence: book.sequence + 5, side: 'sell', time: new Date().toISOString(),
+                               type: 'open' });
+
+        await synced;
+        expect(gaps).to.have.length(1);
+        expect(book.getBestAsk().price).to.equal(10050);
+    });
+});
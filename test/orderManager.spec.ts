@@ -0,0 +1,150 @@
+import { expect } from 'chai';
+import {
+    getClient,
+    getMockExchange,
+    getOrderManager,
+    IFeedClient,
+    IFeedMessage,
+    IGdaxClient,
+    IListOrdersParams,
+    IMockExchange,
+    IOrderFill,
+    IOrderManager,
+    IPaginationParams,
+} from '../index';
+import { getFakeFeed } from './helpers';
+
+describe('order manager', () => {
+    let exchange: IMockExchange;
+    let client: IGdaxClient;
+    let manager: IOrderManager;
+    let events: string[];
+    let partialFills: IOrderFill[];
+
+    beforeEach(async () => {
+        exchange      = getMockExchange();
+        const baseURL = await exchange.start();
+        client        = getClient(exchange.createUser({ BTC: 10, USD: 100000 }), { baseURL }, { rateLimiter: false });
+    });
+
+    afterEach(() => {
+        manager.stop();
+
+        return exchange.stop();
+    });
+
+    const follow = (feed?: IFeedClient) => {
+        manager      = getOrderManager(client, { feed, pollInterval: 60000, productIds: ['BTC-USD'] });
+        events       = [];
+        partialFills = [];
+
+        for (const event of ['received', 'open', 'filled', 'cancelled', 'done']) {
+            manager.on(event as 'done', () => events.push(event));
+        }
+        manager.on('partialFill', (fill) => partialFills.push(fill));
+
+        return manager.start();
+    };
+
+    it('reports the fills of a resting order, then its completion', async () => {
+        await follow();
+        const order = await manager.placeOrder({ price: '9000', product_id: 'BTC-USD', side: 'buy', size: '1' });
+
+        exchange.placeHouseOrder({ product_id: 'BTC-USD', side: 'sell', size: '0.4', type: 'market' });
+        await manager.reconcile();
+        exchange.placeHouseOrder({ product_id: 'BTC-USD', side: 'sell', size: '0.6', type: 'market' });
+        await manager.reconcile();
+
+        expect(partialFills.map(({ size }) => size)).to.deep.equal([0.4]);
+        expect(events).to.deep.equal(['received', 'open', 'filled', 'done']);
+        expect(manager.getOrder(order.id).filled_size).to.equal('1.00000000');
+    });
+
+    it('does not report the fill that completes a funds-based order as partial', async () => {
+        exchange.addLiquidity('BTC-USD', 'sell', 10000, 0.1);
+        exchange.addLiquidity('BTC-USD', 'sell', 10100, 1);
+        await follow();
+
+        await manager.placeOrder({ funds: '2000', product_id: 'BTC-USD', side: 'buy', type: 'market' });
+
+        expect(partialFills).to.have.length(0);
+        expect(events).to.deep.equal(['received', 'filled', 'done']);
+    });
+
+    it('holds back a feed fill of a funds-based order until the order goes on or ends', async () => {
+        const feed = getFakeFeed();
+        await follow(feed);
+
+        const time  = new Date().toISOString();
+        const base  = { product_id: 'BTC-USD', profile_id: 'p', sequence: 1, side: 'buy', time };
+        const match = (tradeId: number, size: string) => ({
+            ...base, maker_order_id: 'm', price: '10000', size, taker_order_id: 'o', trade_id: tradeId, type: 'match',
+        });
+        const push  = (message: {}) => feed.emit('message', message as IFeedMessage);
+
+        push({ ...base, funds: '2000', order_id: 'o', order_type: 'market', type: 'received' });
+        push(match(1, '0.1'));
+        expect(partialFills).to.have.length(0);
+
+        push(match(2, '0.09'));
+        push({ ...base, order_id: 'o', reason: 'filled', type: 'done' });
+
+        expect(partialFills.map(({ tradeId }) => tradeId)).to.deep.equal([1]);
+        expect(events).to.deep.equal(['received', 'filled', 'done']);
+        expect(manager.getOrder('o').filled_size).to.equal('0.19000000');
+    });
+
+    it('does not count a fill again when its match arrives after the snapshot', async () => {
+        exchange.addLiquidity('BTC-USD', 'sell', 10000, 1);
+        const feed = getFakeFeed();
+        await follow(feed);
+
+        const order = await manager.placeOrder({ price: '10000', product_id: 'BTC-USD', side: 'buy', size: '2' });
+        const match = { maker_order_id: 'm', price: '10000', product_id: 'BTC-USD', sequence: 1, side: 'sell',
+                        size  : '1', taker_order_id: order.id, time: new Date().toISOString(), trade_id: 1,
+                        type  : 'match' };
+        feed.emit('message', match as IFeedMessage);
+
+        expect(manager.getOrder(order.id)).to.include({ executed_value: '10000.00000000', filled_size: '1.00000000' });
+
+        feed.emit('message', { ...match, size: '0.5', trade_id: 2 } as IFeedMessage);
+
+        expect(manager.getOrder(order.id).filled_size).to.equal('1.50000000');
+    });
+
+    it('ignores matches of orders that are done', async () => {
+        exchange.addLiquidity('BTC-USD', 'sell', 10000, 1);
+        const feed = getFakeFeed();
+        await follow(feed);
+
+        const order = await manager.placeOrder({ product_id: 'BTC-USD', side: 'buy', size: '1', type: 'market' });
+        feed.emit('message', { maker_order_id: 'm', price: '10000', product_id: 'BTC-USD', sequence: 1, side: 'sell',
+                               size  : '0.5', taker_order_id: order.id, time: new Date().toISOString(), trade_id: 7,
+                               type  : 'match' } as IFeedMessage);
+
+        expect(manager.getOrder(order.id)).to.include({ filled_size: '1.00000000', status: 'done' });
+    });
+
+    it('can be started again after the open orders could not be listed', async () => {
+        const feed  = getFakeFeed();
+        const real  = client;
+        const state = { failing: true };
+        client      = {
+            ...real,
+            listOrders: (params?: IListOrdersParams, pagination?: IPaginationParams) => state.failing ?
+                        Promise.reject(new Error('listing failed')) :
+                        real.listOrders(params, pagination),
+        };
+        await real.placeNewOrder({ price: '9000', product_id: 'BTC-USD', side: 'buy', size: '1' });
+
+        const err = await follow(feed).then(() => null, (e: Error) => e);
+        expect(err.message).to.equal('listing failed');
+        expect(feed.listenerCount('message')).to.equal(0);
+
+        state.failing = false;
+        await manager.start();
+
+        expect(manager.getOpenOrders()).to.have.length(1);
+        expect(feed.listenerCount('message')).to.equal(1);
+    });
+});
@@ -0,0 +1,69 @@
+import { expect } from 'chai';
+import {
+    getClient,
+    getMockExchange,
+    INewOrderParams,
+    IGdaxClient,
+    IMockExchange,
+    ValidationError,
+} from '../index';
+
+describe('order validation', () => {
+    let exchange: IMockExchange;
+    let client: IGdaxClient;
+
+    beforeEach(async () => {
+        exchange      = getMockExchange();
+        const baseURL = await exchange.start();
+        client        = getClient(exchange.createUser({ BTC: 10, USD: 100000 }), { baseURL }, { rateLimiter: false });
+    });
+
+    afterEach(() => exchange.stop());
+
+    const orderRequests = () => exchange.getRequests().filter((request) => request.method === 'POST');
+
+    const rejection = (order: INewOrderParams, validate: 'reject' | 'round'): Promise<Error> =>
+        client.placeNewOrder(order, { validate }).then(() => null, (err: Error) => err);
+
+    it('rounds prices and sizes so that the order does not get worse', async () => {
+        const buy  = (await client.placeNewOrder({ price: '9000.019', product_id: 'BTC-USD', side: 'buy', size: '0.1' },
+                                                 { validate: 'round' })).data;
+        const sell = (await client.placeNewOrder({ price: '11000.011', product_id: 'BTC-USD', side: 'sell',
+                                                   size : '0.123456789' },
+                                                 { validate: 'round' })).data;
+
+        expect(parseFloat(buy.price)).to.equal(9000.01);
+        expect(parseFloat(sell.price)).to.equal(11000.02);
+        expect(parseFloat(sell.size)).to.equal(0.12345678);
+    });
+
+    it('rejects an order off the increments before sending it', async () => {
+        const err = await rejection({ price: '9000.019', product_id: 'BTC-USD', side: 'buy', size: '0.1' }, 'reject');
+
+        expect(err).to.be.instanceof(ValidationError);
+        expect(err.message).to.match(/not a multiple of 0.01/);
+        expect(orderRequests()).to.have.length(0);
+    });
+
+    it('rejects sizes outside the product limits', async () => {
+        const err = await rejection({ product_id: 'BTC-USD', side: 'buy', size: '0.0001', type: 'market' }, 'round');
+
+        expect(err).to.be.instanceof(ValidationError);
+        expect(err.message).to.match(/below the minimum/);
+        expect(orderRequests()).to.have.length(0);
+    });
+
+    it('rejects illegal field combinations from untyped callers', async () => {
+        const orders = [
+            { product_id: 'BTC-USD', side: 'buy', size: '1', type: 'stop' },
+            { price: '9000', product_id: 'BTC-USD', side: 'buy', size: '1', type: 'market' },
+            { funds: '100', product_id: 'BTC-USD', side: 'buy', size: '1', type: 'market' },
+            { post_only: true, price: '9000', product_id: 'BTC-USD', side: 'buy', size: '1', time_in_force: 'IOC' },
+        ];
+
+        for (const order of orders) {
+            expect(await rejection(order as INewOrderParams, 'reject')).to.be.instanceof(ValidationError);
+        }
+        expect(orderRequests()).to.have.length(0);
+    });
+});
@@ -0,0 +1,67 @@
+import { expect } from 'chai';
+import { getClient, getMockExchange, getPaginator, IGdaxClient, IMockExchange, IPaginator } from '../index';
+
+describe('pagination', () => {
+    let exchange: IMockExchange;
+    let client: IGdaxClient;
+    let paginator: IPaginator;
+
+    beforeEach(async () => {
+        exchange      = getMockExchange();
+        const baseURL = await exchange.start();
+        client        = getClient(exchange.createUser({ BTC: 10, USD: 100000 }), { baseURL }, { rateLimiter: false });
+        paginator     = getPaginator(client);
+    });
+
+    afterEach(() => exchange.stop());
+
+    const collect = async <T>(iterator: AsyncIterableIterator<T>): Promise<T[]> => {
+        const items: T[] = [];
+        for await (const item of iterator) items.push(item);
+
+        return items;
+    };
+
+    const buy = async (times: number): Promise<void> => {
+        exchange.addLiquidity('BTC-USD', 'sell', 10000, times);
+        for (let i = 0; i < times; i++) {
+            await client.placeNewOrder({ product_id: 'BTC-USD', side: 'buy', size: '1', type: 'market' });
+        }
+    };
+
+    it('follows the cursors over every page, newest first', async () => {
+        await buy(5);
+
+        const pages = await collect(paginator.fillPages({ product_id: 'BTC-USD' }, { pageSize: 2 }));
+        const ids   = pages.map((page) => page.items.map((fill) => fill.trade_id));
+
+        expect(ids.map((page) => page.length)).to.deep.equal([2, 2, 1]);
+        expect([].concat(...ids)).to.deep.equal([5, 4, 3, 2, 1]);
+    });
+
+    it('stops at maxItems and at untilTradeId', async () => {
+        await buy(5);
+
+        const first = await collect(paginator.trades('BTC-USD', { maxItems: 3, pageSize: 2 }));
+        const until = await collect(paginator.trades('BTC-USD', { pageSize: 2, untilTradeId: 3 }));
+
+        expect(first.map((trade) => trade.trade_id)).to.deep.equal([5, 4, 3]);
+        expect(until.map((trade) => trade.trade_id)).to.deep.equal([5, 4, 3]);
+    });
+
+    it('resumes from a saved cursor, in either direction', async () => {
+        await buy(3);
+
+        const [page]  = await collect(paginator.fillPages({ product_id: 'BTC-USD' }, { maxItems: 1, pageSize: 1 }));
+        const older   = await collect(paginator.fills({ product_id: 'BTC-USD' }, { cursor: page.cursor, pageSize: 1 }));
+
+        await buy(2);
+
+        const newer = await collect(paginator.fills({ product_id: 'BTC-USD' },
+                                                    { cursor: page.before, direction: 'backward', pageSize: 1 }));
+
+        expect(page.items.map((fill) => fill.trade_id)).to.deep.equal([3]);
+        expect(older.map((fill) => fill.trade_id)).to.deep.equal([2, 1]);
+        expect(newer.map((fill) => fill.trade_id)).to.deep.equal([4, 5]);
+    });
+});
@@ -0,0 +1,89 @@
+import { expect } from 'chai';
+import {
+    getMockExchange,
+    getPaperClient,
+    IMockExchange,
+    IPaperClient,
+    MatchingEngine,
+    ValidationError,
+} from '../index';
+
+describe('paper trading', () => {
+    let exchange: IMockExchange;
+    let client: IPaperClient;
+
+    beforeEach(async () => {
+        exchange      = getMockExchange();
+        const baseURL = await exchange.start();
+        client        = getPaperClient({ agentOptions: { rateLimiter: false }, balances: { USD: 20000 },
+                                         config: { baseURL } });
+    });
+
+    afterEach(() => exchange.stop());
+
+    it('fills a market order against the real book without touching it', async () => {
+        exchange.addLiquidity('BTC-USD', 'sell', 10000, 1);
+
+        const order = (await client.placeNewOrder({ product_id: 'BTC-USD', side: 'buy', size: '0.5', type: 'market' }))
+            .data;
+        const book  = (await client.getProductOrderBook('BTC-USD', { level: 2 })).data;
+
+        expect(order.status).to.equal('done');
+        expect(parseFloat(order.executed_value)).to.equal(5000);
+        expect(book.asks.map(([price, size]) => [parseFloat(price), parseFloat(size)])).to.deep.equal([[10000, 1]]);
+    });
+
+    it('fills a resting order once the market reaches it', async () => {
+        exchange.addLiquidity('BTC-USD', 'sell', 10000, 1);
+        const order = (await client.placeNewOrder({ price: '9000', product_id: 'BTC-USD', side: 'buy', size: '1' }))
+            .data;
+
+        exchange.addLiquidity('BTC-USD', 'sell', 8900, 2);
+
+        const filled = (await client.getOrder(order.id)).data;
+        const fills  = (await client.listFills({ order_id: order.id })).data;
+
+        expect(filled.status).to.equal('done');
+        expect(fills.map((fill) => [parseFloat(fill.price), fill.liquidity])).to.deep.equal([[9000, 'M']]);
+    });
+
+    it('refuses stop orders, which are not simulated', async () => {
+        const err = await client.placeNewOrder({ price: '9000', product_id: 'BTC-USD', side: 'sell', size: '1',
+                                                 type : 'stop' }).then(() => null, (e: Error) => e);
+
+        expect(err).to.be.instanceof(ValidationError);
+        expect(err.message).to.equal('stop orders are not simulated');
+    });
+
+    it('forgets the done orders of a profile that mirrors the market', () => {
+        const engine = new MatchingEngine();
+        const market = engine.createProfile(true);
+        const user   = engine.createProfile();
+        engine.transfer(user, 'USD', 20000);
+
+        engine.placeOrder(market, { price: 10000, product_id: 'BTC-USD', side: 'sell', size: 1 });
+        engine.placeOrder(user, { product_id: 'BTC-USD', side: 'buy', size: 1, type: 'market' });
+        engine.purgeDone(market, 'BTC-USD');
+
+        expect(engine.listOrders(market, ['all'])).to.have.length(0);
+        expect(engine.listFills(market)).to.have.length(0);
+        expect(engine.listFills(user)).to.have.length(1);
+        expect(engine.listOrders(user, ['all'])).to.have.length(1);
+    });
+
+    it('forgets the trades of a product', () => {
+        const engine = new MatchingEngine();
+        const market = engine.createProfile(true);
+        const user   = engine.createProfile();
+        engine.transfer(user, 'USD', 20000);
+
+        engine.placeOrder(market, { price: 10000, product_id: 'BTC-USD', side: 'sell', size: 1 });
+        engine.placeOrder(user, { product_id: 'BTC-USD', side: 'buy', size: 1, type: 'market' });
+        expect(engine.getTrades('BTC-USD')).to.have.length(1);
+
+        engine.purgeTrades('BTC-USD');
+
+        expect(engine.getTrades('BTC-USD')).to.have.length(0);
+        expect(engine.listFills(user)).to.have.length(1);
+    });
+});
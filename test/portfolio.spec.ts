@@ -0,0 +1,49 @@
+import { expect } from 'chai';
+import { getClient, getMockExchange, getPortfolioValuation, IGdaxClient, IMockExchange } from '../index';
+
+describe('portfolio valuation', () => {
+    let exchange: IMockExchange;
+    let client: IGdaxClient;
+
+    beforeEach(async () => {
+        exchange      = getMockExchange();
+        const baseURL = await exchange.start();
+        client        = getClient(exchange.createUser({ USD: 20000 }), { baseURL }, { rateLimiter: false });
+
+        exchange.addLiquidity('BTC-USD', 'sell', 10000, 1);
+        await client.placeNewOrder({ product_id: 'BTC-USD', side: 'buy', size: '1', type: 'market' });
+        exchange.addLiquidity('BTC-USD', 'buy', 11000, 1);
+        await client.placeNewOrder({ product_id: 'BTC-USD', side: 'sell', size: '0.5', type: 'market' });
+    });
+
+    afterEach(() => exchange.stop());
+
+    it('values the accounts and the PnL of the traded products', async () => {
+        const valuation = await getPortfolioValuation(client);
+        const [btc]     = valuation.products;
+
+        expect(btc.productId).to.equal('BTC-USD');
+        expect(btc.position.toNumber()).to.equal(0.5);
+        expect(btc.price.toNumber()).to.equal(11000);
+        expect(valuation.realized.toNumber()).to.be.closeTo(5500 - 13.75 - 5012.5, 1e-8);
+        expect(valuation.unpricedProducts).to.deep.equal([]);
+    });
+
+    it('reports products without a price instead of failing', async () => {
+        const valuation = await getPortfolioValuation(client, { productIds: ['BTC-USD', 'ETH-BTC'] });
+
+        expect(valuation.products.map(({ productId }) => productId)).to.deep.equal(['BTC-USD']);
+        expect(valuation.unpricedProducts).to.deep.equal(['ETH-BTC']);
+    });
+
+    it('reports delisted products instead of failing', async () => {
+        const listed   = (await client.getProducts()).data.filter(({ id }) => id !== 'BTC-USD');
+        const delisted = { ...client, getProducts: async () => ({ ...await client.getProducts(), data: listed }) };
+
+        const valuation = await getPortfolioValuation(delisted);
+
+        expect(valuation.products).to.have.length(0);
+        expect(valuation.unpricedProducts).to.deep.equal(['BTC-USD']);
+        expect(valuation.unpriced).to.deep.equal(['BTC']);
+    });
+});
@@ -0,0 +1,86 @@
+import { expect } from 'chai';
+import { getRateLimiter, requestPriority, IRateLimiter } from '../index';
+
+describe('rate limiter', () => {
+    // 100 tokens a second: one every 10 ms of the fake clock.
+    const rate = 100;
+
+    let time: number;
+    let limiter: IRateLimiter;
+
+    const clock = { now: () => time };
+
+    beforeEach(() => {
+        time    = 1514764800000;
+        limiter = getRateLimiter({ clock, private: { burst: 2, rate }, public: { burst: 1, rate } });
+    });
+
+    /**
+     * Moves the fake clock on, then gives the limiter's timer (which runs in real time) the chance to fire.
+     */
+    const tick = (ms: number) => {
+        time += ms;
+
+        return new Promise((resolve) => setTimeout(resolve, 30));
+    };
+
+    it('grants a burst at once and then one request per refilled token', async () => {
+        const granted: number[] = [];
+        [1, 2, 3].forEach((id) => limiter.acquire('private').then(() => granted.push(id)));
+
+        await tick(0);
+        expect(granted).to.deep.equal([1, 2]);
+        expect(limiter.getQueueDepth('private')).to.equal(1);
+
+        await tick(5);
+        expect(granted).to.deep.equal([1, 2]);
+
+        await tick(5);
+        expect(granted).to.deep.equal([1, 2, 3]);
+        expect(limiter.getQueueDepth('private')).to.equal(0);
+    });
+
+    it('never holds more tokens than the burst', async () => {
+        await limiter.acquire('private');
+        await tick(1000);
+
+        expect(limiter.getMetrics().private.tokens).to.equal(2);
+    });
+
+    it('lets cancels, then orders, then queries out of the queue', async () => {
+        const granted: string[] = [];
+        await limiter.acquire('public');
+
+        const requests = [
+            { name: 'query 1', priority: requestPriority.query }, { name: 'order', priority: requestPriority.order },
+            { name: 'cancel', priority: requestPriority.cancel }, { name: 'query 2', priority: requestPriority.query },
+        ];
+        requests.forEach(({ name, priority }) => limiter.acquire('public', priority).then(() => granted.push(name)));
+
+        for (let waiting = 4; waiting > 0; waiting--) {
+            expect(limiter.getQueueDepth('public')).to.equal(waiting);
+            await tick(10);
+        }
+        expect(granted).to.deep.equal(['cancel', 'order', 'query 1', 'query 2']);
+    });
+
+    it('keeps separate budgets and reports queue and wait metrics for each', async () => {
+        const ran: string[] = [];
+        await limiter.schedule('public', async () => ran.push('public'));
+        const queued        = limiter.schedule('public', async () => ran.push('queued'));
+        await limiter.schedule('private', async () => ran.push('private'));
+
+        expect(ran).to.deep.equal(['public', 'private']);
+        expect(limiter.getMetrics().public).to.deep.equal({ averageWait: 0, granted: 1, maxWait: 0, queued: 1,
+                                                            tokens: 0 });
+
+        await tick(20);
+        await queued;
+
+        expect(ran).to.deep.equal(['public', 'private', 'queued']);
+        expect(limiter.getMetrics()).to.deep.equal({
+            private: { averageWait: 0, granted: 1, maxWait: 0, queued: 0, tokens: 2 },
+            public : { averageWait: 10, granted: 2, maxWait: 20, queued: 0, tokens: 0 },
+        });
+    });
+});
@@ -0,0 +1,157 @@
+import { expect } from 'chai';
+import {
+    exportDiscrepancies,
+    exportLedger,
+    getClient,
+    getMockExchange,
+    reconcileLedger,
+    IAccount,
+    IFill,
+    IGdaxClient,
+    IGdaxResponse,
+    ILedgerEntry,
+    IListFillsParams,
+    IMockExchange,
+    IPaginationParams,
+    IReconciliationReport,
+    ITransferRecord,
+} from '../index';
+
+describe('ledger reconciliation', () => {
+    let exchange: IMockExchange;
+    let client: IGdaxClient;
+    let deposit: ITransferRecord;
+
+    beforeEach(async () => {
+        exchange      = getMockExchange();
+        const baseURL = await exchange.start();
+        const auth    = exchange.createUser({});
+        client        = getClient(auth, { baseURL }, { rateLimiter: false });
+        deposit       = { amount: '20000', currency: 'USD', id: exchange.deposit(auth, 'USD', 20000), type: 'deposit' };
+
+        exchange.addLiquidity('BTC-USD', 'sell', 10000, 1);
+        await client.placeNewOrder({ product_id: 'BTC-USD', side: 'buy', size: '0.5', type: 'market' });
+    });
+
+    afterEach(() => exchange.stop());
+
+    const types = (report: IReconciliationReport) => report.discrepancies.map(({ type }) => type);
+
+    /**
+     * The client with the ledger entries of every account passed through `edit`.
+     */
+    const editLedger = (edit: (entries: ILedgerEntry[]) => ILedgerEntry[]): IGdaxClient => ({
+        ...client,
+        getAccountHistory: async (accountId: string, pagination?: IPaginationParams) => {
+            const response = await client.getAccountHistory(accountId, pagination);
+
+            return { ...response, data: edit(response.data.map((entry) => ({ ...entry }))) };
+        },
+    });
+
+    /**
+     * The client with its fills passed through `edit`.
+     */
+    const editFills = (edit: (fills: IFill[]) => IFill[]): IGdaxClient => ({
+        ...client,
+        listFills: async (params?: IListFillsParams, pagination?: IPaginationParams) => {
+            const response = await client.listFills(params, pagination);
+
+            return { ...response, data: edit(response.data) };
+        },
+    });
+
+    it('finds nothing wrong with an untouched ledger', async () => {
+        const report = await reconcileLedger(client, { transfers: [deposit] });
+
+        expect(report.ok).to.equal(true);
+        expect(report.transfers_checked).to.equal(true);
+        expect(report.accounts.filter(({ entries }) => entries > 0).map(({ currency, ledger_balance }) =>
+            [currency, parseFloat(ledger_balance)])).to.deep.equal([['BTC', 0.5], ['USD', 14987.5]]);
+        expect(report.ledger.every(({ matched }) => matched)).to.equal(true);
+    });
+
+    it('reports a balance that does not follow from the entry before it', async () => {
+        const report = await reconcileLedger(editLedger((entries) => entries.map((entry) =>
+            entry.type === 'transfer' ? { ...entry, balance: '19000' } : entry)));
+
+        expect(types(report)).to.deep.equal(['running_balance']);
+        expect(report.discrepancies[0]).to.include({ actual: '15000.00000000', currency: 'USD', expected: '14000' });
+    });
+
+    it('reports a ledger that does not add up to the account balance', async () => {
+        const tampered = {
+            ...client,
+            getAccount: async (accountId: string): Promise<IGdaxResponse<IAccount>> => {
+                const { data, ...response } = await client.getAccount(accountId);
+
+                return { ...response, data: data.currency === 'BTC' ? { ...data, balance: '1' } : data };
+            },
+        };
+
+        const report = await reconcileLedger(tampered);
+
+        expect(report.discrepancies.map(({ currency, type }) => [currency, type]))
+            .to.deep.equal([['BTC', 'account_balance']]);
+    });
+
+    it('reports entries without a fill or a known transfer', async () => {
+        const report = await reconcileLedger(editFills(() => []), { transfers: [] });
+
+        expect(report.discrepancies.map(({ currency, type }) => [currency, type])).to.deep.equal([
+            ['BTC', 'unmatched_entry'], ['USD', 'unmatched_entry'], ['USD', 'unmatched_entry'],
+            ['USD', 'unmatched_entry'],
+        ]);
+    });
+
+    it('reports entries that disagree with their fill or transfer', async () => {
+        const fills  = editFills((data) => data.map((fill) => ({ ...fill, size: '0.4' })));
+        const report = await reconcileLedger(fills, { transfers: [{ ...deposit, amount: '19000' }] });
+
+        expect(report.discrepancies.map(({ currency, expected, type }) => [currency, type, expected])).to.deep.equal([
+            ['BTC', 'amount_mismatch', '0.4'], ['USD', 'amount_mismatch', '19000 USD'],
+            ['USD', 'amount_mismatch', '-4000'],
+        ]);
+    });
+
+    it('reports fills and transfers without an entry', async () => {
+        const fills    = editFills((data) => data.concat(data.map((fill) => ({ ...fill, trade_id: 999 }))));
+        const transfer = { ...deposit, id: 'unknown' };
+        const report   = await reconcileLedger(fills, { transfers: [deposit, transfer] });
+
+        expect(report.discrepancies.map(({ message, type }) => [type, message])).to.deep.equal([
+            ['missing_entry', 'no match entry for trade 999 of BTC-USD'],
+            ['missing_entry', 'no match entry for trade 999 of BTC-USD'],
+            ['missing_entry', 'no fee entry for trade 999 of BTC-USD'],
+            ['missing_entry', 'no ledger entry for deposit unknown'],
+        ]);
+    });
+
+    it('matches the fills of products that are no longer listed', async () => {
+        const delisted = {
+            ...client,
+            getProducts: async () => {
+                const response = await client.getProducts();
+
+                return { ...response, data: response.data.filter(({ id }) => id !== 'BTC-USD') };
+            },
+        };
+
+        expect((await reconcileLedger(delisted, { transfers: [deposit] })).ok).to.equal(true);
+    });
+
+    it('exports the ledger and the discrepancies as CSV', async () => {
+        const report = await reconcileLedger(client, { transfers: [] });
+
+        const ledger        = exportLedger(report.ledger, 'csv').split('\n');
+        const discrepancies = exportDiscrepancies(report.discrepancies, 'csv').split('\n');
+
+        expect(ledger[0]).to.equal('account_id,currency,id,created_at,type,amount,balance,order_id,trade_id,' +
+                                   'product_id,transfer_id,transfer_type,matched');
+        expect(ledger).to.have.length(report.ledger.length + 1);
+        expect(discrepancies[0]).to.equal('type,account_id,currency,entry_id,trade_id,transfer_id,expected,actual,' +
+                                          'message');
+        expect(discrepancies[1]).to.match(/^unmatched_entry,.*,transfer entry without a known transfer$/);
+        expect(JSON.parse(exportLedger(report.ledger))).to.deep.equal(report.ledger);
+    });
+});
@@ -0,0 +1,74 @@
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { formatCsv, generateReport, getClient, getMockExchange, IGdaxClient, IMockExchange } from '../index';
+
+describe('reports', () => {
+    const options = { maxPollInterval: 1, pollInterval: 1 };
+    const params  = {
+        end_date  : new Date(Date.now() + 60000).toISOString(),
+        product_id: 'BTC-USD',
+        start_date: new Date(Date.now() - 60000).toISOString(),
+        type      : 'fills' as 'fills',
+    };
+
+    let exchange: IMockExchange;
+    let client: IGdaxClient;
+
+    beforeEach(async () => {
+        exchange      = getMockExchange();
+        const baseURL = await exchange.start();
+        client        = getClient(exchange.createUser({ USD: 20000 }), { baseURL }, { rateLimiter: false });
+    });
+
+    afterEach(() => exchange.stop());
+
+    it('creates, waits for and parses a fills report', async () => {
+        exchange.addLiquidity('BTC-USD', 'sell', 10000, 1);
+        await client.placeNewOrder({ product_id: 'BTC-USD', side: 'buy', size: '0.5', type: 'market' });
+
+        const { report, rows } = await generateReport(client, params, options);
+
+        expect(report.status).to.equal('ready');
+        expect(rows.map((row) => [row.side, parseFloat(row.size), parseFloat(row.price)]))
+            .to.deep.equal([['BUY', 0.5, 10000]]);
+    });
+
+    it('removes a partly downloaded file', async () => {
+        const server = http.createServer((req, res) => {
+            res.writeHead(200, { 'content-length': '1000' });
+            res.write('portfolio,trade id');
+            setTimeout(() => req.socket.destroy(), 20);
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+        const fileUrl     = `http://127.0.0.1:${server.address().port}/report.csv`;
+        const destination = path.join(os.tmpdir(), `report-${process.pid}.csv`);
+        const broken      = {
+            ...client,
+            getReportStatus: async (reportId: string) => {
+                const response = await client.getReportStatus(reportId);
+                if (response.data.file_url !== undefined) response.data.file_url = fileUrl;
+
+                return response;
+            },
+        };
+
+        try {
+            const err = await generateReport(broken, params, { ...options, destination }).then(() => null, (e) => e);
+
+            expect(err).to.be.instanceof(Error);
+            expect(fs.existsSync(destination)).to.equal(false);
+        } finally {
+            server.close();
+        }
+    });
+
+    it('writes CSV with the given columns, quoting where needed', () => {
+        const rows = [{ amount: 1.5, note: 'a, "b"', ok: true }, { amount: 2, note: 'c', ok: false }];
+
+        expect(formatCsv(['note', 'amount'], rows)).to.equal('note,amount\n"a, ""b""",1.5\nc,2');
+    });
+});
@@ -0,0 +1,88 @@
+import { expect } from 'chai';
+import {
+    getClient,
+    getMockExchange,
+    IApiAuth,
+    IMockExchange,
+    IRetryPolicy,
+    ServerError,
+    ValidationError,
+} from '../index';
+
+describe('retry', () => {
+    const policy: IRetryPolicy = { baseDelay: 1, maxDelay: 1, maxRetries: 2 };
+
+    let exchange: IMockExchange;
+    let baseURL: string;
+    let auth: IApiAuth;
+
+    beforeEach(async () => {
+        exchange = getMockExchange();
+        baseURL  = await exchange.start();
+        auth     = exchange.createUser({ BTC: 10, USD: 100000 });
+    });
+
+    afterEach(() => exchange.stop());
+
+    const requestsTo = (path: string) =>
+        exchange.getRequests().filter((request) => request.path.split('?')[0] === path);
+
+    it('repeats an idempotent request that failed with a 5xx', async () => {
+        const client = getClient(auth, { baseURL }, { rateLimiter: false, retryPolicy: policy });
+        exchange.injectFault({ method: 'GET', path: '/accounts', status: 503, times: 2 });
+
+        const accounts = (await client.listAccounts()).data;
+
+        expect(accounts.map((account) => account.currency)).to.include('BTC');
+        expect(requestsTo('/accounts').map((request) => request.status)).to.deep.equal([503, 503, 200]);
+    });
+
+    it('gives up after maxRetries', async () => {
+        const client = getClient(auth, { baseURL }, { rateLimiter: false, retryPolicy: policy });
+        exchange.injectFault({ method: 'GET', path: '/accounts', status: 502, times: 5 });
+
+        const err = await client.listAccounts().catch((e: Error) => e);
+
+        expect(err).to.be.instanceof(ServerError);
+        expect(requestsTo('/accounts')).to.have.length(3);
+    });
+
+    it('does not repeat a request the exchange rejected', async () => {
+        const client = getClient(auth, { baseURL }, { rateLimiter: false, retryPolicy: policy });
+        exchange.injectFault({ method: 'GET', path: '/accounts', status: 400, message: 'Invalid request' });
+
+        const err = await client.listAccounts().catch((e: Error) => e);
+
+        expect(err).to.be.instanceof(ValidationError);
+        expect(requestsTo('/accounts')).to.have.length(1);
+    });
+
+    it('does not repeat a request that failed with a programming error', async () => {
+        let calls    = 0;
+        const client = getClient(auth, { baseURL }, {
+            middleware : [() => {
+                calls++;
+                throw new TypeError('oops');
+            }],
+            rateLimiter: false,
+            retryPolicy: policy,
+        });
+
+        const err = await client.listAccounts().catch((e: Error) => e);
+
+        expect(err).to.be.instanceof(TypeError);
+        expect(calls).to.equal(1);
+    });
+
+    it('places an idempotent order once when the first attempt got no response', async () => {
+        const client = getClient(auth, { baseURL }, { rateLimiter: false, retryPolicy: policy });
+        exchange.addLiquidity('BTC-USD', 'sell', 10000, 1);
+        exchange.injectFault({ drop: true, method: 'POST', path: '/orders' });
+
+        const order = (await client.placeNewOrder({ product_id: 'BTC-USD', side: 'buy', size: '0.5', type: 'market' },
+                                                  { idempotent: true })).data;
+
+        expect(order.status).to.equal('done');
+        expect((await client.listFills({ product_id: 'BTC-USD' })).data).to.have.length(1);
+    });
+});
@@ -0,0 +1,102 @@
+import { expect } from 'chai';
+import {
+    getClient,
+    getMockExchange,
+    getWithdrawalGuard,
+    IGdaxClient,
+    IMockExchange,
+    IWithdrawalAuditEntry,
+    IWithdrawalGuardOptions,
+    WithdrawalBlockedError,
+} from '../index';
+
+describe('withdrawal guard', () => {
+    const address = '1BoatSLRHtKNngkdXEeobR76b53LETtpyT';
+
+    let exchange: IMockExchange;
+    let client: IGdaxClient;
+    let audit: IWithdrawalAuditEntry[];
+
+    beforeEach(async () => {
+        exchange      = getMockExchange();
+        const baseURL = await exchange.start();
+        client        = getClient(exchange.createUser({ BTC: 10, USD: 10000 }), { baseURL }, { rateLimiter: false });
+        audit         = [];
+    });
+
+    afterEach(() => exchange.stop());
+
+    const guard = (options: Partial<IWithdrawalGuardOptions>) =>
+        getWithdrawalGuard(client, { allowlist : { cryptoAddresses: { BTC: [address] } },
+                                     audit     : (entry) => audit.push(entry),
+                                     dailyLimit: { BTC: '3' },
+                                     maxAmount : { BTC: '2' },
+                                     ...options });
+
+    const blocked = (promise: Promise<{}>) => promise.then(() => null, (e: Error) => e);
+
+    const sent = () => exchange.getRequests().filter(({ path }) => /^\/withdrawals/.test(path));
+
+    it('sends an allowed withdrawal, and only shows it on a dry run', async () => {
+        const withdrawals = guard({});
+        const params      = { amount: '1', crypto_address: address, currency: 'BTC' };
+
+        const dryRun = await withdrawals.withdrawToCryptoAddress(params, { dryRun: true });
+        expect(dryRun.request).to.deep.equal({ body: params, endpoint: 'withdrawals/crypto', method: 'POST' });
+        expect(sent()).to.have.length(0);
+
+        const { receipt } = await withdrawals.withdrawToCryptoAddress(params);
+        expect(receipt.id).to.be.a('string');
+        expect(sent()).to.have.length(1);
+        expect(audit.map(({ outcome }) => outcome)).to.deep.equal(['dry_run', 'sent']);
+    });
+
+    it('blocks destinations that are not allowed or not valid', async () => {
+        const withdrawals = guard({ allowlist: { cryptoAddresses: { BTC: [address, '1bad'] } } });
+
+        for (const crypto_address of ['3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy', '1bad']) {
+            const err = await blocked(withdrawals.withdrawToCryptoAddress({ amount: '1', crypto_address,
+                                                                             currency: 'BTC' }));
+            expect(err).to.be.instanceof(WithdrawalBlockedError);
+        }
+        expect(sent()).to.have.length(0);
+    });
+
+    it('applies the limits whatever the case of the currency', async () => {
+        const withdrawals = guard({ allowlist: { cryptoAddresses: { btc: [address] } }, dailyLimit: { btc: '3' },
+                                    maxAmount: { btc: '2' } });
+
+        await withdrawals.withdrawToCryptoAddress({ amount: '1.5', crypto_address: address, currency: 'btc' });
+
+        const once  = await blocked(withdrawals.withdrawToCryptoAddress({ amount: '2.5', crypto_address: address,
+                                                                           currency: 'BTC' }));
+        const daily = await blocked(withdrawals.withdrawToCryptoAddress({ amount: '1.6', crypto_address: address,
+                                                                           currency: 'Btc' }));
+
+        expect(once.message).to.match(/more than the 2 allowed at once/);
+        expect(daily.message).to.match(/more than the 3 allowed/);
+        expect(withdrawals.getDailyTotal('btc').toFixed()).to.equal('1.5');
+    });
+
+    it('refuses currencies without a limit', async () => {
+        const accounts    = (await client.listCoinbaseAccounts()).data;
+        const withdrawals = guard({ allowlist: { coinbaseAccounts: accounts.map(({ id }) => id) } });
+
+        const err = await blocked(withdrawals.withdrawToCoinbaseAccount({ amount: '100',
+                                                                          coinbase_account_id: accounts[0].id,
+                                                                          currency: 'USD' }));
+
+        expect(err.message).to.match(/no withdrawal limit is set for USD/);
+        expect(sent()).to.have.length(0);
+    });
+
+    it('blocks and audits an amount that is not a number', async () => {
+        const err = await blocked(guard({}).withdrawToCryptoAddress({ amount: '1,5', crypto_address: address,
+                                                                      currency: 'BTC' }));
+
+        expect(err).to.be.instanceof(WithdrawalBlockedError);
+        expect(audit.map(({ amount, outcome, reason }) => [amount, outcome, reason]))
+            .to.deep.equal([['1,5', 'blocked', '1,5 is not a valid amount']]);
+        expect(sent()).to.have.length(0);
+    });
+});